@@ -0,0 +1,49 @@
+import { PrismaClient } from '@prisma/client';
+import { SlugUtils } from '../src/utils/slug';
+
+const prisma = new PrismaClient();
+
+/**
+ * Give products created before slugs existed a slug generated from their
+ * name, the way SlugService.generateUniqueSlug does for new products. Run it
+ * before `npm run db:push` on a database with products and no slug column;
+ * the push then makes the column required and unique. Raw SQL is used since
+ * the generated client already expects the full schema.
+ */
+async function main() {
+  console.log('🔗 Backfilling product slugs...');
+
+  await prisma.$executeRaw`ALTER TABLE products ADD COLUMN IF NOT EXISTS slug TEXT`;
+
+  const taken = await prisma.$queryRaw<Array<{ slug: string }>>`
+    SELECT slug FROM products WHERE slug IS NOT NULL
+  `;
+  const usedSlugs = new Set(taken.map(({ slug }) => slug));
+
+  const products = await prisma.$queryRaw<Array<{ id: string; name: string }>>`
+    SELECT id, name FROM products WHERE slug IS NULL ORDER BY "createdAt", id
+  `;
+
+  for (const { id, name } of products) {
+    const base = SlugUtils.slugify(name) || 'product';
+    let slug = base;
+
+    for (let suffix = 2; usedSlugs.has(slug); suffix++) {
+      slug = SlugUtils.withSuffix(base, suffix);
+    }
+
+    usedSlugs.add(slug);
+    await prisma.$executeRaw`UPDATE products SET slug = ${slug} WHERE id = ${id}`;
+  }
+
+  console.log(`✅ Slugs generated for ${products.length} products`);
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error during slug backfill:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
\ No newline at end of file
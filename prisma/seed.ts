@@ -43,6 +43,7 @@ async function main() {
       where: { name: 'Wireless Bluetooth Headphones' },
       update: {},
       create: {
+        slug: 'wireless-bluetooth-headphones',
         name: 'Wireless Bluetooth Headphones',
         description: 'High-quality wireless headphones with active noise cancellation and 30-hour battery life.',
         price: 129.99,
@@ -53,6 +54,7 @@ async function main() {
       where: { name: 'Smartphone Case' },
       update: {},
       create: {
+        slug: 'smartphone-case',
         name: 'Smartphone Case',
         description: 'Durable protective case for smartphones with shock-resistant design.',
         price: 24.99,
@@ -63,6 +65,7 @@ async function main() {
       where: { name: 'USB-C Cable' },
       update: {},
       create: {
+        slug: 'usb-c-cable',
         name: 'USB-C Cable',
         description: 'Fast charging USB-C cable with data transfer support.',
         price: 19.99,
@@ -73,6 +76,7 @@ async function main() {
       where: { name: 'Wireless Mouse' },
       update: {},
       create: {
+        slug: 'wireless-mouse',
         name: 'Wireless Mouse',
         description: 'Ergonomic wireless mouse with precision tracking and rechargeable battery.',
         price: 49.99,
@@ -83,6 +87,7 @@ async function main() {
       where: { name: 'Bluetooth Speaker' },
       update: {},
       create: {
+        slug: 'bluetooth-speaker',
         name: 'Bluetooth Speaker',
         description: 'Portable Bluetooth speaker with 360-degree sound and waterproof design.',
         price: 79.99,
@@ -93,6 +98,7 @@ async function main() {
       where: { name: 'Laptop Stand' },
       update: {},
       create: {
+        slug: 'laptop-stand',
         name: 'Laptop Stand',
         description: 'Adjustable laptop stand for better ergonomics and cooling.',
         price: 39.99,
@@ -103,6 +109,7 @@ async function main() {
       where: { name: 'Gaming Keyboard' },
       update: {},
       create: {
+        slug: 'gaming-keyboard',
         name: 'Gaming Keyboard',
         description: 'Mechanical gaming keyboard with RGB backlighting and programmable keys.',
         price: 149.99,
@@ -113,6 +120,7 @@ async function main() {
       where: { name: 'Webcam HD' },
       update: {},
       create: {
+        slug: 'webcam-hd',
         name: 'Webcam HD',
         description: '1080p HD webcam with auto-focus and built-in microphone.',
         price: 59.99,
@@ -123,6 +131,7 @@ async function main() {
       where: { name: 'Power Bank' },
       update: {},
       create: {
+        slug: 'power-bank',
         name: 'Power Bank',
         description: '20000mAh portable power bank with fast charging and multiple ports.',
         price: 34.99,
@@ -133,6 +142,7 @@ async function main() {
       where: { name: 'Monitor Stand' },
       update: {},
       create: {
+        slug: 'monitor-stand',
         name: 'Monitor Stand',
         description: 'Adjustable monitor stand with storage drawer and cable management.',
         price: 89.99,
@@ -144,6 +154,7 @@ async function main() {
       where: { name: 'Limited Edition Smartwatch' },
       update: {},
       create: {
+        slug: 'limited-edition-smartwatch',
         name: 'Limited Edition Smartwatch',
         description: 'Premium smartwatch with health monitoring and GPS.',
         price: 299.99,
@@ -154,6 +165,7 @@ async function main() {
       where: { name: 'Vintage Camera' },
       update: {},
       create: {
+        slug: 'vintage-camera',
         name: 'Vintage Camera',
         description: 'Classic film camera for photography enthusiasts.',
         price: 499.99,
@@ -164,40 +176,36 @@ async function main() {
 
   console.log(`📦 Created ${products.length} products`);
 
+  // Build the full-text search vectors for the seeded products
+  await prisma.$executeRaw`
+    UPDATE products SET "searchVector" =
+      setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(description, '')), 'B')
+  `;
+
+  // Seeded products have no sales, so they sort by their regular price
+  await prisma.$executeRaw`UPDATE products SET "sortPrice" = price`;
+
   // Create some sample cart items for the customer
   const customerCart = await prisma.cart.findUnique({
     where: { userId: customer.id },
   });
 
   if (customerCart && products.length > 0) {
-    await prisma.cartItem.upsert({
-      where: {
-        cartId_productId: {
+    await prisma.cartItem.createMany({
+      data: [
+        {
           cartId: customerCart.id,
           productId: products[0].id, // Wireless Headphones
+          quantity: 1,
         },
-      },
-      update: {},
-      create: {
-        cartId: customerCart.id,
-        productId: products[0].id,
-        quantity: 1,
-      },
-    });
-
-    await prisma.cartItem.upsert({
-      where: {
-        cartId_productId: {
+        {
           cartId: customerCart.id,
           productId: products[1].id, // Smartphone Case
+          quantity: 2,
         },
-      },
-      update: {},
-      create: {
-        cartId: customerCart.id,
-        productId: products[1].id,
-        quantity: 2,
-      },
+      ],
+      skipDuplicates: true,
     });
 
     console.log('🛒 Added items to customer cart');
@@ -228,6 +236,16 @@ async function main() {
 
   console.log('📋 Created sample order:', sampleOrder.id);
 
+  // Derive product sales volume (used for popularity sorting) from non-cancelled orders
+  await prisma.$executeRaw`
+    UPDATE products SET "salesCount" = coalesce((
+      SELECT sum(order_items.quantity)
+      FROM order_items
+      JOIN orders ON orders.id = order_items."orderId"
+      WHERE order_items."productId" = products.id AND orders.status <> 'CANCELLED'
+    ), 0)
+  `;
+
   console.log('✅ Database seed completed successfully!');
   console.log('\n📊 Summary:');
   console.log(`- Admin user: admin@example.com (password: Admin123!)`);
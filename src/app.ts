@@ -46,6 +46,16 @@ if (config.nodeEnv === 'development') {
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
+// Uploaded media (local storage driver)
+if (config.storageDriver === 'local') {
+  app.use(config.mediaBaseUrl, express.static(config.uploadDir, {
+    setHeaders: (res) => {
+      // Allow storefronts on other origins to embed product images
+      res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    },
+  }));
+}
+
 // API Documentation
 if (config.enableSwagger) {
   // Serve swagger.json
@@ -119,8 +129,16 @@ app.get('/', (req: any, res: any) => {
       health: '/api/health',
       auth: '/api/auth',
       products: '/api/products',
+      categories: '/api/categories',
+      attributes: '/api/attributes',
       cart: '/api/cart',
+      wishlists: '/api/wishlists',
       orders: '/api/orders',
+      reviews: '/api/reviews',
+      questions: '/api/questions',
+      recommendations: '/api/recommendations',
+      downloads: '/api/downloads',
+      currencies: '/api/currencies',
     },
   });
 });
@@ -29,6 +29,43 @@ export const config = {
   // Swagger
   enableSwagger: process.env.ENABLE_SWAGGER === 'true',
   
+  // Media Storage
+  storageDriver: process.env.STORAGE_DRIVER || 'local',
+  uploadDir: process.env.UPLOAD_DIR || 'uploads',
+  mediaBaseUrl: process.env.MEDIA_BASE_URL || '/uploads',
+  maxUploadSizeMb: parseInt(process.env.MAX_UPLOAD_SIZE_MB || '5', 10),
+  thumbnailSize: parseInt(process.env.THUMBNAIL_SIZE || '300', 10),
+  maxImportSizeMb: parseInt(process.env.MAX_IMPORT_SIZE_MB || '10', 10),
+  
+  // Digital Products
+  privateUploadDir: process.env.PRIVATE_UPLOAD_DIR || 'private-uploads',
+  maxDigitalFileSizeMb: parseInt(process.env.MAX_DIGITAL_FILE_SIZE_MB || '50', 10),
+  downloadSigningSecret: process.env.DOWNLOAD_SIGNING_SECRET || process.env.JWT_ACCESS_SECRET || 'default-download-secret',
+  downloadLinkTtlHours: parseInt(process.env.DOWNLOAD_LINK_TTL_HOURS || '72', 10),
+  maxDownloadsPerLink: parseInt(process.env.MAX_DOWNLOADS_PER_LINK || '5', 10),
+  
+  // Background Jobs
+  enableBackgroundJobs: process.env.ENABLE_BACKGROUND_JOBS !== 'false',
+  relatedProductsRefreshMinutes: parseInt(process.env.RELATED_PRODUCTS_REFRESH_MINUTES || '60', 10),
+  anonymousViewRetentionDays: parseInt(process.env.ANONYMOUS_VIEW_RETENTION_DAYS || '30', 10),
+  
+  // Stock Reservations
+  stockReservationMode: process.env.STOCK_RESERVATION_MODE === 'cart' ? 'cart' : 'checkout',
+  stockReservationTtlMinutes: parseInt(process.env.STOCK_RESERVATION_TTL_MINUTES || '15', 10),
+  
+  // Currency
+  baseCurrency: (process.env.BASE_CURRENCY || 'USD').toUpperCase(),
+  
+  // Notifications
+  notificationDriver: process.env.NOTIFICATION_DRIVER || 'console',
+  
+  // Product Questions
+  allowBuyerAnswers: process.env.ALLOW_BUYER_ANSWERS === 'true',
+  
+  // Localization
+  defaultLocale: process.env.DEFAULT_LOCALE || 'en',
+  supportedLocales: (process.env.SUPPORTED_LOCALES || 'en').split(',').map(locale => locale.trim()).filter(Boolean),
+  
   // Payment Simulation
   paymentSuccessRate: parseInt(process.env.PAYMENT_SUCCESS_RATE || '80', 10),
   
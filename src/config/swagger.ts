@@ -426,6 +426,21 @@ const options: swaggerJsdoc.Options = {
               type: 'integer',
               example: 50,
             },
+            availableStock: {
+              type: 'integer',
+              description: 'Stock not reserved for carts in checkout',
+              example: 48,
+            },
+            stockPolicy: {
+              type: 'string',
+              enum: ['STANDARD', 'BACKORDER', 'PREORDER'],
+              example: 'STANDARD',
+            },
+            status: {
+              type: 'string',
+              enum: ['DRAFT', 'SCHEDULED', 'PUBLISHED', 'ARCHIVED'],
+              example: 'PUBLISHED',
+            },
             isActive: {
               type: 'boolean',
               example: true,
@@ -521,6 +536,23 @@ const options: swaggerJsdoc.Options = {
               example: 99.99,
               description: 'Price at time of order',
             },
+            backorderedQuantity: {
+              type: 'integer',
+              example: 0,
+              description: 'Units still waiting for stock; the order cannot ship while any line has some',
+            },
+            expectedShipDate: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'Expected ship date of pre-ordered units',
+            },
+            releasedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'When the last backordered unit was allocated from arriving stock',
+            },
             product: {
               type: 'object',
               properties: {
@@ -647,10 +679,62 @@ const options: swaggerJsdoc.Options = {
         name: 'Products',
         description: 'Product catalog management',
       },
+      {
+        name: 'Product Variants',
+        description: 'Product options, variants (SKUs) and per-variant stock',
+      },
+      {
+        name: 'Bundles',
+        description: 'Gift sets and kits composed of other products',
+      },
+      {
+        name: 'Product Media',
+        description: 'Product images with thumbnails',
+      },
+      {
+        name: 'Digital Products',
+        description: 'Downloadable files, license keys and signed download links',
+      },
+      {
+        name: 'Recommendations',
+        description: 'Related products and personalized recommendations',
+      },
+      {
+        name: 'Currencies',
+        description: 'Exchange rates and per-currency product prices',
+      },
+      {
+        name: 'Translations',
+        description: 'Product and category content in other locales',
+      },
+      {
+        name: 'Categories',
+        description: 'Hierarchical product categories',
+      },
+      {
+        name: 'Attributes',
+        description: 'Typed product attributes used for specifications, filters and facets',
+      },
+      {
+        name: 'Reviews',
+        description: 'Verified-purchase product reviews and moderation',
+      },
+      {
+        name: 'Questions',
+        description: 'Product questions and answers with upvotes and moderation',
+      },
+      {
+        name: 'Stock Notifications',
+        description: 'Back-in-stock notifications for sold-out products',
+      },
       {
         name: 'Cart',
         description: 'Shopping cart operations',
       },
+      {
+        name: 'Wishlists',
+        description: 'Saved product lists with sharing and move-to-cart',
+      },
       {
         name: 'Orders',
         description: 'Order management and processing',
@@ -0,0 +1,306 @@
+import { Request, Response } from 'express';
+import { AttributeService } from '@/services/attribute.service';
+import { ResponseUtils } from '@/utils/response';
+import { AuthenticatedRequest } from '@/types';
+import { asyncHandler } from '@/middlewares/error';
+
+export class AttributeController {
+  private attributeService: AttributeService;
+
+  constructor() {
+    this.attributeService = new AttributeService();
+  }
+
+  /**
+   * @swagger
+   * /attributes:
+   *   post:
+   *     tags:
+   *       - Attributes
+   *     summary: Create an attribute (Admin only)
+   *     description: Define a typed product attribute such as brand, material or screen size. The code is used in listing filters and cannot be changed later.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - code
+   *               - name
+   *               - type
+   *             properties:
+   *               code:
+   *                 type: string
+   *                 pattern: '^[a-z][a-z0-9_]*$'
+   *                 maxLength: 50
+   *                 example: screen_size
+   *               name:
+   *                 type: string
+   *                 minLength: 1
+   *                 maxLength: 100
+   *               type:
+   *                 type: string
+   *                 enum: [TEXT, NUMBER, ENUM, BOOLEAN]
+   *               unit:
+   *                 type: string
+   *                 maxLength: 20
+   *                 example: in
+   *               options:
+   *                 type: array
+   *                 description: Allowed values, required for ENUM attributes only
+   *                 items:
+   *                   type: string
+   *               isFilterable:
+   *                 type: boolean
+   *                 default: true
+   *                 description: Whether listing facets count products per value of the attribute
+   *     responses:
+   *       201:
+   *         description: Attribute created successfully
+   *       403:
+   *         description: Admin access required
+   *       409:
+   *         description: Attribute code already in use
+   */
+  createAttribute = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const attribute = await this.attributeService.createAttribute(req.body);
+
+    ResponseUtils.created(res, attribute, 'Attribute created successfully');
+  });
+
+  /**
+   * @swagger
+   * /attributes:
+   *   get:
+   *     tags:
+   *       - Attributes
+   *     summary: Get attributes
+   *     description: Retrieve all attribute definitions with the number of products that have a value for each
+   *     responses:
+   *       200:
+   *         description: Attributes retrieved successfully
+   */
+  getAttributes = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const attributes = await this.attributeService.getAttributes();
+
+    ResponseUtils.success(res, attributes, 'Attributes retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /attributes/{id}:
+   *   get:
+   *     tags:
+   *       - Attributes
+   *     summary: Get attribute by ID
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Attribute retrieved successfully
+   *       404:
+   *         description: Attribute not found
+   */
+  getAttributeById = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Attribute ID is required');
+    }
+
+    const attribute = await this.attributeService.getAttributeById(id);
+
+    ResponseUtils.success(res, attribute, 'Attribute retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /attributes/{id}:
+   *   put:
+   *     tags:
+   *       - Attributes
+   *     summary: Update attribute (Admin only)
+   *     description: Rename an attribute or change its unit, options or facet visibility. Enum options still used by products cannot be removed.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 minLength: 1
+   *                 maxLength: 100
+   *               unit:
+   *                 type: string
+   *                 maxLength: 20
+   *                 nullable: true
+   *               options:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *               isFilterable:
+   *                 type: boolean
+   *     responses:
+   *       200:
+   *         description: Attribute updated successfully
+   *       400:
+   *         description: Options given for a non-enum attribute
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Attribute not found
+   *       409:
+   *         description: Removed options are still used by products
+   */
+  updateAttribute = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Attribute ID is required');
+    }
+
+    const attribute = await this.attributeService.updateAttribute(id, req.body);
+
+    ResponseUtils.success(res, attribute, 'Attribute updated successfully');
+  });
+
+  /**
+   * @swagger
+   * /attributes/{id}:
+   *   delete:
+   *     tags:
+   *       - Attributes
+   *     summary: Delete attribute (Admin only)
+   *     description: Delete an attribute definition and its values on all products
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Attribute deleted successfully
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Attribute not found
+   */
+  deleteAttribute = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Attribute ID is required');
+    }
+
+    await this.attributeService.deleteAttribute(id);
+
+    ResponseUtils.success(res, null, 'Attribute deleted successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/attributes:
+   *   get:
+   *     tags:
+   *       - Attributes
+   *     summary: Get product attributes
+   *     description: Retrieve the attribute values of a product, with the name, type and unit of each attribute
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Product attributes retrieved successfully
+   *       404:
+   *         description: Product not found
+   */
+  getProductAttributes = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    const includeInactive = user?.role === 'ADMIN';
+    const attributes = await this.attributeService.getProductAttributes(id, includeInactive);
+
+    ResponseUtils.success(res, attributes, 'Product attributes retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/attributes:
+   *   put:
+   *     tags:
+   *       - Attributes
+   *     summary: Set product attributes (Admin only)
+   *     description: |
+   *       Set attribute values of a product, keyed by attribute code. Values must match the attribute type
+   *       (enum values must be one of its options). Attributes not mentioned are left unchanged; null removes a value.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - values
+   *             properties:
+   *               values:
+   *                 type: object
+   *                 additionalProperties: true
+   *                 example: { brand: Acme, weight: 1.4, waterproof: true, color: null }
+   *     responses:
+   *       200:
+   *         description: Product attributes updated successfully
+   *       400:
+   *         description: Unknown attribute or value of the wrong type
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Product not found
+   */
+  setProductAttributes = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    const attributes = await this.attributeService.setProductAttributes(id, req.body);
+
+    ResponseUtils.success(res, attributes, 'Product attributes updated successfully');
+  });
+}
\ No newline at end of file
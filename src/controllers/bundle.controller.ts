@@ -0,0 +1,158 @@
+import { Request, Response } from 'express';
+import { BundleService } from '@/services/bundle.service';
+import { ResponseUtils } from '@/utils/response';
+import { AuthenticatedRequest } from '@/types';
+import { asyncHandler } from '@/middlewares/error';
+
+export class BundleController {
+  private bundleService: BundleService;
+
+  constructor() {
+    this.bundleService = new BundleService();
+  }
+
+  /**
+   * @swagger
+   * /products/{id}/components:
+   *   get:
+   *     tags:
+   *       - Bundles
+   *     summary: Get bundle components
+   *     description: Retrieve the products contained in a bundle with their quantity per bundle. Regular products have no components.
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Bundle components retrieved successfully
+   *       404:
+   *         description: Product not found
+   */
+  getComponents = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    const includeInactive = user?.role === 'ADMIN';
+    const components = await this.bundleService.getBundleComponents(id, includeInactive);
+
+    ResponseUtils.success(res, components, 'Bundle components retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/components:
+   *   put:
+   *     tags:
+   *       - Bundles
+   *     summary: Set bundle components (Admin only)
+   *     description: |
+   *       Turn a product into a bundle of other products, or replace its components. The bundle's stock becomes
+   *       the number of complete sets its components make up and ordering it takes stock from each component.
+   *       With a `discount`, the bundle price is the total of the component prices minus the discount and follows
+   *       component price changes; without one, the bundle keeps its own price.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - components
+   *             properties:
+   *               components:
+   *                 type: array
+   *                 minItems: 1
+   *                 maxItems: 20
+   *                 items:
+   *                   type: object
+   *                   required:
+   *                     - productId
+   *                     - quantity
+   *                   properties:
+   *                     productId:
+   *                       type: string
+   *                     quantity:
+   *                       type: integer
+   *                       minimum: 1
+   *                       maximum: 100
+   *               discount:
+   *                 type: number
+   *                 minimum: 0
+   *                 nullable: true
+   *                 description: Fixed amount off the component total
+   *     responses:
+   *       200:
+   *         description: Bundle components updated successfully
+   *       400:
+   *         description: Nested bundle, product with variants, or discount not below the component total
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Product or component not found
+   */
+  setComponents = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    const components = await this.bundleService.setBundleComponents(id, req.body, user!.id);
+
+    ResponseUtils.success(res, components, 'Bundle components updated successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/components:
+   *   delete:
+   *     tags:
+   *       - Bundles
+   *     summary: Remove bundle components (Admin only)
+   *     description: Turn a bundle back into a regular product. Its stock starts at zero and is managed directly again.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Bundle components removed successfully
+   *       400:
+   *         description: Product is not a bundle
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Product not found
+   */
+  removeComponents = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    await this.bundleService.removeBundleComponents(id);
+
+    ResponseUtils.success(res, null, 'Bundle components removed successfully');
+  });
+}
\ No newline at end of file
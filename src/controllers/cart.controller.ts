@@ -1,14 +1,18 @@
 import { Request, Response } from 'express';
-import { CartService } from '@/services/cart.service';
+import { CartService, CartWithItems } from '@/services/cart.service';
+import { CurrencyService } from '@/services/currency.service';
 import { ResponseUtils } from '@/utils/response';
 import { AuthenticatedRequest } from '@/types';
+import { CurrencyUtils } from '@/utils/currency';
 import { asyncHandler } from '@/middlewares/error';
 
 export class CartController {
   private cartService: CartService;
+  private currencyService: CurrencyService;
 
   constructor() {
     this.cartService = new CartService();
+    this.currencyService = new CurrencyService();
   }
 
   /**
@@ -18,9 +22,18 @@ export class CartController {
    *     tags:
    *       - Cart
    *     summary: Get user's cart
-   *     description: Retrieve user's shopping cart with items and totals
+   *     description: |
+   *       Retrieve user's shopping cart with items and totals. Every endpoint returning the cart
+   *       prices it in the currency requested with the `currency` query parameter or X-Currency header.
    *     security:
    *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: currency
+   *         schema:
+   *           type: string
+   *           example: EUR
+   *         description: Currency to show prices in, also accepted as the X-Currency header. Defaults to the base currency.
    *     responses:
    *       200:
    *         description: Cart retrieved successfully
@@ -31,7 +44,7 @@ export class CartController {
     const { user } = req as AuthenticatedRequest;
     const cart = await this.cartService.getOrCreateCart(user!.id);
     
-    ResponseUtils.success(res, cart, 'Cart retrieved successfully');
+    ResponseUtils.success(res, await this.localizeCart(cart, req), 'Cart retrieved successfully');
   });
 
   /**
@@ -56,6 +69,9 @@ export class CartController {
    *             properties:
    *               productId:
    *                 type: string
+   *               variantId:
+   *                 type: string
+   *                 description: Required for products sold through variants
    *               quantity:
    *                 type: integer
    *                 minimum: 1
@@ -72,7 +88,7 @@ export class CartController {
     const { user } = req as AuthenticatedRequest;
     const cart = await this.cartService.addToCart(user!.id, req.body);
     
-    ResponseUtils.success(res, cart, 'Item added to cart successfully');
+    ResponseUtils.success(res, await this.localizeCart(cart, req), 'Item added to cart successfully');
   });
 
   /**
@@ -96,6 +112,8 @@ export class CartController {
    *             properties:
    *               productId:
    *                 type: string
+   *               variantId:
+   *                 type: string
    *               quantity:
    *                 type: integer
    *                 minimum: 1
@@ -110,7 +128,7 @@ export class CartController {
     const { user } = req as AuthenticatedRequest;
     const cart = await this.cartService.removeFromCart(user!.id, req.body);
     
-    ResponseUtils.success(res, cart, 'Item removed from cart successfully');
+    ResponseUtils.success(res, await this.localizeCart(cart, req), 'Item removed from cart successfully');
   });
 
   /**
@@ -143,6 +161,9 @@ export class CartController {
    *                 minimum: 0
    *                 maximum: 999
    *                 description: New quantity. Set to 0 to remove item.
+   *               variantId:
+   *                 type: string
+   *                 description: Variant of the cart line to update
    *     responses:
    *       200:
    *         description: Cart item updated successfully
@@ -154,15 +175,15 @@ export class CartController {
   updateCartItemQuantity = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { user } = req as AuthenticatedRequest;
     const { productId } = req.params;
-    const { quantity } = req.body;
+    const { quantity, variantId } = req.body;
     
     if (!productId) {
       throw new Error('Product ID is required');
     }
 
-    const cart = await this.cartService.updateCartItemQuantity(user!.id, productId, quantity);
+    const cart = await this.cartService.updateCartItemQuantity(user!.id, productId, quantity, variantId);
     
-    ResponseUtils.success(res, cart, 'Cart item updated successfully');
+    ResponseUtils.success(res, await this.localizeCart(cart, req), 'Cart item updated successfully');
   });
 
   /**
@@ -217,13 +238,21 @@ export class CartController {
    *     description: Get a quick summary of the user's cart (item count, total amount, etc.)
    *     security:
    *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: currency
+   *         schema:
+   *           type: string
+   *           example: EUR
+   *         description: Currency to show prices in, also accepted as the X-Currency header. Defaults to the base currency.
    *     responses:
    *       200:
    *         description: Cart summary retrieved successfully
    */
   getCartSummary = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { user } = req as AuthenticatedRequest;
-    const summary = await this.cartService.getCartSummary(user!.id);
+    const currency = await this.currencyService.resolveCurrency(CurrencyUtils.fromRequest(req));
+    const summary = await this.cartService.getCartSummary(user!.id, currency);
     
     ResponseUtils.success(res, summary, 'Cart summary retrieved successfully');
   });
@@ -249,6 +278,44 @@ export class CartController {
     ResponseUtils.success(res, validation, 'Cart validation completed');
   });
 
+  /**
+   * @swagger
+   * /cart/checkout:
+   *   post:
+   *     tags:
+   *       - Cart
+   *     summary: Begin checkout
+   *     description: |
+   *       Validate the cart and reserve its stock for STOCK_RESERVATION_TTL_MINUTES, so it can't sell out
+   *       to other customers before the order is placed. Calling it again extends the reservation. Units
+   *       that would be backordered are not reserved. Each cart line shows its `reservedQuantity` and
+   *       `reservedUntil`.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: currency
+   *         schema:
+   *           type: string
+   *           example: EUR
+   *         description: Currency to show prices in, also accepted as the X-Currency header. Defaults to the base currency.
+   *     responses:
+   *       200:
+   *         description: Checkout started and stock reserved
+   *       400:
+   *         description: Cart is empty or has unavailable items
+   */
+  beginCheckout = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { cart, reservedUntil } = await this.cartService.beginCheckout(user!.id);
+
+    ResponseUtils.success(
+      res,
+      { cart: await this.localizeCart(cart, req), reservedUntil },
+      'Checkout started and stock reserved'
+    );
+  });
+
   /**
    * @swagger
    * /cart/cleanup:
@@ -267,7 +334,7 @@ export class CartController {
     const { user } = req as AuthenticatedRequest;
     const cart = await this.cartService.cleanupCart(user!.id);
     
-    ResponseUtils.success(res, cart, 'Cart cleaned up successfully');
+    ResponseUtils.success(res, await this.localizeCart(cart, req), 'Cart cleaned up successfully');
   });
 
   /**
@@ -301,4 +368,13 @@ export class CartController {
     
     ResponseUtils.success(res, { inCart }, 'Product check completed');
   });
+
+  /**
+   * Price a cart in the currency requested by the client
+   */
+  private async localizeCart(cart: CartWithItems, req: Request): Promise<CartWithItems> {
+    const currency = await this.currencyService.resolveCurrency(CurrencyUtils.fromRequest(req));
+
+    return this.currencyService.localizeCart(cart, currency);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,119 @@
+import { Request, Response } from 'express';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { CatalogService, CatalogFormat } from '@/services/catalog.service';
+import { ApiError, ResponseUtils } from '@/utils/response';
+import { AuthenticatedRequest } from '@/types';
+import { asyncHandler } from '@/middlewares/error';
+
+const NDJSON_EXTENSIONS = /\.(ndjson|jsonl)$/i;
+
+export class CatalogController {
+  private catalogService: CatalogService;
+
+  constructor() {
+    this.catalogService = new CatalogService();
+  }
+
+  /**
+   * @swagger
+   * /products/admin/import:
+   *   post:
+   *     tags:
+   *       - Products
+   *     summary: Import products from CSV or NDJSON (Admin only)
+   *     description: |
+   *       Create or update products from a file, matching existing products by `sku`.
+   *       Each row is validated like a product creation request; CSV files need a header row
+   *       and separate category IDs with "|". An optional `slug` renames the product's URL, keeping
+   *       the old slug as a redirect. Invalid rows, including CSV lines with the wrong number of
+   *       columns, are skipped and listed in the report, valid rows are applied together. Use
+   *       `dryRun=true` to only validate the file.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: format
+   *         schema:
+   *           type: string
+   *           enum: [csv, ndjson]
+   *         description: File format. Defaults to NDJSON for .ndjson/.jsonl files, otherwise CSV.
+   *       - in: query
+   *         name: dryRun
+   *         schema:
+   *           type: boolean
+   *           default: false
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         multipart/form-data:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - file
+   *             properties:
+   *               file:
+   *                 type: string
+   *                 format: binary
+   *     responses:
+   *       200:
+   *         description: Import report with created, updated and failed row counts and per-row errors
+   *       400:
+   *         description: Missing, empty or unreadable file
+   *       403:
+   *         description: Admin access required
+   */
+  importProducts = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const file = req.file;
+
+    if (!file) {
+      throw ApiError.badRequest('Import file is required');
+    }
+
+    const { format, dryRun } = req.query;
+    const fileFormat: CatalogFormat = (format as CatalogFormat | undefined)
+      ?? (NDJSON_EXTENSIONS.test(file.originalname) || file.mimetype === 'application/x-ndjson' ? 'ndjson' : 'csv');
+
+    const { user } = req as AuthenticatedRequest;
+    const report = await this.catalogService.importProducts(file.buffer, fileFormat, Boolean(dryRun), user!.id);
+
+    ResponseUtils.success(
+      res,
+      report,
+      report.dryRun ? 'Import validated successfully' : 'Products imported successfully'
+    );
+  });
+
+  /**
+   * @swagger
+   * /products/admin/export:
+   *   get:
+   *     tags:
+   *       - Products
+   *     summary: Export the product catalog (Admin only)
+   *     description: Stream every product, including inactive ones, as CSV or NDJSON. The file can be edited and imported again.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: format
+   *         schema:
+   *           type: string
+   *           enum: [csv, ndjson]
+   *           default: csv
+   *     responses:
+   *       200:
+   *         description: Product catalog file
+   *       403:
+   *         description: Admin access required
+   */
+  exportProducts = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const format = (req.query.format as CatalogFormat | undefined) ?? 'csv';
+    const date = new Date().toISOString().slice(0, 10);
+
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson');
+    res.setHeader('Content-Disposition', `attachment; filename="products-${date}.${format}"`);
+
+    await pipeline(Readable.from(this.catalogService.exportProducts(format)), res);
+  });
+}
\ No newline at end of file
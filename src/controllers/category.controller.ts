@@ -0,0 +1,259 @@
+import { Request, Response } from 'express';
+import { CategoryService } from '@/services/category.service';
+import { ResponseUtils } from '@/utils/response';
+import { LocaleUtils } from '@/utils/locale';
+import { asyncHandler } from '@/middlewares/error';
+
+export class CategoryController {
+  private categoryService: CategoryService;
+
+  constructor() {
+    this.categoryService = new CategoryService();
+  }
+
+  /**
+   * @swagger
+   * /categories:
+   *   post:
+   *     tags:
+   *       - Categories
+   *     summary: Create a new category (Admin only)
+   *     description: Create a top-level category or a subcategory of an existing one
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - name
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 minLength: 1
+   *                 maxLength: 100
+   *               description:
+   *                 type: string
+   *                 maxLength: 500
+   *               parentId:
+   *                 type: string
+   *                 nullable: true
+   *     responses:
+   *       201:
+   *         description: Category created successfully
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Parent category not found
+   *       409:
+   *         description: Category name already used at this level
+   */
+  createCategory = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const category = await this.categoryService.createCategory(req.body);
+
+    ResponseUtils.created(res, category, 'Category created successfully');
+  });
+
+  /**
+   * @swagger
+   * /categories:
+   *   get:
+   *     tags:
+   *       - Categories
+   *     summary: Get categories
+   *     description: Retrieve categories as a flat list. Pass parentId to list the children of a category, or "root" for top-level categories.
+   *     parameters:
+   *       - in: query
+   *         name: parentId
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: locale
+   *         schema:
+   *           type: string
+   *           example: de
+   *         description: Locale to show names in; defaults to the Accept-Language header, then the default locale
+   *     responses:
+   *       200:
+   *         description: Categories retrieved successfully
+   */
+  getCategories = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { parentId } = req.query;
+
+    let parentFilter: string | null | undefined;
+    if (parentId === 'root') {
+      parentFilter = null;
+    } else if (parentId) {
+      parentFilter = parentId as string;
+    }
+
+    const locale = LocaleUtils.fromRequest(req);
+    const categories = await this.categoryService.getCategories(parentFilter, locale);
+
+    res.setHeader('Content-Language', locale);
+    ResponseUtils.success(res, categories, 'Categories retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /categories/tree:
+   *   get:
+   *     tags:
+   *       - Categories
+   *     summary: Get category tree
+   *     description: Retrieve the full category hierarchy as a nested tree for building navigation menus
+   *     parameters:
+   *       - in: query
+   *         name: locale
+   *         schema:
+   *           type: string
+   *           example: de
+   *         description: Locale to show names in; defaults to the Accept-Language header, then the default locale
+   *     responses:
+   *       200:
+   *         description: Category tree retrieved successfully
+   */
+  getCategoryTree = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const locale = LocaleUtils.fromRequest(req);
+    const tree = await this.categoryService.getCategoryTree(locale);
+
+    res.setHeader('Content-Language', locale);
+
+    ResponseUtils.success(res, tree, 'Category tree retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /categories/{id}:
+   *   get:
+   *     tags:
+   *       - Categories
+   *     summary: Get category by ID
+   *     description: Retrieve a category with its parent and direct subcategories
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: locale
+   *         schema:
+   *           type: string
+   *           example: de
+   *         description: Locale to show names in; defaults to the Accept-Language header, then the default locale
+   *     responses:
+   *       200:
+   *         description: Category retrieved successfully
+   *       404:
+   *         description: Category not found
+   */
+  getCategoryById = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Category ID is required');
+    }
+
+    const locale = LocaleUtils.fromRequest(req);
+    const category = await this.categoryService.getCategoryById(id, locale);
+
+    res.setHeader('Content-Language', locale);
+    ResponseUtils.success(res, category, 'Category retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /categories/{id}:
+   *   put:
+   *     tags:
+   *       - Categories
+   *     summary: Update category (Admin only)
+   *     description: Rename a category or move it under a different parent
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 minLength: 1
+   *                 maxLength: 100
+   *               description:
+   *                 type: string
+   *                 maxLength: 500
+   *               parentId:
+   *                 type: string
+   *                 nullable: true
+   *     responses:
+   *       200:
+   *         description: Category updated successfully
+   *       400:
+   *         description: Move would create a cycle
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Category not found
+   */
+  updateCategory = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Category ID is required');
+    }
+
+    const category = await this.categoryService.updateCategory(id, req.body);
+
+    ResponseUtils.success(res, category, 'Category updated successfully');
+  });
+
+  /**
+   * @swagger
+   * /categories/{id}:
+   *   delete:
+   *     tags:
+   *       - Categories
+   *     summary: Delete category (Admin only)
+   *     description: Delete a category without subcategories. Products are unlinked but not deleted.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Category deleted successfully
+   *       400:
+   *         description: Category still has subcategories
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Category not found
+   */
+  deleteCategory = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Category ID is required');
+    }
+
+    await this.categoryService.deleteCategory(id);
+
+    ResponseUtils.success(res, null, 'Category deleted successfully');
+  });
+}
\ No newline at end of file
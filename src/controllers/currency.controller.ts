@@ -0,0 +1,254 @@
+import { Request, Response } from 'express';
+import { CurrencyService } from '@/services/currency.service';
+import { ResponseUtils } from '@/utils/response';
+import { asyncHandler } from '@/middlewares/error';
+
+export class CurrencyController {
+  private currencyService: CurrencyService;
+
+  constructor() {
+    this.currencyService = new CurrencyService();
+  }
+
+  /**
+   * @swagger
+   * /currencies:
+   *   get:
+   *     tags:
+   *       - Currencies
+   *     summary: Get supported currencies
+   *     description: |
+   *       The store's base currency and the exchange rates of the other currencies prices can be shown and charged in.
+   *       A rate is the amount of the currency per unit of the base currency.
+   *     responses:
+   *       200:
+   *         description: Currencies retrieved successfully
+   */
+  getCurrencies = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const currencies = await this.currencyService.getCurrencies();
+
+    ResponseUtils.success(res, currencies, 'Currencies retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /currencies/{code}:
+   *   put:
+   *     tags:
+   *       - Currencies
+   *     summary: Set an exchange rate (Admin only)
+   *     description: Add a currency or update its rate. Placed orders keep the rate they were charged at.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: code
+   *         required: true
+   *         schema:
+   *           type: string
+   *           example: EUR
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - rate
+   *             properties:
+   *               rate:
+   *                 type: number
+   *                 example: 0.92
+   *                 description: Amount of the currency per unit of the base currency
+   *     responses:
+   *       200:
+   *         description: Exchange rate saved successfully
+   *       400:
+   *         description: The base currency has no exchange rate
+   *       403:
+   *         description: Admin access required
+   */
+  setExchangeRate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { code } = req.params;
+
+    if (!code) {
+      throw new Error('Currency code is required');
+    }
+
+    const exchangeRate = await this.currencyService.setExchangeRate(code, req.body.rate);
+
+    ResponseUtils.success(res, exchangeRate, 'Exchange rate saved successfully');
+  });
+
+  /**
+   * @swagger
+   * /currencies/{code}:
+   *   delete:
+   *     tags:
+   *       - Currencies
+   *     summary: Remove a currency (Admin only)
+   *     description: Stop offering a currency, together with its product price overrides
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: code
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Currency removed successfully
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Currency not found
+   */
+  deleteExchangeRate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { code } = req.params;
+
+    if (!code) {
+      throw new Error('Currency code is required');
+    }
+
+    await this.currencyService.deleteExchangeRate(code);
+
+    ResponseUtils.success(res, null, 'Currency removed successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/prices:
+   *   get:
+   *     tags:
+   *       - Currencies
+   *     summary: Get the currency price overrides of a product (Admin only)
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Product prices retrieved successfully
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Product not found
+   */
+  getProductPrices = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    const prices = await this.currencyService.getProductPrices(id);
+
+    ResponseUtils.success(res, prices, 'Product prices retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/prices/{currency}:
+   *   put:
+   *     tags:
+   *       - Currencies
+   *     summary: Set the price of a product in a currency (Admin only)
+   *     description: |
+   *       Use a fixed price in a currency instead of converting the base price. The sale price only applies
+   *       while the product's sale is running. Variant prices are always converted.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: currency
+   *         required: true
+   *         schema:
+   *           type: string
+   *           example: EUR
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - price
+   *             properties:
+   *               price:
+   *                 type: number
+   *               salePrice:
+   *                 type: number
+   *                 nullable: true
+   *     responses:
+   *       200:
+   *         description: Product price saved successfully
+   *       400:
+   *         description: Unsupported or base currency, or sale price not below the price
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Product not found
+   */
+  setProductPrice = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id, currency } = req.params;
+
+    if (!id || !currency) {
+      throw new Error('Product ID and currency are required');
+    }
+
+    const price = await this.currencyService.setProductPrice(id, currency, req.body);
+
+    ResponseUtils.success(res, price, 'Product price saved successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/prices/{currency}:
+   *   delete:
+   *     tags:
+   *       - Currencies
+   *     summary: Remove the price of a product in a currency (Admin only)
+   *     description: The product's price in the currency is converted from the base price again
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: currency
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Product price removed successfully
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Product price not found
+   */
+  deleteProductPrice = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id, currency } = req.params;
+
+    if (!id || !currency) {
+      throw new Error('Product ID and currency are required');
+    }
+
+    await this.currencyService.deleteProductPrice(id, currency);
+
+    ResponseUtils.success(res, null, 'Product price removed successfully');
+  });
+}
\ No newline at end of file
@@ -0,0 +1,316 @@
+import { Request, Response } from 'express';
+import { DigitalService } from '@/services/digital.service';
+import { ResponseUtils } from '@/utils/response';
+import { AuthenticatedRequest } from '@/types';
+import { asyncHandler } from '@/middlewares/error';
+
+export class DigitalController {
+  private digitalService: DigitalService;
+
+  constructor() {
+    this.digitalService = new DigitalService();
+  }
+
+  /**
+   * @swagger
+   * /products/{id}/digital:
+   *   get:
+   *     tags:
+   *       - Digital Products
+   *     summary: Get the digital assets of a product (Admin only)
+   *     description: Retrieve the product type, its downloadable file and the size of its license key pool
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Digital assets retrieved successfully
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Product not found
+   */
+  getDigitalAssets = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    const assets = await this.digitalService.getDigitalAssets(id);
+
+    ResponseUtils.success(res, assets, 'Digital assets retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/digital/file:
+   *   put:
+   *     tags:
+   *       - Digital Products
+   *     summary: Upload the file of a downloadable product (Admin only)
+   *     description: |
+   *       Attach the file delivered to buyers of a DOWNLOAD product, replacing any previous file.
+   *       Files are kept in private storage and only served through signed download links.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         multipart/form-data:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - file
+   *             properties:
+   *               file:
+   *                 type: string
+   *                 format: binary
+   *     responses:
+   *       200:
+   *         description: Product file uploaded successfully
+   *       400:
+   *         description: Missing file or product is not a DOWNLOAD product
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Product not found
+   */
+  uploadFile = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    const file = await this.digitalService.uploadDigitalFile(id, req.file);
+
+    ResponseUtils.success(res, file, 'Product file uploaded successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/digital/file:
+   *   delete:
+   *     tags:
+   *       - Digital Products
+   *     summary: Delete the file of a downloadable product (Admin only)
+   *     description: Remove the product's file; the product can't be checked out until a new file is uploaded
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Product file deleted successfully
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Product or file not found
+   */
+  deleteFile = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    await this.digitalService.deleteDigitalFile(id);
+
+    ResponseUtils.success(res, null, 'Product file deleted successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/license-keys:
+   *   post:
+   *     tags:
+   *       - Digital Products
+   *     summary: Add license keys (Admin only)
+   *     description: Add keys to the pool of a LICENSE_KEY product. Keys already in the pool are skipped. The product's stock follows the number of unassigned keys.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - keys
+   *             properties:
+   *               keys:
+   *                 type: array
+   *                 minItems: 1
+   *                 maxItems: 1000
+   *                 items:
+   *                   type: string
+   *                   maxLength: 200
+   *     responses:
+   *       201:
+   *         description: License keys added successfully
+   *       400:
+   *         description: Product is not a LICENSE_KEY product
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Product not found
+   */
+  addLicenseKeys = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    const result = await this.digitalService.addLicenseKeys(id, req.body);
+
+    ResponseUtils.created(res, result, 'License keys added successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/license-keys:
+   *   delete:
+   *     tags:
+   *       - Digital Products
+   *     summary: Remove unassigned license keys (Admin only)
+   *     description: Empty the pool of a LICENSE_KEY product; keys already sold stay with their orders
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: License keys removed successfully
+   *       400:
+   *         description: Product is not a LICENSE_KEY product
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Product not found
+   */
+  removeLicenseKeys = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    const result = await this.digitalService.removeUnassignedLicenseKeys(id);
+
+    ResponseUtils.success(res, result, 'License keys removed successfully');
+  });
+
+  /**
+   * @swagger
+   * /orders/{id}/downloads:
+   *   get:
+   *     tags:
+   *       - Digital Products
+   *     summary: Get the downloads of an order
+   *     description: |
+   *       Retrieve the digital lines of an order with their license keys and signed download links.
+   *       Links expire and allow a limited number of downloads.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Order downloads retrieved successfully
+   *       404:
+   *         description: Order not found
+   */
+  getOrderDownloads = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Order ID is required');
+    }
+
+    // Admin can see any order, customers can only see their own
+    const userId = user!.role === 'ADMIN' ? undefined : user!.id;
+    const downloads = await this.digitalService.getOrderDownloads(id, userId);
+
+    ResponseUtils.success(res, downloads, 'Order downloads retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /downloads/{id}:
+   *   get:
+   *     tags:
+   *       - Digital Products
+   *     summary: Download a purchased file
+   *     description: Serve the file behind a signed download link. The link itself is the credential; each request counts towards its download limit.
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: expires
+   *         required: true
+   *         schema:
+   *           type: integer
+   *       - in: query
+   *         name: signature
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: The file
+   *       403:
+   *         description: Invalid signature, expired link or download limit reached
+   *       404:
+   *         description: Download link not found
+   */
+  download = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { expires, signature } = req.query;
+
+    if (!id) {
+      throw new Error('Download link ID is required');
+    }
+
+    const file = await this.digitalService.download(id, String(expires), String(signature));
+
+    res.attachment(file.fileName);
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.send(file.data);
+  });
+}
\ No newline at end of file
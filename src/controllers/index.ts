@@ -1,4 +1,18 @@
 export * from './auth.controller';
 export * from './product.controller';
+export * from './category.controller';
+export * from './attribute.controller';
+export * from './variant.controller';
+export * from './bundle.controller';
+export * from './recommendation.controller';
+export * from './digital.controller';
+export * from './currency.controller';
+export * from './translation.controller';
+export * from './media.controller';
+export * from './review.controller';
+export * from './question.controller';
+export * from './restock.controller';
+export * from './catalog.controller';
 export * from './cart.controller';
+export * from './wishlist.controller';
 export * from './order.controller';
\ No newline at end of file
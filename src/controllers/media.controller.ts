@@ -0,0 +1,249 @@
+import { Request, Response } from 'express';
+import { MediaService } from '@/services/media.service';
+import { ResponseUtils } from '@/utils/response';
+import { asyncHandler } from '@/middlewares/error';
+
+export class MediaController {
+  private mediaService: MediaService;
+
+  constructor() {
+    this.mediaService = new MediaService();
+  }
+
+  /**
+   * @swagger
+   * /products/{id}/media:
+   *   get:
+   *     tags:
+   *       - Product Media
+   *     summary: Get product media
+   *     description: Retrieve a product's images in display order, with original and thumbnail URLs
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Product media retrieved successfully
+   *       404:
+   *         description: Product not found
+   */
+  getProductMedia = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    const media = await this.mediaService.getProductMedia(id);
+
+    ResponseUtils.success(res, media, 'Product media retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/media:
+   *   post:
+   *     tags:
+   *       - Product Media
+   *     summary: Upload product images (Admin only)
+   *     description: Upload up to 10 images (JPEG, PNG, WebP or GIF). A thumbnail is generated for each image.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         multipart/form-data:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - images
+   *             properties:
+   *               images:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *                   format: binary
+   *               altText:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *                 description: Alt text for each image, in upload order
+   *     responses:
+   *       201:
+   *         description: Product images uploaded successfully
+   *       400:
+   *         description: Invalid or oversized image
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Product not found
+   */
+  uploadProductMedia = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+    const { altText } = req.body;
+    const altTexts = Array.isArray(altText) ? altText : files.map(() => altText);
+
+    const media = await this.mediaService.uploadProductMedia(id, files, altTexts);
+
+    ResponseUtils.created(res, media, 'Product images uploaded successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/media/{mediaId}:
+   *   patch:
+   *     tags:
+   *       - Product Media
+   *     summary: Update product image (Admin only)
+   *     description: Update the alt text of a product image
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: mediaId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - altText
+   *             properties:
+   *               altText:
+   *                 type: string
+   *                 nullable: true
+   *                 maxLength: 255
+   *     responses:
+   *       200:
+   *         description: Product image updated successfully
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Product media not found
+   */
+  updateMedia = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id, mediaId } = req.params;
+
+    if (!id || !mediaId) {
+      throw new Error('Product ID and media ID are required');
+    }
+
+    const media = await this.mediaService.updateMedia(id, mediaId, req.body);
+
+    ResponseUtils.success(res, media, 'Product image updated successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/media/order:
+   *   put:
+   *     tags:
+   *       - Product Media
+   *     summary: Reorder product images (Admin only)
+   *     description: Set the display order of a product's images. Images not listed keep their relative order after the listed ones.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - mediaIds
+   *             properties:
+   *               mediaIds:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *     responses:
+   *       200:
+   *         description: Product images reordered successfully
+   *       400:
+   *         description: Unknown media ID
+   *       403:
+   *         description: Admin access required
+   */
+  reorderMedia = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    const media = await this.mediaService.reorderMedia(id, req.body.mediaIds);
+
+    ResponseUtils.success(res, media, 'Product images reordered successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/media/{mediaId}:
+   *   delete:
+   *     tags:
+   *       - Product Media
+   *     summary: Delete product image (Admin only)
+   *     description: Delete a product image and its thumbnail from storage
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: mediaId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Product image deleted successfully
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Product media not found
+   */
+  deleteMedia = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id, mediaId } = req.params;
+
+    if (!id || !mediaId) {
+      throw new Error('Product ID and media ID are required');
+    }
+
+    await this.mediaService.deleteMedia(id, mediaId);
+
+    ResponseUtils.success(res, null, 'Product image deleted successfully');
+  });
+}
\ No newline at end of file
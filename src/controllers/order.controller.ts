@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { OrderService } from '@/services/order.service';
 import { ResponseUtils } from '@/utils/response';
 import { AuthenticatedRequest } from '@/types';
+import { CurrencyUtils } from '@/utils/currency';
 import { asyncHandler } from '@/middlewares/error';
 
 export class OrderController {
@@ -18,9 +19,19 @@ export class OrderController {
    *     tags:
    *       - Orders
    *     summary: Create a new order
-   *     description: Create a new order from the current cart items
+   *     description: |
+   *       Create a new order from the current cart items, charged in the requested currency.
+   *       The order records the currency, the exchange rate and the charged amount; `totalAmount`
+   *       and item prices stay in the base currency.
    *     security:
    *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: currency
+   *         schema:
+   *           type: string
+   *           example: EUR
+   *         description: Currency to charge in, also accepted as the X-Currency header. Defaults to the base currency.
    *     requestBody:
    *       required: true
    *       content:
@@ -36,13 +47,13 @@ export class OrderController {
    *       201:
    *         description: Order created successfully
    *       400:
-   *         description: Cart validation failed or payment failed
+   *         description: Cart validation failed, payment failed or unsupported currency
    *       422:
    *         description: Invalid order data
    */
   createOrder = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { user } = req as AuthenticatedRequest;
-    const order = await this.orderService.createOrder(user!.id, req.body);
+    const order = await this.orderService.createOrder(user!.id, req.body, CurrencyUtils.fromRequest(req));
     
     ResponseUtils.created(res, order, 'Order created successfully');
   });
@@ -72,26 +83,37 @@ export class OrderController {
    *           maximum: 100
    *           default: 10
    *       - in: query
+   *         name: cursor
+   *         schema:
+   *           type: string
+   *         description: Cursor pagination for customers. Pass an empty value for the first page, then the `nextCursor` or `prevCursor` of the previous response. The response has no total count. Admins always get offset pagination.
+   *       - in: query
    *         name: status
    *         schema:
    *           type: string
    *           enum: [PENDING, SHIPPED, DELIVERED, CANCELLED]
    *         description: Filter by order status (admin only)
+   *       - in: query
+   *         name: sort
+   *         schema:
+   *           type: string
+   *           example: -totalAmount,createdAt
+   *         description: Comma-separated sort keys (createdAt, totalAmount, status). Prefix a key with "-" for descending order. Defaults to newest first.
    *     responses:
    *       200:
    *         description: Orders retrieved successfully
    */
   getOrders = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { user } = req as AuthenticatedRequest;
-    const { page, limit, status } = req.query;
+    const { page, limit, status, sort, cursor } = req.query;
 
-    const pagination = { page: Number(page), limit: Number(limit) };
+    const pagination = { page: Number(page), limit: Number(limit), cursor: cursor as string | undefined };
 
     let orders;
     if (user!.role === 'ADMIN') {
-      orders = await this.orderService.getAllOrders(pagination, status as any);
+      orders = await this.orderService.getAllOrders(pagination, status as any, sort as string | undefined);
     } else {
-      orders = await this.orderService.getUserOrders(user!.id, pagination);
+      orders = await this.orderService.getUserOrders(user!.id, pagination, sort as string | undefined);
     }
     
     ResponseUtils.success(res, orders, 'Orders retrieved successfully');
@@ -168,7 +190,7 @@ export class OrderController {
    *       200:
    *         description: Order status updated successfully
    *       400:
-   *         description: Invalid status transition
+   *         description: Invalid status transition, or shipping an order with backordered items
    *       403:
    *         description: Admin access required
    *       404:
@@ -1,14 +1,27 @@
 import { Request, Response } from 'express';
+import { PublicationStatus } from '@prisma/client';
 import { ProductService } from '@/services/product.service';
+import { ViewService, Viewer } from '@/services/view.service';
+import { CurrencyService } from '@/services/currency.service';
+import { QuestionService } from '@/services/question.service';
 import { ResponseUtils } from '@/utils/response';
 import { AuthenticatedRequest } from '@/types';
+import { CurrencyUtils } from '@/utils/currency';
+import { LocaleUtils } from '@/utils/locale';
+import { AttributeFilterInput, viewerSessionIdSchema } from '@/utils/validation';
 import { asyncHandler } from '@/middlewares/error';
 
 export class ProductController {
   private productService: ProductService;
+  private viewService: ViewService;
+  private currencyService: CurrencyService;
+  private questionService: QuestionService;
 
   constructor() {
     this.productService = new ProductService();
+    this.viewService = new ViewService();
+    this.currencyService = new CurrencyService();
+    this.questionService = new QuestionService();
   }
 
   /**
@@ -32,6 +45,14 @@ export class ProductController {
    *               - price
    *               - stock
    *             properties:
+   *               sku:
+   *                 type: string
+   *                 maxLength: 64
+   *                 description: External SKU, used to match products in catalog imports
+   *               slug:
+   *                 type: string
+   *                 maxLength: 120
+   *                 description: URL slug. Generated from the name when omitted.
    *               name:
    *                 type: string
    *                 minLength: 1
@@ -43,19 +64,75 @@ export class ProductController {
    *                 type: number
    *                 minimum: 0.01
    *                 maximum: 999999.99
+   *               salePrice:
+   *                 type: number
+   *                 nullable: true
+   *                 description: Sale price, lower than the regular price. Null removes the sale and its schedule.
+   *               saleStartsAt:
+   *                 type: string
+   *                 format: date-time
+   *                 nullable: true
+   *                 description: When the sale starts. Starts immediately when omitted.
+   *               saleEndsAt:
+   *                 type: string
+   *                 format: date-time
+   *                 nullable: true
+   *                 description: When the sale ends. Runs until removed when omitted.
    *               stock:
    *                 type: integer
    *                 minimum: 0
+   *                 description: Not tracked for DOWNLOAD products; LICENSE_KEY products start at 0 and follow their key pool
+   *               type:
+   *                 type: string
+   *                 enum: [PHYSICAL, DOWNLOAD, LICENSE_KEY]
+   *                 default: PHYSICAL
+   *                 description: Digital products skip stock checks and are delivered at checkout
+   *               stockPolicy:
+   *                 type: string
+   *                 enum: [STANDARD, BACKORDER, PREORDER]
+   *                 description: BACKORDER and PREORDER accept orders beyond stock for plain physical products; those units ship once stock arrives
+   *               backorderLimit:
+   *                 type: integer
+   *                 minimum: 1
+   *                 nullable: true
+   *                 description: Units that may be owed to customers beyond stock at any time. Unlimited when omitted.
+   *               preorderShipDate:
+   *                 type: string
+   *                 format: date-time
+   *                 nullable: true
+   *                 description: Expected ship date, required for PREORDER products
+   *               status:
+   *                 type: string
+   *                 enum: [DRAFT, SCHEDULED, PUBLISHED, ARCHIVED]
+   *                 description: Only PUBLISHED products, and SCHEDULED ones once their publishAt has passed, are shown in the storefront. Defaults to PUBLISHED.
+   *               publishAt:
+   *                 type: string
+   *                 format: date-time
+   *                 nullable: true
+   *                 description: When a SCHEDULED product goes live. Required for SCHEDULED products.
+   *               unpublishAt:
+   *                 type: string
+   *                 format: date-time
+   *                 nullable: true
+   *                 description: When the product is taken off the storefront and archived
+   *               categoryIds:
+   *                 type: array
+   *                 maxItems: 20
+   *                 items:
+   *                   type: string
    *     responses:
    *       201:
    *         description: Product created successfully
+   *       400:
+   *         description: Sale price not below the regular price, or sale ends before it starts
    *       403:
    *         description: Admin access required
    *       422:
    *         description: Validation error
    */
   createProduct = asyncHandler(async (req: Request, res: Response): Promise<void> => {
-    const product = await this.productService.createProduct(req.body);
+    const { user } = req as AuthenticatedRequest;
+    const product = await this.productService.createProduct(req.body, user!.id);
     
     ResponseUtils.created(res, product, 'Product created successfully');
   });
@@ -83,10 +160,16 @@ export class ProductController {
    *           maximum: 100
    *           default: 10
    *       - in: query
+   *         name: cursor
+   *         schema:
+   *           type: string
+   *         description: Cursor pagination for the storefront. Pass an empty value for the first page, then the `nextCursor` or `prevCursor` of the previous response. The response has no total count. Admins always get offset pagination.
+   *       - in: query
    *         name: search
    *         schema:
    *           type: string
    *           maxLength: 200
+   *         description: Full-text search over name and description. Matches word prefixes and tolerates typos in the name. Results are ordered by relevance and include `searchRank` and `highlights` (matches wrapped in `<mark>` tags). Translated products are searched in the requested locale. Only the 1000 best matches are listed; `searchTruncated` is true in the response when there were more.
    *       - in: query
    *         name: minPrice
    *         schema:
@@ -101,32 +184,138 @@ export class ProductController {
    *         name: inStock
    *         schema:
    *           type: boolean
+   *       - in: query
+   *         name: categoryId
+   *         schema:
+   *           type: string
+   *         description: Only return products in this category or any of its subcategories
+   *       - in: query
+   *         name: sort
+   *         schema:
+   *           type: string
+   *           example: -popularity,price
+   *         description: Comma-separated sort keys (price, name, stock, createdAt, popularity, rating). Prefix a key with "-" for descending order. Price is the effective price, so running sales count. Popularity is the number of units sold, rating the average approved review rating. Defaults to relevance when searching, otherwise newest first.
+   *       - in: query
+   *         name: facets
+   *         schema:
+   *           type: boolean
+   *         description: Include a `facets` block with product counts per price bucket, availability, category and filterable enum/boolean attribute value, plus value ranges of number attributes, computed against the same filters
+   *       - in: query
+   *         name: attr
+   *         style: deepObject
+   *         explode: true
+   *         schema:
+   *           type: object
+   *           additionalProperties: true
+   *         description: |
+   *           Filter by product attributes, keyed by attribute code. Repeat a key to match any of several values.
+   *           Number attributes also accept eq, gt, gte, lt and lte operators. Text and enum values match case-insensitively.
+   *           Example: `attr[brand]=acme&attr[weight][lte]=2`
+   *       - in: query
+   *         name: currency
+   *         schema:
+   *           type: string
+   *           example: EUR
+   *         description: Currency to show prices in, also accepted as the X-Currency header. Defaults to the base currency. Price filters and facets always use the base currency.
+   *       - in: query
+   *         name: locale
+   *         schema:
+   *           type: string
+   *           example: de
+   *         description: Locale to show content in. Without it, the Accept-Language header is used; unsupported or untranslated locales fall back to the default locale.
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [DRAFT, SCHEDULED, PUBLISHED, ARCHIVED]
+   *         description: Filter by publication status (admins only; the storefront only lists live products)
    *     responses:
    *       200:
    *         description: Products retrieved successfully
    */
   getProducts = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { user } = req as AuthenticatedRequest;
-    const { page, limit, search, minPrice, maxPrice, inStock } = req.query;
+    const { page, limit, search, minPrice, maxPrice, inStock, categoryId, facets, sort, cursor, attr, status } = req.query;
 
-    const pagination = { page: Number(page) || 1, limit: Number(limit) || 10 };
+    const pagination = { page: Number(page) || 1, limit: Number(limit) || 10, cursor: cursor as string | undefined };
     const filters = { 
       search: search as string, 
       minPrice: minPrice ? Number(minPrice) : undefined, 
       maxPrice: maxPrice ? Number(maxPrice) : undefined, 
-      inStock: inStock ? inStock === 'true' : undefined 
+      inStock: inStock === undefined ? undefined : Boolean(inStock),
+      categoryId: categoryId as string | undefined,
+      facets: Boolean(facets),
+      sort: sort as string | undefined,
+      attr: attr as AttributeFilterInput | undefined,
+      locale: LocaleUtils.fromRequest(req),
+      status: status as PublicationStatus | undefined,
     };
 
+    const currency = await this.currencyService.resolveCurrency(CurrencyUtils.fromRequest(req));
+
     let result;
     if (user?.role === 'ADMIN') {
       result = await this.productService.getProductsForAdmin(pagination, filters);
     } else {
       result = await this.productService.getProducts(pagination, filters);
     }
-    
+
+    result = { ...result, data: await this.currencyService.localizeProducts(result.data, currency) };
+
+    res.setHeader('Content-Language', filters.locale);
     ResponseUtils.success(res, result, 'Products retrieved successfully');
   });
 
+  /**
+   * @swagger
+   * /products/recently-viewed:
+   *   get:
+   *     tags:
+   *       - Products
+   *     summary: Get recently viewed products
+   *     description: |
+   *       Active products the viewer opened most recently, without duplicates. Signed-in users get their history
+   *       across devices; anonymous visitors are identified by the X-Session-Id header. A signed-in user sending
+   *       their former session ID takes over that session's history.
+   *     parameters:
+   *       - in: header
+   *         name: X-Session-Id
+   *         schema:
+   *           type: string
+   *           pattern: '^[A-Za-z0-9_-]{16,128}$'
+   *         description: Anonymous session ID generated by the storefront
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 50
+   *           default: 20
+   *       - in: query
+   *         name: currency
+   *         schema:
+   *           type: string
+   *           example: EUR
+   *         description: Currency to show prices in, also accepted as the X-Currency header. Defaults to the base currency.
+   *     responses:
+   *       200:
+   *         description: Recently viewed products retrieved successfully
+   *       400:
+   *         description: Neither signed in nor a valid session ID
+   */
+  getRecentlyViewed = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { limit } = req.query;
+
+    const currency = await this.currencyService.resolveCurrency(CurrencyUtils.fromRequest(req));
+    const products = await this.viewService.getRecentlyViewed(this.getViewer(req), Number(limit) || 20);
+
+    ResponseUtils.success(
+      res,
+      await this.currencyService.localizeProducts(products, currency),
+      'Recently viewed products retrieved successfully'
+    );
+  });
+
   /**
    * @swagger
    * /products/{id}:
@@ -134,13 +323,44 @@ export class ProductController {
    *     tags:
    *       - Products
    *     summary: Get product by ID
-   *     description: Retrieve a specific product by its ID
+   *     description: Retrieve a specific product by its ID, with a page of its published questions and answers. Views are added to the recently viewed history of the signed-in user or X-Session-Id.
    *     parameters:
    *       - in: path
    *         name: id
    *         required: true
    *         schema:
    *           type: string
+   *       - in: header
+   *         name: X-Session-Id
+   *         schema:
+   *           type: string
+   *         description: Anonymous session ID used to track recently viewed products
+   *       - in: query
+   *         name: locale
+   *         schema:
+   *           type: string
+   *           example: de
+   *         description: Locale to show content in. Without it, the Accept-Language header is used; unsupported or untranslated locales fall back to the default locale.
+   *       - in: query
+   *         name: currency
+   *         schema:
+   *           type: string
+   *           example: EUR
+   *         description: Currency to show prices in, also accepted as the X-Currency header. Defaults to the base currency.
+   *       - in: query
+   *         name: questionsPage
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           default: 1
+   *         description: Page of the published questions included in the response
+   *       - in: query
+   *         name: questionsLimit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 50
+   *           default: 5
    *     responses:
    *       200:
    *         description: Product retrieved successfully
@@ -156,9 +376,95 @@ export class ProductController {
     }
     
     const includeInactive = user?.role === 'ADMIN';
-    const product = await this.productService.getProductById(id, includeInactive);
+    const locale = LocaleUtils.fromRequest(req);
+    const currency = await this.currencyService.resolveCurrency(CurrencyUtils.fromRequest(req));
+    const product = await this.productService.getProductById(id, includeInactive, locale);
+
+    this.trackView(product.id, req);
+
+    res.setHeader('Content-Language', locale);
     
-    ResponseUtils.success(res, product, 'Product retrieved successfully');
+    const localized = await this.currencyService.localizeProduct(product, currency);
+
+    ResponseUtils.success(res, await this.withQuestions(localized, req), 'Product retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/by-slug/{slug}:
+   *   get:
+   *     tags:
+   *       - Products
+   *     summary: Get product by slug
+   *     description: Retrieve a product by its URL slug, with a page of its published questions and answers. Former slugs of renamed products answer with a 301 pointing to the current slug.
+   *     parameters:
+   *       - in: path
+   *         name: slug
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: currency
+   *         schema:
+   *           type: string
+   *           example: EUR
+   *         description: Currency to show prices in, also accepted as the X-Currency header. Defaults to the base currency.
+   *       - in: query
+   *         name: locale
+   *         schema:
+   *           type: string
+   *           example: de
+   *         description: Locale to show content in. Without it, the Accept-Language header is used; unsupported or untranslated locales fall back to the default locale.
+   *       - in: query
+   *         name: questionsPage
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           default: 1
+   *         description: Page of the published questions included in the response
+   *       - in: query
+   *         name: questionsLimit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 50
+   *           default: 5
+   *     responses:
+   *       200:
+   *         description: Product retrieved successfully
+   *       301:
+   *         description: Product has moved to a new slug (see the Location header and `data.slug`)
+   *       404:
+   *         description: Product not found
+   */
+  getProductBySlug = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { slug } = req.params;
+
+    if (!slug) {
+      throw new Error('Product slug is required');
+    }
+
+    const includeInactive = user?.role === 'ADMIN';
+    const locale = LocaleUtils.fromRequest(req);
+    const currency = await this.currencyService.resolveCurrency(CurrencyUtils.fromRequest(req));
+    const result = await this.productService.getProductBySlug(slug, includeInactive, locale);
+
+    if (result.redirectTo) {
+      const location = `${req.baseUrl}/by-slug/${result.redirectTo}`;
+
+      res.setHeader('Location', location);
+      ResponseUtils.success(res, { slug: result.redirectTo, location }, 'Product has moved', 301);
+      return;
+    }
+
+    this.trackView(result.product.id, req);
+
+    res.setHeader('Content-Language', locale);
+
+    const localized = await this.currencyService.localizeProduct(result.product, currency);
+
+    ResponseUtils.success(res, await this.withQuestions(localized, req), 'Product retrieved successfully');
   });
 
   /**
@@ -184,6 +490,13 @@ export class ProductController {
    *           schema:
    *             type: object
    *             properties:
+   *               sku:
+   *                 type: string
+   *                 maxLength: 64
+   *               slug:
+   *                 type: string
+   *                 maxLength: 120
+   *                 description: New URL slug. The previous slug keeps redirecting to the product.
    *               name:
    *                 type: string
    *                 minLength: 1
@@ -195,12 +508,66 @@ export class ProductController {
    *                 type: number
    *                 minimum: 0.01
    *                 maximum: 999999.99
+   *               salePrice:
+   *                 type: number
+   *                 nullable: true
+   *                 description: Sale price, lower than the regular price. Null removes the sale and its schedule.
+   *               saleStartsAt:
+   *                 type: string
+   *                 format: date-time
+   *                 nullable: true
+   *                 description: When the sale starts. Starts immediately when omitted.
+   *               saleEndsAt:
+   *                 type: string
+   *                 format: date-time
+   *                 nullable: true
+   *                 description: When the sale ends. Runs until removed when omitted.
    *               stock:
    *                 type: integer
    *                 minimum: 0
+   *                 description: Cannot be set for LICENSE_KEY products
+   *               type:
+   *                 type: string
+   *                 enum: [PHYSICAL, DOWNLOAD, LICENSE_KEY]
+   *                 description: Products with variants, bundles and bundle components cannot be digital
+   *               stockPolicy:
+   *                 type: string
+   *                 enum: [STANDARD, BACKORDER, PREORDER]
+   *                 description: BACKORDER and PREORDER accept orders beyond stock for plain physical products; those units ship once stock arrives
+   *               backorderLimit:
+   *                 type: integer
+   *                 minimum: 1
+   *                 nullable: true
+   *                 description: Units that may be owed to customers beyond stock at any time. Unlimited when omitted.
+   *               preorderShipDate:
+   *                 type: string
+   *                 format: date-time
+   *                 nullable: true
+   *                 description: Expected ship date, required for PREORDER products
+   *               status:
+   *                 type: string
+   *                 enum: [DRAFT, SCHEDULED, PUBLISHED, ARCHIVED]
+   *                 description: Only PUBLISHED products, and SCHEDULED ones once their publishAt has passed, are shown in the storefront. Defaults to PUBLISHED.
+   *               publishAt:
+   *                 type: string
+   *                 format: date-time
+   *                 nullable: true
+   *                 description: When a SCHEDULED product goes live. Required for SCHEDULED products.
+   *               unpublishAt:
+   *                 type: string
+   *                 format: date-time
+   *                 nullable: true
+   *                 description: When the product is taken off the storefront and archived
+   *               categoryIds:
+   *                 type: array
+   *                 maxItems: 20
+   *                 items:
+   *                   type: string
    *     responses:
    *       200:
    *         description: Product updated successfully
+   *       400:
+   *         description: Sale price not below the regular price, or sale ends before it starts
    *       403:
    *         description: Admin access required
    *       404:
@@ -213,11 +580,65 @@ export class ProductController {
       throw new Error('Product ID is required');
     }
     
-    const product = await this.productService.updateProduct(id, req.body);
+    const { user } = req as AuthenticatedRequest;
+    const product = await this.productService.updateProduct(id, req.body, user!.id);
 
     ResponseUtils.success(res, product, 'Product updated successfully');
   });
 
+  /**
+   * @swagger
+   * /products/{id}/price-history:
+   *   get:
+   *     tags:
+   *       - Products
+   *     summary: Get product price history (Admin only)
+   *     description: Every change of the regular price, sale price or sale schedule, newest first, with the admin who made it
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: page
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           default: 1
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *           default: 10
+   *     responses:
+   *       200:
+   *         description: Price history retrieved successfully
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Product not found
+   */
+  getPriceHistory = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { page, limit } = req.query;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    const history = await this.productService.getPriceHistory(id, {
+      page: Number(page) || 1,
+      limit: Number(limit) || 10,
+    });
+
+    ResponseUtils.success(res, history, 'Price history retrieved successfully');
+  });
+
   /**
    * @swagger
    * /products/{id}:
@@ -386,4 +807,84 @@ export class ProductController {
     
     ResponseUtils.success(res, null, 'Product stocks updated successfully');
   });
+
+  /**
+   * @swagger
+   * /products/admin/search/reindex:
+   *   post:
+   *     tags:
+   *       - Products
+   *     summary: Rebuild the product search index (Admin only)
+   *     description: Recompute the full-text search vector of every product and product translation, e.g. after a bulk import or direct database changes
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Product search index rebuilt successfully
+   *       403:
+   *         description: Admin access required
+   */
+  reindexSearch = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const result = await this.productService.reindexSearch();
+
+    ResponseUtils.success(res, result, 'Product search index rebuilt successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/admin/publication/run:
+   *   post:
+   *     tags:
+   *       - Products
+   *     summary: Apply the publication schedule (Admin only)
+   *     description: Publish scheduled products whose publish time has passed and archive products past their unpublish time. A background job does this every minute; call this endpoint from an external scheduler when background jobs are disabled. Storefront visibility follows the publication window either way.
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Publication schedule applied successfully
+   *       403:
+   *         description: Admin access required
+   */
+  applyPublicationSchedule = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const result = await this.productService.applyPublicationSchedule();
+
+    ResponseUtils.success(res, result, 'Publication schedule applied successfully');
+  });
+
+  /**
+   * The signed-in user and the anonymous session ID of a request, if valid
+   */
+  private getViewer(req: Request): Viewer {
+    const { user } = req as AuthenticatedRequest;
+    const sessionId = viewerSessionIdSchema.safeParse(req.get('X-Session-Id'));
+
+    return {
+      userId: user?.id,
+      sessionId: sessionId.success ? sessionId.data : undefined,
+    };
+  }
+
+  /**
+   * Record a product view without holding up or failing the response
+   */
+  private trackView(productId: string, req: Request): void {
+    this.viewService.recordView(productId, this.getViewer(req)).catch(error => {
+      console.error('Failed to record product view:', error);
+    });
+  }
+
+  /**
+   * Attach the requested page of published questions to a product
+   */
+  private async withQuestions<T extends { id: string }>(product: T, req: Request): Promise<T & { questions: any }> {
+    const { questionsPage, questionsLimit } = req.query;
+
+    const questions = await this.questionService.getProductQuestions(product.id, {
+      page: Number(questionsPage) || 1,
+      limit: Number(questionsLimit) || 5,
+    });
+
+    return { ...product, questions };
+  }
 }
\ No newline at end of file
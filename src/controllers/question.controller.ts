@@ -0,0 +1,417 @@
+import { Request, Response } from 'express';
+import { QuestionService } from '@/services/question.service';
+import { ResponseUtils } from '@/utils/response';
+import { AuthenticatedRequest } from '@/types';
+import { asyncHandler } from '@/middlewares/error';
+
+export class QuestionController {
+  private questionService: QuestionService;
+
+  constructor() {
+    this.questionService = new QuestionService();
+  }
+
+  /**
+   * @swagger
+   * /products/{id}/questions:
+   *   get:
+   *     tags:
+   *       - Questions
+   *     summary: Get product questions
+   *     description: Retrieve the published questions of a product with their answers, newest first. Store answers are listed first, then the most upvoted.
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: page
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           default: 1
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *           default: 10
+   *     responses:
+   *       200:
+   *         description: Product questions retrieved successfully
+   *       404:
+   *         description: Product not found
+   */
+  getProductQuestions = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { page, limit } = req.query;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    const questions = await this.questionService.getProductQuestions(id, {
+      page: Number(page) || 1,
+      limit: Number(limit) || 10,
+    });
+
+    ResponseUtils.success(res, questions, 'Product questions retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/questions:
+   *   post:
+   *     tags:
+   *       - Questions
+   *     summary: Ask a question about a product
+   *     description: Questions are published once a moderator approves them or the store answers them
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - body
+   *             properties:
+   *               body:
+   *                 type: string
+   *                 minLength: 10
+   *                 maxLength: 1000
+   *     responses:
+   *       201:
+   *         description: Question submitted successfully
+   *       404:
+   *         description: Product not found
+   */
+  askQuestion = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    const question = await this.questionService.askQuestion(user!.id, id, req.body);
+
+    ResponseUtils.created(res, question, 'Question submitted successfully');
+  });
+
+  /**
+   * @swagger
+   * /questions/mine:
+   *   get:
+   *     tags:
+   *       - Questions
+   *     summary: Get my questions
+   *     description: Retrieve the questions asked by the current user, including those awaiting moderation
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Questions retrieved successfully
+   */
+  getMyQuestions = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const questions = await this.questionService.getUserQuestions(user!.id);
+
+    ResponseUtils.success(res, questions, 'Questions retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /questions/{id}:
+   *   delete:
+   *     tags:
+   *       - Questions
+   *     summary: Delete a question
+   *     description: Users can delete their own questions, admins any question. Answers are deleted with the question.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Question deleted successfully
+   *       404:
+   *         description: Question not found
+   */
+  deleteQuestion = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Question ID is required');
+    }
+
+    await this.questionService.deleteQuestion(id, user!);
+
+    ResponseUtils.success(res, null, 'Question deleted successfully');
+  });
+
+  /**
+   * @swagger
+   * /questions/{id}/answers:
+   *   post:
+   *     tags:
+   *       - Questions
+   *     summary: Answer a question
+   *     description: Admins answer on behalf of the store, which also publishes a pending question. When ALLOW_BUYER_ANSWERS is enabled, customers with a delivered order containing the product can answer published questions.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - body
+   *             properties:
+   *               body:
+   *                 type: string
+   *                 maxLength: 5000
+   *     responses:
+   *       201:
+   *         description: Answer posted successfully
+   *       403:
+   *         description: Not allowed to answer this question
+   *       404:
+   *         description: Question not found
+   */
+  answerQuestion = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Question ID is required');
+    }
+
+    const answer = await this.questionService.answerQuestion(id, user!, req.body);
+
+    ResponseUtils.created(res, answer, 'Answer posted successfully');
+  });
+
+  /**
+   * @swagger
+   * /questions/answers/{id}:
+   *   delete:
+   *     tags:
+   *       - Questions
+   *     summary: Delete an answer
+   *     description: Users can delete their own answers, admins any answer
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Answer deleted successfully
+   *       404:
+   *         description: Answer not found
+   */
+  deleteAnswer = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Answer ID is required');
+    }
+
+    await this.questionService.deleteAnswer(id, user!);
+
+    ResponseUtils.success(res, null, 'Answer deleted successfully');
+  });
+
+  /**
+   * @swagger
+   * /questions/answers/{id}/upvote:
+   *   post:
+   *     tags:
+   *       - Questions
+   *     summary: Upvote an answer
+   *     description: Mark an answer to a published question as helpful, once per user. Users cannot upvote their own answers.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Answer upvoted successfully
+   *       400:
+   *         description: Cannot upvote own answer
+   *       404:
+   *         description: Answer not found
+   *       409:
+   *         description: Answer already upvoted
+   */
+  upvoteAnswer = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Answer ID is required');
+    }
+
+    const result = await this.questionService.upvoteAnswer(id, user!.id);
+
+    ResponseUtils.success(res, result, 'Answer upvoted successfully');
+  });
+
+  /**
+   * @swagger
+   * /questions/answers/{id}/upvote:
+   *   delete:
+   *     tags:
+   *       - Questions
+   *     summary: Remove an upvote
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Upvote removed successfully
+   *       404:
+   *         description: Upvote not found
+   */
+  removeUpvote = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Answer ID is required');
+    }
+
+    const result = await this.questionService.removeUpvote(id, user!.id);
+
+    ResponseUtils.success(res, result, 'Upvote removed successfully');
+  });
+
+  /**
+   * @swagger
+   * /questions:
+   *   get:
+   *     tags:
+   *       - Questions
+   *     summary: Get questions for moderation (Admin only)
+   *     description: Retrieve questions about all products, oldest first, optionally filtered by status
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: page
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           default: 1
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *           default: 10
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [PENDING, PUBLISHED, HIDDEN]
+   *     responses:
+   *       200:
+   *         description: Questions retrieved successfully
+   *       403:
+   *         description: Admin access required
+   */
+  getQuestionsForModeration = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { page, limit, status } = req.query;
+
+    const questions = await this.questionService.getQuestionsForModeration(
+      { page: Number(page) || 1, limit: Number(limit) || 10 },
+      status as any
+    );
+
+    ResponseUtils.success(res, questions, 'Questions retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /questions/{id}/status:
+   *   patch:
+   *     tags:
+   *       - Questions
+   *     summary: Moderate a question (Admin only)
+   *     description: Publish a question or hide it together with its answers
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - status
+   *             properties:
+   *               status:
+   *                 type: string
+   *                 enum: [PUBLISHED, HIDDEN]
+   *     responses:
+   *       200:
+   *         description: Question moderated successfully
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Question not found
+   */
+  moderateQuestion = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Question ID is required');
+    }
+
+    const question = await this.questionService.moderateQuestion(id, req.body);
+
+    ResponseUtils.success(res, question, 'Question moderated successfully');
+  });
+}
\ No newline at end of file
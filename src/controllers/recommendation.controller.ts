@@ -0,0 +1,143 @@
+import { Request, Response } from 'express';
+import { RecommendationService } from '@/services/recommendation.service';
+import { CurrencyService } from '@/services/currency.service';
+import { ResponseUtils } from '@/utils/response';
+import { AuthenticatedRequest } from '@/types';
+import { CurrencyUtils } from '@/utils/currency';
+import { asyncHandler } from '@/middlewares/error';
+
+export class RecommendationController {
+  private recommendationService: RecommendationService;
+  private currencyService: CurrencyService;
+
+  constructor() {
+    this.recommendationService = new RecommendationService();
+    this.currencyService = new CurrencyService();
+  }
+
+  /**
+   * @swagger
+   * /recommendations:
+   *   get:
+   *     tags:
+   *       - Recommendations
+   *     summary: Get personalized recommendations
+   *     description: |
+   *       Active, in-stock products ranked for the current customer from an item-to-item model built from
+   *       past orders: products similar to what they bought, wishlisted or have in their cart score higher
+   *       (`reason: personalized`). Products they already bought, wishlisted or have in their cart are excluded.
+   *       The list is topped up with best sellers (`reason: popular`).
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 50
+   *           default: 12
+   *       - in: query
+   *         name: currency
+   *         schema:
+   *           type: string
+   *           example: EUR
+   *         description: Currency to show prices in, also accepted as the X-Currency header. Defaults to the base currency.
+   *     responses:
+   *       200:
+   *         description: Recommendations retrieved successfully
+   *       401:
+   *         description: Unauthorized
+   *       403:
+   *         description: Customer access required
+   */
+  getRecommendations = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { limit } = req.query;
+
+    const currency = await this.currencyService.resolveCurrency(CurrencyUtils.fromRequest(req));
+    const products = await this.recommendationService.getRecommendations(user!.id, Number(limit) || 12);
+
+    ResponseUtils.success(
+      res,
+      await this.currencyService.localizeProducts(products, currency),
+      'Recommendations retrieved successfully'
+    );
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/related:
+   *   get:
+   *     tags:
+   *       - Recommendations
+   *     summary: Get related products
+   *     description: |
+   *       Products frequently bought together with this one (`reason: bought_together`, with the number of
+   *       non-cancelled orders containing both), topped up with popular in-stock products in a similar price
+   *       range (`reason: similar_price`). Co-purchases are precomputed by a background job.
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 20
+   *           default: 8
+   *       - in: query
+   *         name: currency
+   *         schema:
+   *           type: string
+   *           example: EUR
+   *         description: Currency to show prices in, also accepted as the X-Currency header. Defaults to the base currency.
+   *     responses:
+   *       200:
+   *         description: Related products retrieved successfully
+   *       404:
+   *         description: Product not found
+   */
+  getRelatedProducts = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { limit } = req.query;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    const currency = await this.currencyService.resolveCurrency(CurrencyUtils.fromRequest(req));
+    const products = await this.recommendationService.getRelatedProducts(id, Number(limit) || 8);
+
+    ResponseUtils.success(
+      res,
+      await this.currencyService.localizeProducts(products, currency),
+      'Related products retrieved successfully'
+    );
+  });
+
+  /**
+   * @swagger
+   * /products/admin/related/refresh:
+   *   post:
+   *     tags:
+   *       - Recommendations
+   *     summary: Refresh related products (Admin only)
+   *     description: Recompute the "frequently bought together" pairs now instead of waiting for the background job
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Related products refreshed successfully
+   *       403:
+   *         description: Admin access required
+   */
+  refreshRelatedProducts = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const result = await this.recommendationService.refreshRelatedProducts();
+
+    ResponseUtils.success(res, result, 'Related products refreshed successfully');
+  });
+}
\ No newline at end of file
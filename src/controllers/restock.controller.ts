@@ -0,0 +1,107 @@
+import { Request, Response } from 'express';
+import { RestockService } from '@/services/restock.service';
+import { ResponseUtils } from '@/utils/response';
+import { AuthenticatedRequest } from '@/types';
+import { asyncHandler } from '@/middlewares/error';
+
+export class RestockController {
+  private restockService: RestockService;
+
+  constructor() {
+    this.restockService = new RestockService();
+  }
+
+  /**
+   * @swagger
+   * /products/stock-subscriptions:
+   *   get:
+   *     tags:
+   *       - Stock Notifications
+   *     summary: Get my back-in-stock subscriptions
+   *     description: Retrieve the sold-out products the current customer will be notified about
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Stock subscriptions retrieved successfully
+   */
+  getMySubscriptions = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const subscriptions = await this.restockService.getUserSubscriptions(user!.id);
+
+    ResponseUtils.success(res, subscriptions, 'Stock subscriptions retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/stock-subscription:
+   *   post:
+   *     tags:
+   *       - Stock Notifications
+   *     summary: Get notified when a product is back in stock
+   *     description: Subscribe to a sold-out product. A notification is sent once its stock goes back above zero, after which the subscription ends.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       201:
+   *         description: Subscribed to back-in-stock notification successfully
+   *       400:
+   *         description: Product is in stock
+   *       404:
+   *         description: Product not found
+   *       409:
+   *         description: Already subscribed
+   */
+  subscribe = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    const subscription = await this.restockService.subscribe(user!.id, id);
+
+    ResponseUtils.created(res, subscription, 'Subscribed to back-in-stock notification successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/stock-subscription:
+   *   delete:
+   *     tags:
+   *       - Stock Notifications
+   *     summary: Stop waiting for a product
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Unsubscribed successfully
+   *       404:
+   *         description: Subscription not found
+   */
+  unsubscribe = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    await this.restockService.unsubscribe(user!.id, id);
+
+    ResponseUtils.success(res, null, 'Unsubscribed successfully');
+  });
+}
\ No newline at end of file
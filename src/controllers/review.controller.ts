@@ -0,0 +1,322 @@
+import { Request, Response } from 'express';
+import { ReviewService } from '@/services/review.service';
+import { ResponseUtils } from '@/utils/response';
+import { AuthenticatedRequest } from '@/types';
+import { asyncHandler } from '@/middlewares/error';
+
+export class ReviewController {
+  private reviewService: ReviewService;
+
+  constructor() {
+    this.reviewService = new ReviewService();
+  }
+
+  /**
+   * @swagger
+   * /products/{id}/reviews:
+   *   get:
+   *     tags:
+   *       - Reviews
+   *     summary: Get product reviews
+   *     description: Retrieve the approved reviews of a product, newest first
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: page
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           default: 1
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *           default: 10
+   *     responses:
+   *       200:
+   *         description: Product reviews retrieved successfully
+   *       404:
+   *         description: Product not found
+   */
+  getProductReviews = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { page, limit } = req.query;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    const reviews = await this.reviewService.getProductReviews(id, {
+      page: Number(page) || 1,
+      limit: Number(limit) || 10,
+    });
+
+    ResponseUtils.success(res, reviews, 'Product reviews retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/reviews:
+   *   post:
+   *     tags:
+   *       - Reviews
+   *     summary: Review a product
+   *     description: Rate a product from 1 to 5 stars with an optional text review. Only customers with a delivered order containing the product can review it, once. Reviews are published after moderation.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - rating
+   *             properties:
+   *               rating:
+   *                 type: integer
+   *                 minimum: 1
+   *                 maximum: 5
+   *               title:
+   *                 type: string
+   *                 maxLength: 120
+   *               body:
+   *                 type: string
+   *                 maxLength: 5000
+   *     responses:
+   *       201:
+   *         description: Review submitted successfully
+   *       403:
+   *         description: Product was not purchased and delivered
+   *       404:
+   *         description: Product not found
+   *       409:
+   *         description: Product already reviewed
+   */
+  createReview = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    const review = await this.reviewService.createReview(user!.id, id, req.body);
+
+    ResponseUtils.created(res, review, 'Review submitted successfully');
+  });
+
+  /**
+   * @swagger
+   * /reviews/mine:
+   *   get:
+   *     tags:
+   *       - Reviews
+   *     summary: Get my reviews
+   *     description: Retrieve the reviews written by the current customer, including those awaiting moderation
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Reviews retrieved successfully
+   */
+  getMyReviews = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const reviews = await this.reviewService.getUserReviews(user!.id);
+
+    ResponseUtils.success(res, reviews, 'Reviews retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /reviews/{id}:
+   *   put:
+   *     tags:
+   *       - Reviews
+   *     summary: Edit my review
+   *     description: Edit one of your reviews. The edited review is published again after moderation.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               rating:
+   *                 type: integer
+   *                 minimum: 1
+   *                 maximum: 5
+   *               title:
+   *                 type: string
+   *                 maxLength: 120
+   *               body:
+   *                 type: string
+   *                 maxLength: 5000
+   *     responses:
+   *       200:
+   *         description: Review updated successfully
+   *       404:
+   *         description: Review not found
+   */
+  updateReview = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Review ID is required');
+    }
+
+    const review = await this.reviewService.updateReview(id, user!.id, req.body);
+
+    ResponseUtils.success(res, review, 'Review updated successfully');
+  });
+
+  /**
+   * @swagger
+   * /reviews/{id}:
+   *   delete:
+   *     tags:
+   *       - Reviews
+   *     summary: Delete a review
+   *     description: Customers can delete their own reviews, admins any review
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Review deleted successfully
+   *       404:
+   *         description: Review not found
+   */
+  deleteReview = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Review ID is required');
+    }
+
+    await this.reviewService.deleteReview(id, user!);
+
+    ResponseUtils.success(res, null, 'Review deleted successfully');
+  });
+
+  /**
+   * @swagger
+   * /reviews:
+   *   get:
+   *     tags:
+   *       - Reviews
+   *     summary: Get reviews for moderation (Admin only)
+   *     description: Retrieve reviews of all products, oldest first, optionally filtered by status
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: page
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           default: 1
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *           default: 10
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [PENDING, APPROVED, HIDDEN]
+   *     responses:
+   *       200:
+   *         description: Reviews retrieved successfully
+   *       403:
+   *         description: Admin access required
+   */
+  getReviewsForModeration = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { page, limit, status } = req.query;
+
+    const reviews = await this.reviewService.getReviewsForModeration(
+      { page: Number(page) || 1, limit: Number(limit) || 10 },
+      status as any
+    );
+
+    ResponseUtils.success(res, reviews, 'Reviews retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /reviews/{id}/status:
+   *   patch:
+   *     tags:
+   *       - Reviews
+   *     summary: Moderate a review (Admin only)
+   *     description: Approve a review to publish it, or hide it. Only approved reviews count towards a product's rating.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - status
+   *             properties:
+   *               status:
+   *                 type: string
+   *                 enum: [APPROVED, HIDDEN]
+   *     responses:
+   *       200:
+   *         description: Review moderated successfully
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Review not found
+   */
+  moderateReview = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Review ID is required');
+    }
+
+    const review = await this.reviewService.moderateReview(id, req.body);
+
+    ResponseUtils.success(res, review, 'Review moderated successfully');
+  });
+}
\ No newline at end of file
@@ -0,0 +1,281 @@
+import { Request, Response } from 'express';
+import { TranslationService } from '@/services/translation.service';
+import { ResponseUtils } from '@/utils/response';
+import { asyncHandler } from '@/middlewares/error';
+
+export class TranslationController {
+  private translationService: TranslationService;
+
+  constructor() {
+    this.translationService = new TranslationService();
+  }
+
+  /**
+   * @swagger
+   * /products/{id}/translations:
+   *   get:
+   *     tags:
+   *       - Translations
+   *     summary: Get the translations of a product (Admin only)
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Product translations retrieved successfully
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Product not found
+   */
+  getProductTranslations = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    const translations = await this.translationService.getProductTranslations(id);
+
+    ResponseUtils.success(res, translations, 'Product translations retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/translations/{locale}:
+   *   put:
+   *     tags:
+   *       - Translations
+   *     summary: Translate a product (Admin only)
+   *     description: Add or replace the name and description of a product in a supported locale other than the default one
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: locale
+   *         required: true
+   *         schema:
+   *           type: string
+   *           example: de
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - name
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 maxLength: 200
+   *               description:
+   *                 type: string
+   *                 maxLength: 1000
+   *     responses:
+   *       200:
+   *         description: Product translation saved successfully
+   *       400:
+   *         description: Default or unsupported locale
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Product not found
+   */
+  setProductTranslation = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id, locale } = req.params;
+
+    if (!id || !locale) {
+      throw new Error('Product ID and locale are required');
+    }
+
+    const translation = await this.translationService.setProductTranslation(id, locale, req.body);
+
+    ResponseUtils.success(res, translation, 'Product translation saved successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/translations/{locale}:
+   *   delete:
+   *     tags:
+   *       - Translations
+   *     summary: Delete a product translation (Admin only)
+   *     description: The product is shown with its default content in that locale again
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: locale
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Product translation deleted successfully
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Translation not found
+   */
+  deleteProductTranslation = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id, locale } = req.params;
+
+    if (!id || !locale) {
+      throw new Error('Product ID and locale are required');
+    }
+
+    await this.translationService.deleteProductTranslation(id, locale);
+
+    ResponseUtils.success(res, null, 'Product translation deleted successfully');
+  });
+
+  /**
+   * @swagger
+   * /categories/{id}/translations:
+   *   get:
+   *     tags:
+   *       - Translations
+   *     summary: Get the translations of a category (Admin only)
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Category translations retrieved successfully
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Category not found
+   */
+  getCategoryTranslations = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Category ID is required');
+    }
+
+    const translations = await this.translationService.getCategoryTranslations(id);
+
+    ResponseUtils.success(res, translations, 'Category translations retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /categories/{id}/translations/{locale}:
+   *   put:
+   *     tags:
+   *       - Translations
+   *     summary: Translate a category (Admin only)
+   *     description: Add or replace the name and description of a category in a supported locale other than the default one
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: locale
+   *         required: true
+   *         schema:
+   *           type: string
+   *           example: de
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - name
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 maxLength: 100
+   *               description:
+   *                 type: string
+   *                 maxLength: 500
+   *     responses:
+   *       200:
+   *         description: Category translation saved successfully
+   *       400:
+   *         description: Default or unsupported locale
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Category not found
+   */
+  setCategoryTranslation = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id, locale } = req.params;
+
+    if (!id || !locale) {
+      throw new Error('Category ID and locale are required');
+    }
+
+    const translation = await this.translationService.setCategoryTranslation(id, locale, req.body);
+
+    ResponseUtils.success(res, translation, 'Category translation saved successfully');
+  });
+
+  /**
+   * @swagger
+   * /categories/{id}/translations/{locale}:
+   *   delete:
+   *     tags:
+   *       - Translations
+   *     summary: Delete a category translation (Admin only)
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: locale
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Category translation deleted successfully
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Translation not found
+   */
+  deleteCategoryTranslation = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id, locale } = req.params;
+
+    if (!id || !locale) {
+      throw new Error('Category ID and locale are required');
+    }
+
+    await this.translationService.deleteCategoryTranslation(id, locale);
+
+    ResponseUtils.success(res, null, 'Category translation deleted successfully');
+  });
+}
\ No newline at end of file
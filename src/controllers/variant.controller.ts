@@ -0,0 +1,325 @@
+import { Request, Response } from 'express';
+import { VariantService } from '@/services/variant.service';
+import { ResponseUtils } from '@/utils/response';
+import { AuthenticatedRequest } from '@/types';
+import { asyncHandler } from '@/middlewares/error';
+
+export class VariantController {
+  private variantService: VariantService;
+
+  constructor() {
+    this.variantService = new VariantService();
+  }
+
+  /**
+   * @swagger
+   * /products/{id}/options:
+   *   get:
+   *     tags:
+   *       - Product Variants
+   *     summary: Get product options
+   *     description: Retrieve the option types (e.g. size, color) and their values for a product
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Product options retrieved successfully
+   *       404:
+   *         description: Product not found
+   */
+  getOptions = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    const options = await this.variantService.getOptions(id);
+
+    ResponseUtils.success(res, options, 'Product options retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/options:
+   *   post:
+   *     tags:
+   *       - Product Variants
+   *     summary: Add product option (Admin only)
+   *     description: Add an option type with values, or append new values to an existing option with the same name
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - name
+   *               - values
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 example: Size
+   *               values:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *                 example: [S, M, L]
+   *     responses:
+   *       201:
+   *         description: Product option saved successfully
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Product not found
+   */
+  addOption = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    const option = await this.variantService.addOption(id, req.body);
+
+    ResponseUtils.created(res, option, 'Product option saved successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/options/{optionId}:
+   *   delete:
+   *     tags:
+   *       - Product Variants
+   *     summary: Delete product option (Admin only)
+   *     description: Remove an option type. Variants using its values are deactivated.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: optionId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Product option deleted successfully
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Product option not found
+   */
+  deleteOption = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id, optionId } = req.params;
+
+    if (!id || !optionId) {
+      throw new Error('Product ID and option ID are required');
+    }
+
+    await this.variantService.deleteOption(id, optionId);
+
+    ResponseUtils.success(res, null, 'Product option deleted successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/variants:
+   *   get:
+   *     tags:
+   *       - Product Variants
+   *     summary: Get product variants
+   *     description: Retrieve the variants (SKUs) of a product. Admins also see inactive variants.
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Product variants retrieved successfully
+   *       404:
+   *         description: Product not found
+   */
+  getVariants = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    const variants = await this.variantService.getVariants(id, user?.role === 'ADMIN');
+
+    ResponseUtils.success(res, variants, 'Product variants retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/variants/generate:
+   *   post:
+   *     tags:
+   *       - Product Variants
+   *     summary: Generate product variants (Admin only)
+   *     description: Create a variant with a generated SKU for every option value combination that does not have one yet
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               price:
+   *                 type: number
+   *                 minimum: 0.01
+   *                 description: Price override for the new variants. Defaults to the product price.
+   *               stock:
+   *                 type: integer
+   *                 minimum: 0
+   *                 default: 0
+   *     responses:
+   *       201:
+   *         description: Product variants generated successfully
+   *       400:
+   *         description: Product has no options or too many combinations
+   *       403:
+   *         description: Admin access required
+   */
+  generateVariants = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Product ID is required');
+    }
+
+    const variants = await this.variantService.generateVariants(id, req.body);
+
+    ResponseUtils.created(res, variants, 'Product variants generated successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/variants/{variantId}:
+   *   put:
+   *     tags:
+   *       - Product Variants
+   *     summary: Update product variant (Admin only)
+   *     description: Update a variant's SKU, price override, stock or availability
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: variantId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               sku:
+   *                 type: string
+   *               price:
+   *                 type: number
+   *                 nullable: true
+   *                 description: Set to null to fall back to the product price
+   *               stock:
+   *                 type: integer
+   *                 minimum: 0
+   *               isActive:
+   *                 type: boolean
+   *     responses:
+   *       200:
+   *         description: Product variant updated successfully
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Product variant not found
+   *       409:
+   *         description: SKU already in use
+   */
+  updateVariant = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id, variantId } = req.params;
+
+    if (!id || !variantId) {
+      throw new Error('Product ID and variant ID are required');
+    }
+
+    const variant = await this.variantService.updateVariant(id, variantId, req.body);
+
+    ResponseUtils.success(res, variant, 'Product variant updated successfully');
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/variants/{variantId}:
+   *   delete:
+   *     tags:
+   *       - Product Variants
+   *     summary: Delete product variant (Admin only)
+   *     description: Deactivate a variant and remove it from carts. The variant is kept for order history.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: variantId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Product variant deleted successfully
+   *       403:
+   *         description: Admin access required
+   *       404:
+   *         description: Product variant not found
+   */
+  deleteVariant = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id, variantId } = req.params;
+
+    if (!id || !variantId) {
+      throw new Error('Product ID and variant ID are required');
+    }
+
+    await this.variantService.deleteVariant(id, variantId);
+
+    ResponseUtils.success(res, null, 'Product variant deleted successfully');
+  });
+}
\ No newline at end of file
@@ -0,0 +1,431 @@
+import { Request, Response } from 'express';
+import { WishlistService } from '@/services/wishlist.service';
+import { ResponseUtils } from '@/utils/response';
+import { AuthenticatedRequest } from '@/types';
+import { asyncHandler } from '@/middlewares/error';
+
+export class WishlistController {
+  private wishlistService: WishlistService;
+
+  constructor() {
+    this.wishlistService = new WishlistService();
+  }
+
+  /**
+   * @swagger
+   * /wishlists:
+   *   get:
+   *     tags:
+   *       - Wishlists
+   *     summary: Get my wishlists
+   *     description: Retrieve the current customer's wishlists with their item counts
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Wishlists retrieved successfully
+   */
+  getWishlists = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const wishlists = await this.wishlistService.getWishlists(user!.id);
+
+    ResponseUtils.success(res, wishlists, 'Wishlists retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /wishlists:
+   *   post:
+   *     tags:
+   *       - Wishlists
+   *     summary: Create a wishlist
+   *     description: Create a named wishlist. Names are unique per customer.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - name
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 maxLength: 100
+   *     responses:
+   *       201:
+   *         description: Wishlist created successfully
+   *       409:
+   *         description: Wishlist name already in use
+   */
+  createWishlist = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const wishlist = await this.wishlistService.createWishlist(user!.id, req.body);
+
+    ResponseUtils.created(res, wishlist, 'Wishlist created successfully');
+  });
+
+  /**
+   * @swagger
+   * /wishlists/{id}:
+   *   get:
+   *     tags:
+   *       - Wishlists
+   *     summary: Get a wishlist
+   *     description: Retrieve one of the current customer's wishlists with its items
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Wishlist retrieved successfully
+   *       404:
+   *         description: Wishlist not found
+   */
+  getWishlist = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Wishlist ID is required');
+    }
+
+    const wishlist = await this.wishlistService.getWishlist(user!.id, id);
+
+    ResponseUtils.success(res, wishlist, 'Wishlist retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /wishlists/shared/{token}:
+   *   get:
+   *     tags:
+   *       - Wishlists
+   *     summary: Get a shared wishlist
+   *     description: Retrieve a wishlist that its owner has shared, using its share token
+   *     parameters:
+   *       - in: path
+   *         name: token
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Wishlist retrieved successfully
+   *       404:
+   *         description: Wishlist not found
+   */
+  getSharedWishlist = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { token } = req.params;
+
+    if (!token) {
+      throw new Error('Share token is required');
+    }
+
+    const wishlist = await this.wishlistService.getSharedWishlist(token);
+
+    ResponseUtils.success(res, wishlist, 'Wishlist retrieved successfully');
+  });
+
+  /**
+   * @swagger
+   * /wishlists/{id}:
+   *   put:
+   *     tags:
+   *       - Wishlists
+   *     summary: Rename a wishlist
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - name
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 maxLength: 100
+   *     responses:
+   *       200:
+   *         description: Wishlist updated successfully
+   *       404:
+   *         description: Wishlist not found
+   *       409:
+   *         description: Wishlist name already in use
+   */
+  updateWishlist = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Wishlist ID is required');
+    }
+
+    const wishlist = await this.wishlistService.updateWishlist(user!.id, id, req.body);
+
+    ResponseUtils.success(res, wishlist, 'Wishlist updated successfully');
+  });
+
+  /**
+   * @swagger
+   * /wishlists/{id}:
+   *   delete:
+   *     tags:
+   *       - Wishlists
+   *     summary: Delete a wishlist
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Wishlist deleted successfully
+   *       404:
+   *         description: Wishlist not found
+   */
+  deleteWishlist = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Wishlist ID is required');
+    }
+
+    await this.wishlistService.deleteWishlist(user!.id, id);
+
+    ResponseUtils.success(res, null, 'Wishlist deleted successfully');
+  });
+
+  /**
+   * @swagger
+   * /wishlists/{id}/items:
+   *   post:
+   *     tags:
+   *       - Wishlists
+   *     summary: Add a product to a wishlist
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - productId
+   *             properties:
+   *               productId:
+   *                 type: string
+   *               variantId:
+   *                 type: string
+   *               note:
+   *                 type: string
+   *                 maxLength: 500
+   *     responses:
+   *       200:
+   *         description: Product added to wishlist successfully
+   *       404:
+   *         description: Wishlist or product not found
+   *       409:
+   *         description: Product already in wishlist
+   */
+  addItem = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Wishlist ID is required');
+    }
+
+    const wishlist = await this.wishlistService.addItem(user!.id, id, req.body);
+
+    ResponseUtils.success(res, wishlist, 'Product added to wishlist successfully');
+  });
+
+  /**
+   * @swagger
+   * /wishlists/{id}/items/{itemId}:
+   *   delete:
+   *     tags:
+   *       - Wishlists
+   *     summary: Remove a product from a wishlist
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: itemId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Product removed from wishlist successfully
+   *       404:
+   *         description: Wishlist item not found
+   */
+  removeItem = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { id, itemId } = req.params;
+
+    if (!id || !itemId) {
+      throw new Error('Wishlist ID and item ID are required');
+    }
+
+    const wishlist = await this.wishlistService.removeItem(user!.id, id, itemId);
+
+    ResponseUtils.success(res, wishlist, 'Product removed from wishlist successfully');
+  });
+
+  /**
+   * @swagger
+   * /wishlists/{id}/items/{itemId}/move-to-cart:
+   *   post:
+   *     tags:
+   *       - Wishlists
+   *     summary: Move a wishlist item to the cart
+   *     description: Add the item to the cart (with the usual stock checks) and remove it from the wishlist
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: itemId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               quantity:
+   *                 type: integer
+   *                 minimum: 1
+   *                 default: 1
+   *     responses:
+   *       200:
+   *         description: Item moved to cart successfully
+   *       400:
+   *         description: Insufficient stock or variant selection required
+   *       404:
+   *         description: Wishlist item not found
+   */
+  moveItemToCart = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { id, itemId } = req.params;
+
+    if (!id || !itemId) {
+      throw new Error('Wishlist ID and item ID are required');
+    }
+
+    const cart = await this.wishlistService.moveItemToCart(user!.id, id, itemId, req.body?.quantity);
+
+    ResponseUtils.success(res, cart, 'Item moved to cart successfully');
+  });
+
+  /**
+   * @swagger
+   * /wishlists/{id}/share:
+   *   post:
+   *     tags:
+   *       - Wishlists
+   *     summary: Share a wishlist
+   *     description: Make a wishlist readable by anyone with its share token
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Wishlist shared successfully
+   *       404:
+   *         description: Wishlist not found
+   */
+  enableSharing = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Wishlist ID is required');
+    }
+
+    const wishlist = await this.wishlistService.enableSharing(user!.id, id);
+
+    ResponseUtils.success(res, wishlist, 'Wishlist shared successfully');
+  });
+
+  /**
+   * @swagger
+   * /wishlists/{id}/share:
+   *   delete:
+   *     tags:
+   *       - Wishlists
+   *     summary: Stop sharing a wishlist
+   *     description: Revoke the share token so the wishlist is private again
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Wishlist sharing disabled successfully
+   *       404:
+   *         description: Wishlist not found
+   */
+  disableSharing = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { user } = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    if (!id) {
+      throw new Error('Wishlist ID is required');
+    }
+
+    const wishlist = await this.wishlistService.disableSharing(user!.id, id);
+
+    ResponseUtils.success(res, wishlist, 'Wishlist sharing disabled successfully');
+  });
+}
\ No newline at end of file
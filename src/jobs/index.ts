@@ -0,0 +1,60 @@
+import { config } from '@/config';
+import { RecommendationService } from '@/services/recommendation.service';
+import { ViewService } from '@/services/view.service';
+import { PublicationService } from '@/services/publication.service';
+import { ReservationService } from '@/services/reservation.service';
+import { PricingService } from '@/services/pricing.service';
+import { JobScheduler } from './scheduler';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const scheduler = new JobScheduler();
+const recommendationService = new RecommendationService();
+const viewService = new ViewService();
+const publicationService = new PublicationService();
+const reservationService = new ReservationService();
+const pricingService = new PricingService();
+
+scheduler.register({
+  name: 'related-products',
+  intervalMs: config.relatedProductsRefreshMinutes * MINUTE_MS,
+  run: () => recommendationService.refreshRelatedProducts(),
+});
+
+scheduler.register({
+  name: 'product-publication',
+  intervalMs: MINUTE_MS,
+  run: () => publicationService.applySchedule(),
+});
+
+scheduler.register({
+  name: 'sale-sort-prices',
+  intervalMs: MINUTE_MS,
+  run: () => pricingService.refreshSortPrices(),
+});
+
+scheduler.register({
+  name: 'stock-reservation-expiry',
+  intervalMs: MINUTE_MS,
+  run: () => reservationService.releaseExpired(),
+});
+
+scheduler.register({
+  name: 'anonymous-view-cleanup',
+  intervalMs: DAY_MS,
+  run: () => viewService.deleteExpiredAnonymousViews(config.anonymousViewRetentionDays),
+});
+
+export const startBackgroundJobs = (): void => {
+  if (!config.enableBackgroundJobs) {
+    return;
+  }
+
+  scheduler.start();
+  console.log('⏱️  Background jobs started');
+};
+
+export const stopBackgroundJobs = (): void => {
+  scheduler.stop();
+};
\ No newline at end of file
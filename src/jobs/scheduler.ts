@@ -0,0 +1,54 @@
+export interface BackgroundJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+}
+
+/**
+ * Runs registered jobs at a fixed interval inside the API process. A job
+ * is skipped while its previous run is still in progress, and failures are
+ * logged without stopping the schedule.
+ */
+export class JobScheduler {
+  private jobs: BackgroundJob[] = [];
+  private timers: NodeJS.Timeout[] = [];
+  private runningJobs = new Set<string>();
+
+  register(job: BackgroundJob): void {
+    this.jobs.push(job);
+  }
+
+  /**
+   * Run every job once, then on its interval
+   */
+  start(): void {
+    for (const job of this.jobs) {
+      void this.runJob(job);
+
+      const timer = setInterval(() => void this.runJob(job), job.intervalMs);
+      timer.unref(); // Don't keep the process alive during shutdown
+      this.timers.push(timer);
+    }
+  }
+
+  stop(): void {
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers = [];
+  }
+
+  private async runJob(job: BackgroundJob): Promise<void> {
+    if (this.runningJobs.has(job.name)) {
+      return;
+    }
+
+    this.runningJobs.add(job.name);
+
+    try {
+      await job.run();
+    } catch (error) {
+      console.error(`❌ Background job "${job.name}" failed:`, error);
+    } finally {
+      this.runningJobs.delete(job.name);
+    }
+  }
+}
\ No newline at end of file
@@ -3,6 +3,7 @@ import { ApiError, ResponseUtils } from '@/utils/response';
 import { config } from '@/config';
 import { Prisma } from '@prisma/client';
 import { ZodError } from 'zod';
+import { MulterError } from 'multer';
 import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
 
 /**
@@ -47,6 +48,12 @@ export const errorHandler = (
     return;
   }
 
+  // Handle file upload errors
+  if (error instanceof MulterError) {
+    ResponseUtils.badRequest(res, error.message, 'File upload failed');
+    return;
+  }
+
   // Handle JWT errors
   if (error.name === 'JsonWebTokenError') {
     ResponseUtils.unauthorized(res, 'Invalid token', 'Authentication failed');
@@ -2,4 +2,5 @@ export * from './auth';
 export * from './validation';
 export * from './error';
 export * from './rateLimit';
-export * from './security';
\ No newline at end of file
+export * from './security';
+export * from './upload';
\ No newline at end of file
@@ -47,7 +47,7 @@ export const corsOptions = {
   },
   credentials: true, // Allow cookies to be sent
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Session-Id', 'X-Currency'],
   exposedHeaders: ['X-Total-Count', 'X-Total-Pages'],
   maxAge: 86400, // Cache preflight response for 24 hours
 };
@@ -0,0 +1,65 @@
+import multer from 'multer';
+import { Request } from 'express';
+import { config } from '@/config';
+import { ApiError } from '@/utils/response';
+
+export const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+/**
+ * Multer instance that keeps uploads in memory so they can be processed
+ * (thumbnails, metadata) before being handed to the storage adapter
+ */
+const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: config.maxUploadSizeMb * 1024 * 1024,
+    files: 10,
+  },
+  fileFilter: (req: Request, file: Express.Multer.File, callback: multer.FileFilterCallback) => {
+    if (!ALLOWED_IMAGE_TYPES.includes(file.mimetype)) {
+      callback(ApiError.badRequest(
+        `Unsupported file type: ${file.mimetype}. Allowed types: ${ALLOWED_IMAGE_TYPES.join(', ')}`
+      ));
+      return;
+    }
+
+    callback(null, true);
+  },
+});
+
+/**
+ * Accept up to 10 product images in the "images" multipart field
+ */
+export const uploadProductImages = imageUpload.array('images', 10);
+
+/**
+ * Multer instance for catalog import files (CSV or NDJSON)
+ */
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: config.maxImportSizeMb * 1024 * 1024,
+    files: 1,
+  },
+});
+
+/**
+ * Accept a single catalog import file in the "file" multipart field
+ */
+export const uploadImportFile = importUpload.single('file');
+
+/**
+ * Multer instance for the files of downloadable products; any file type is accepted
+ */
+const digitalFileUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: config.maxDigitalFileSizeMb * 1024 * 1024,
+    files: 1,
+  },
+});
+
+/**
+ * Accept a single downloadable product file in the "file" multipart field
+ */
+export const uploadDigitalFile = digitalFileUpload.single('file');
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import { AttributeController } from '@/controllers/attribute.controller';
+import { authenticate, requireAdmin } from '@/middlewares/auth';
+import { validateBody, validateParams } from '@/middlewares/validation';
+import { adminLimiter } from '@/middlewares/rateLimit';
+import {
+  createAttributeSchema,
+  updateAttributeSchema,
+  attributeIdSchema
+} from '@/utils/validation';
+
+const router = Router();
+const attributeController = new AttributeController();
+
+/**
+ * Attribute Routes
+ */
+
+// Public routes
+router.get('/',
+  attributeController.getAttributes
+);
+
+router.get('/:id',
+  validateParams(attributeIdSchema),
+  attributeController.getAttributeById
+);
+
+// Admin-only routes
+router.use(authenticate);
+router.use(requireAdmin);
+router.use(adminLimiter);
+
+router.post('/',
+  validateBody(createAttributeSchema),
+  attributeController.createAttribute
+);
+
+router.put('/:id',
+  validateParams(attributeIdSchema),
+  validateBody(updateAttributeSchema),
+  attributeController.updateAttribute
+);
+
+router.delete('/:id',
+  validateParams(attributeIdSchema),
+  attributeController.deleteAttribute
+);
+
+export { router as attributeRoutes };
\ No newline at end of file
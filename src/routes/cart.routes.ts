@@ -40,7 +40,7 @@ router.post('/remove',
 // Update cart item quantity
 router.put('/item/:productId',
   validateParams(productIdSchema),
-  validateBody(addToCartSchema.pick({ quantity: true })),
+  validateBody(addToCartSchema.pick({ quantity: true, variantId: true })),
   cartController.updateCartItemQuantity
 );
 
@@ -64,6 +64,11 @@ router.get('/validate',
   cartController.validateCart
 );
 
+// Begin checkout (reserve the cart's stock)
+router.post('/checkout',
+  cartController.beginCheckout
+);
+
 // Clean up cart (remove unavailable items)
 router.post('/cleanup',
   cartController.cleanupCart
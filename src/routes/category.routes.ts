@@ -0,0 +1,81 @@
+import { Router } from 'express';
+import { CategoryController } from '@/controllers/category.controller';
+import { TranslationController } from '@/controllers/translation.controller';
+import { authenticate, requireAdmin } from '@/middlewares/auth';
+import { validateBody, validateParams, validateQuery } from '@/middlewares/validation';
+import { adminLimiter } from '@/middlewares/rateLimit';
+import {
+  createCategorySchema,
+  updateCategorySchema,
+  categoryIdSchema,
+  localeQuerySchema,
+  categoryLocaleParamSchema,
+  setCategoryTranslationSchema
+} from '@/utils/validation';
+import { z } from 'zod';
+
+const router = Router();
+const categoryController = new CategoryController();
+const translationController = new TranslationController();
+
+/**
+ * Category Routes
+ */
+
+// Public routes
+router.get('/',
+  validateQuery(z.object({
+    parentId: z.union([z.literal('root'), z.string().cuid('Invalid parent category ID')]).optional()
+  }).merge(localeQuerySchema)),
+  categoryController.getCategories
+);
+
+router.get('/tree',
+  validateQuery(localeQuerySchema),
+  categoryController.getCategoryTree
+);
+
+router.get('/:id',
+  validateParams(categoryIdSchema),
+  validateQuery(localeQuerySchema),
+  categoryController.getCategoryById
+);
+
+// Admin-only routes
+router.use(authenticate);
+router.use(requireAdmin);
+router.use(adminLimiter);
+
+router.post('/',
+  validateBody(createCategorySchema),
+  categoryController.createCategory
+);
+
+router.put('/:id',
+  validateParams(categoryIdSchema),
+  validateBody(updateCategorySchema),
+  categoryController.updateCategory
+);
+
+router.delete('/:id',
+  validateParams(categoryIdSchema),
+  categoryController.deleteCategory
+);
+
+router.get('/:id/translations',
+  validateParams(categoryIdSchema),
+  translationController.getCategoryTranslations
+);
+
+router.put('/:id/translations/:locale',
+  validateParams(categoryLocaleParamSchema),
+  validateBody(setCategoryTranslationSchema),
+  translationController.setCategoryTranslation
+);
+
+router.delete('/:id/translations/:locale',
+  validateParams(categoryLocaleParamSchema),
+  translationController.deleteCategoryTranslation
+);
+
+export { router as categoryRoutes };
\ No newline at end of file
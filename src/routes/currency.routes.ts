@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import { CurrencyController } from '@/controllers/currency.controller';
+import { authenticate, requireAdmin } from '@/middlewares/auth';
+import { validateBody, validateParams } from '@/middlewares/validation';
+import { adminLimiter } from '@/middlewares/rateLimit';
+import { currencyParamSchema, setExchangeRateSchema } from '@/utils/validation';
+
+const router = Router();
+const currencyController = new CurrencyController();
+
+/**
+ * Currency Routes
+ */
+
+// Public routes
+router.get('/',
+  currencyController.getCurrencies
+);
+
+// Admin-only routes
+router.use(authenticate);
+router.use(requireAdmin);
+router.use(adminLimiter);
+
+router.put('/:code',
+  validateParams(currencyParamSchema),
+  validateBody(setExchangeRateSchema),
+  currencyController.setExchangeRate
+);
+
+router.delete('/:code',
+  validateParams(currencyParamSchema),
+  currencyController.deleteExchangeRate
+);
+
+export { router as currencyRoutes };
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { DigitalController } from '@/controllers/digital.controller';
+import { validateParams, validateQuery } from '@/middlewares/validation';
+import { downloadLinkIdSchema, downloadSignatureSchema } from '@/utils/validation';
+
+const router = Router();
+const digitalController = new DigitalController();
+
+/**
+ * Download Routes - Public; the signed link is the credential
+ */
+
+router.get('/:id',
+  validateParams(downloadLinkIdSchema),
+  validateQuery(downloadSignatureSchema),
+  digitalController.download
+);
+
+export { router as downloadRoutes };
\ No newline at end of file
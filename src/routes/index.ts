@@ -1,8 +1,16 @@
 import { Router } from 'express';
 import { authRoutes } from './auth.routes';
 import { productRoutes } from './product.routes';
+import { categoryRoutes } from './category.routes';
+import { attributeRoutes } from './attribute.routes';
 import { cartRoutes } from './cart.routes';
+import { wishlistRoutes } from './wishlist.routes';
 import { orderRoutes } from './order.routes';
+import { reviewRoutes } from './review.routes';
+import { questionRoutes } from './question.routes';
+import { recommendationRoutes } from './recommendation.routes';
+import { downloadRoutes } from './download.routes';
+import { currencyRoutes } from './currency.routes';
 import { ResponseUtils } from '@/utils/response';
 
 const router = Router();
@@ -25,9 +33,43 @@ router.get('/', (req, res) => {
       products: {
         list: 'GET /api/products',
         details: 'GET /api/products/:id',
+        bySlug: 'GET /api/products/by-slug/:slug',
+        related: 'GET /api/products/:id/related',
+        recentlyViewed: 'GET /api/products/recently-viewed',
         create: 'POST /api/products (Admin)',
         update: 'PUT /api/products/:id (Admin)',
-        delete: 'DELETE /api/products/:id (Admin)'
+        delete: 'DELETE /api/products/:id (Admin)',
+        prices: 'GET /api/products/:id/prices (Admin)',
+        setPrice: 'PUT /api/products/:id/prices/:currency (Admin)',
+        deletePrice: 'DELETE /api/products/:id/prices/:currency (Admin)',
+        translations: 'GET /api/products/:id/translations (Admin)',
+        translate: 'PUT /api/products/:id/translations/:locale (Admin)',
+        deleteTranslation: 'DELETE /api/products/:id/translations/:locale (Admin)'
+      },
+      currencies: {
+        list: 'GET /api/currencies',
+        setRate: 'PUT /api/currencies/:code (Admin)',
+        delete: 'DELETE /api/currencies/:code (Admin)'
+      },
+      categories: {
+        list: 'GET /api/categories',
+        tree: 'GET /api/categories/tree',
+        details: 'GET /api/categories/:id',
+        create: 'POST /api/categories (Admin)',
+        update: 'PUT /api/categories/:id (Admin)',
+        delete: 'DELETE /api/categories/:id (Admin)',
+        translations: 'GET /api/categories/:id/translations (Admin)',
+        translate: 'PUT /api/categories/:id/translations/:locale (Admin)',
+        deleteTranslation: 'DELETE /api/categories/:id/translations/:locale (Admin)'
+      },
+      attributes: {
+        list: 'GET /api/attributes',
+        details: 'GET /api/attributes/:id',
+        create: 'POST /api/attributes (Admin)',
+        update: 'PUT /api/attributes/:id (Admin)',
+        delete: 'DELETE /api/attributes/:id (Admin)',
+        productValues: 'GET /api/products/:id/attributes',
+        setProductValues: 'PUT /api/products/:id/attributes (Admin)'
       },
       cart: {
         get: 'GET /api/cart',
@@ -36,11 +78,54 @@ router.get('/', (req, res) => {
         remove: 'DELETE /api/cart/items/:productId',
         clear: 'DELETE /api/cart/clear'
       },
+      wishlists: {
+        list: 'GET /api/wishlists',
+        create: 'POST /api/wishlists',
+        details: 'GET /api/wishlists/:id',
+        addItem: 'POST /api/wishlists/:id/items',
+        moveToCart: 'POST /api/wishlists/:id/items/:itemId/move-to-cart',
+        share: 'POST /api/wishlists/:id/share',
+        shared: 'GET /api/wishlists/shared/:token'
+      },
       orders: {
         list: 'GET /api/orders',
         details: 'GET /api/orders/:id',
         create: 'POST /api/orders',
-        cancel: 'PATCH /api/orders/:id/cancel'
+        cancel: 'PATCH /api/orders/:id/cancel',
+        downloads: 'GET /api/orders/:id/downloads'
+      },
+      downloads: {
+        download: 'GET /api/downloads/:id?expires=&signature='
+      },
+      reviews: {
+        list: 'GET /api/products/:id/reviews',
+        create: 'POST /api/products/:id/reviews',
+        mine: 'GET /api/reviews/mine',
+        update: 'PUT /api/reviews/:id',
+        delete: 'DELETE /api/reviews/:id',
+        moderation: 'GET /api/reviews (Admin)',
+        moderate: 'PATCH /api/reviews/:id/status (Admin)'
+      },
+      questions: {
+        list: 'GET /api/products/:id/questions',
+        ask: 'POST /api/products/:id/questions',
+        mine: 'GET /api/questions/mine',
+        delete: 'DELETE /api/questions/:id',
+        answer: 'POST /api/questions/:id/answers',
+        deleteAnswer: 'DELETE /api/questions/answers/:id',
+        upvote: 'POST /api/questions/answers/:id/upvote',
+        removeUpvote: 'DELETE /api/questions/answers/:id/upvote',
+        moderation: 'GET /api/questions (Admin)',
+        moderate: 'PATCH /api/questions/:id/status (Admin)'
+      },
+      stockNotifications: {
+        mine: 'GET /api/products/stock-subscriptions',
+        subscribe: 'POST /api/products/:id/stock-subscription',
+        unsubscribe: 'DELETE /api/products/:id/stock-subscription'
+      },
+      recommendations: {
+        personalized: 'GET /api/recommendations',
+        related: 'GET /api/products/:id/related'
       }
     }
   }, 'Available API endpoints');
@@ -60,7 +145,15 @@ router.get('/health', (req, res) => {
 // API endpoints
 router.use('/auth', authRoutes);
 router.use('/products', productRoutes);
+router.use('/categories', categoryRoutes);
+router.use('/attributes', attributeRoutes);
 router.use('/cart', cartRoutes);
+router.use('/wishlists', wishlistRoutes);
 router.use('/orders', orderRoutes);
+router.use('/reviews', reviewRoutes);
+router.use('/questions', questionRoutes);
+router.use('/recommendations', recommendationRoutes);
+router.use('/downloads', downloadRoutes);
+router.use('/currencies', currencyRoutes);
 
 export { router as apiRoutes };
\ No newline at end of file
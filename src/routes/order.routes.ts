@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { OrderController } from '@/controllers/order.controller';
+import { DigitalController } from '@/controllers/digital.controller';
 import { authenticate, requireAdmin, requireAuthenticated } from '@/middlewares/auth';
 import { validateBody, validateParams, validateQuery } from '@/middlewares/validation';
 import { orderLimiter, orderCancellationLimiter } from '@/middlewares/rateLimit';
@@ -7,12 +8,14 @@ import {
   createOrderSchema,
   updateOrderStatusSchema,
   orderIdSchema,
-  paginationSchema
+  paginationSchema,
+  orderFilterSchema
 } from '@/utils/validation';
 import { z } from 'zod';
 
 const router = Router();
 const orderController = new OrderController();
+const digitalController = new DigitalController();
 
 /**
  * Order Routes - All routes require authentication
@@ -30,9 +33,7 @@ router.post('/',
 
 // Get orders (user's own orders or all orders for admin)
 router.get('/',
-  validateQuery(paginationSchema.extend({
-    status: z.enum(['PENDING', 'SHIPPED', 'DELIVERED', 'CANCELLED']).optional()
-  })),
+  validateQuery(paginationSchema.merge(orderFilterSchema)),
   orderController.getOrders
 );
 
@@ -42,6 +43,12 @@ router.get('/:id',
   orderController.getOrderById
 );
 
+// Get license keys and download links of an order
+router.get('/:id/downloads',
+  validateParams(orderIdSchema),
+  digitalController.getOrderDownloads
+);
+
 // Cancel order (customers can cancel their own pending orders)
 router.patch('/:id/cancel',
   orderCancellationLimiter,
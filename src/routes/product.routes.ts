@@ -1,18 +1,69 @@
 import { Router } from 'express';
 import { ProductController } from '@/controllers/product.controller';
-import { authenticate, requireAdmin, optionalAuth } from '@/middlewares/auth';
+import { VariantController } from '@/controllers/variant.controller';
+import { MediaController } from '@/controllers/media.controller';
+import { ReviewController } from '@/controllers/review.controller';
+import { CatalogController } from '@/controllers/catalog.controller';
+import { AttributeController } from '@/controllers/attribute.controller';
+import { BundleController } from '@/controllers/bundle.controller';
+import { RecommendationController } from '@/controllers/recommendation.controller';
+import { DigitalController } from '@/controllers/digital.controller';
+import { CurrencyController } from '@/controllers/currency.controller';
+import { TranslationController } from '@/controllers/translation.controller';
+import { QuestionController } from '@/controllers/question.controller';
+import { RestockController } from '@/controllers/restock.controller';
+import { authenticate, requireAdmin, requireCustomer, requireAuthenticated, optionalAuth } from '@/middlewares/auth';
 import { validateBody, validateParams, validateQuery } from '@/middlewares/validation';
 import { adminLimiter } from '@/middlewares/rateLimit';
+import { uploadProductImages, uploadImportFile, uploadDigitalFile } from '@/middlewares/upload';
 import { 
   createProductSchema,
   updateProductSchema,
   productIdSchema,
+  productSlugSchema,
   paginationSchema,
-  productFilterSchema
+  productFilterSchema,
+  createProductOptionSchema,
+  generateVariantsSchema,
+  updateVariantSchema,
+  productOptionIdSchema,
+  productVariantIdSchema,
+  uploadProductMediaSchema,
+  updateProductMediaSchema,
+  reorderProductMediaSchema,
+  productMediaIdSchema,
+  createReviewSchema,
+  importProductsQuerySchema,
+  exportProductsQuerySchema,
+  setProductAttributesSchema,
+  setBundleComponentsSchema,
+  relatedProductsQuerySchema,
+  recentlyViewedQuerySchema,
+  addLicenseKeysSchema,
+  currencyQuerySchema,
+  productCurrencyParamSchema,
+  setProductPriceSchema,
+  productLocaleParamSchema,
+  setProductTranslationSchema,
+  localeQuerySchema,
+  createQuestionSchema,
+  productDetailQuerySchema
 } from '@/utils/validation';
 
 const router = Router();
 const productController = new ProductController();
+const variantController = new VariantController();
+const mediaController = new MediaController();
+const reviewController = new ReviewController();
+const catalogController = new CatalogController();
+const attributeController = new AttributeController();
+const bundleController = new BundleController();
+const recommendationController = new RecommendationController();
+const digitalController = new DigitalController();
+const currencyController = new CurrencyController();
+const translationController = new TranslationController();
+const questionController = new QuestionController();
+const restockController = new RestockController();
 
 /**
  * Product Routes
@@ -21,16 +72,113 @@ const productController = new ProductController();
 // Public routes (optional authentication for admin features)
 router.get('/',
   optionalAuth,
-  validateQuery(paginationSchema.merge(productFilterSchema)),
+  validateQuery(paginationSchema.merge(productFilterSchema).merge(currencyQuerySchema)),
   productController.getProducts
 );
 
+router.get('/recently-viewed',
+  optionalAuth,
+  validateQuery(recentlyViewedQuerySchema.merge(currencyQuerySchema)),
+  productController.getRecentlyViewed
+);
+
+router.get('/stock-subscriptions',
+  authenticate,
+  requireCustomer,
+  restockController.getMySubscriptions
+);
+
+router.get('/by-slug/:slug',
+  optionalAuth,
+  validateParams(productSlugSchema),
+  validateQuery(productDetailQuerySchema.merge(currencyQuerySchema).merge(localeQuerySchema)),
+  productController.getProductBySlug
+);
+
 router.get('/:id',
   optionalAuth,
   validateParams(productIdSchema),
+  validateQuery(productDetailQuerySchema.merge(currencyQuerySchema).merge(localeQuerySchema)),
   productController.getProductById
 );
 
+router.get('/:id/options',
+  validateParams(productIdSchema),
+  variantController.getOptions
+);
+
+router.get('/:id/variants',
+  optionalAuth,
+  validateParams(productIdSchema),
+  variantController.getVariants
+);
+
+router.get('/:id/media',
+  validateParams(productIdSchema),
+  mediaController.getProductMedia
+);
+
+router.get('/:id/attributes',
+  optionalAuth,
+  validateParams(productIdSchema),
+  attributeController.getProductAttributes
+);
+
+router.get('/:id/components',
+  optionalAuth,
+  validateParams(productIdSchema),
+  bundleController.getComponents
+);
+
+router.get('/:id/related',
+  validateParams(productIdSchema),
+  validateQuery(relatedProductsQuerySchema.merge(currencyQuerySchema)),
+  recommendationController.getRelatedProducts
+);
+
+router.get('/:id/reviews',
+  validateParams(productIdSchema),
+  validateQuery(paginationSchema),
+  reviewController.getProductReviews
+);
+
+router.get('/:id/questions',
+  validateParams(productIdSchema),
+  validateQuery(paginationSchema),
+  questionController.getProductQuestions
+);
+
+// Customer routes
+router.post('/:id/reviews',
+  authenticate,
+  requireCustomer,
+  validateParams(productIdSchema),
+  validateBody(createReviewSchema),
+  reviewController.createReview
+);
+
+router.post('/:id/questions',
+  authenticate,
+  requireAuthenticated,
+  validateParams(productIdSchema),
+  validateBody(createQuestionSchema),
+  questionController.askQuestion
+);
+
+router.post('/:id/stock-subscription',
+  authenticate,
+  requireCustomer,
+  validateParams(productIdSchema),
+  restockController.subscribe
+);
+
+router.delete('/:id/stock-subscription',
+  authenticate,
+  requireCustomer,
+  validateParams(productIdSchema),
+  restockController.unsubscribe
+);
+
 // Admin-only routes
 router.use(authenticate);
 router.use(requireAdmin);
@@ -52,11 +200,145 @@ router.delete('/:id',
   productController.deleteProduct
 );
 
+router.get('/:id/price-history',
+  validateParams(productIdSchema),
+  validateQuery(paginationSchema),
+  productController.getPriceHistory
+);
+
 router.patch('/:id/restore',
   validateParams(productIdSchema),
   productController.restoreProduct
 );
 
+router.post('/:id/options',
+  validateParams(productIdSchema),
+  validateBody(createProductOptionSchema),
+  variantController.addOption
+);
+
+router.delete('/:id/options/:optionId',
+  validateParams(productOptionIdSchema),
+  variantController.deleteOption
+);
+
+router.post('/:id/variants/generate',
+  validateParams(productIdSchema),
+  validateBody(generateVariantsSchema),
+  variantController.generateVariants
+);
+
+router.put('/:id/variants/:variantId',
+  validateParams(productVariantIdSchema),
+  validateBody(updateVariantSchema),
+  variantController.updateVariant
+);
+
+router.delete('/:id/variants/:variantId',
+  validateParams(productVariantIdSchema),
+  variantController.deleteVariant
+);
+
+router.post('/:id/media',
+  validateParams(productIdSchema),
+  uploadProductImages,
+  validateBody(uploadProductMediaSchema),
+  mediaController.uploadProductMedia
+);
+
+router.put('/:id/media/order',
+  validateParams(productIdSchema),
+  validateBody(reorderProductMediaSchema),
+  mediaController.reorderMedia
+);
+
+router.patch('/:id/media/:mediaId',
+  validateParams(productMediaIdSchema),
+  validateBody(updateProductMediaSchema),
+  mediaController.updateMedia
+);
+
+router.delete('/:id/media/:mediaId',
+  validateParams(productMediaIdSchema),
+  mediaController.deleteMedia
+);
+
+router.put('/:id/attributes',
+  validateParams(productIdSchema),
+  validateBody(setProductAttributesSchema),
+  attributeController.setProductAttributes
+);
+
+router.put('/:id/components',
+  validateParams(productIdSchema),
+  validateBody(setBundleComponentsSchema),
+  bundleController.setComponents
+);
+
+router.delete('/:id/components',
+  validateParams(productIdSchema),
+  bundleController.removeComponents
+);
+
+router.get('/:id/digital',
+  validateParams(productIdSchema),
+  digitalController.getDigitalAssets
+);
+
+router.put('/:id/digital/file',
+  validateParams(productIdSchema),
+  uploadDigitalFile,
+  digitalController.uploadFile
+);
+
+router.delete('/:id/digital/file',
+  validateParams(productIdSchema),
+  digitalController.deleteFile
+);
+
+router.post('/:id/license-keys',
+  validateParams(productIdSchema),
+  validateBody(addLicenseKeysSchema),
+  digitalController.addLicenseKeys
+);
+
+router.delete('/:id/license-keys',
+  validateParams(productIdSchema),
+  digitalController.removeLicenseKeys
+);
+
+router.get('/:id/prices',
+  validateParams(productIdSchema),
+  currencyController.getProductPrices
+);
+
+router.put('/:id/prices/:currency',
+  validateParams(productCurrencyParamSchema),
+  validateBody(setProductPriceSchema),
+  currencyController.setProductPrice
+);
+
+router.delete('/:id/prices/:currency',
+  validateParams(productCurrencyParamSchema),
+  currencyController.deleteProductPrice
+);
+
+router.get('/:id/translations',
+  validateParams(productIdSchema),
+  translationController.getProductTranslations
+);
+
+router.put('/:id/translations/:locale',
+  validateParams(productLocaleParamSchema),
+  validateBody(setProductTranslationSchema),
+  translationController.setProductTranslation
+);
+
+router.delete('/:id/translations/:locale',
+  validateParams(productLocaleParamSchema),
+  translationController.deleteProductTranslation
+);
+
 router.get('/admin/low-stock',
   productController.getLowStockProducts
 );
@@ -65,6 +347,29 @@ router.get('/admin/statistics',
   productController.getProductStatistics
 );
 
+router.post('/admin/import',
+  validateQuery(importProductsQuerySchema),
+  uploadImportFile,
+  catalogController.importProducts
+);
+
+router.get('/admin/export',
+  validateQuery(exportProductsQuerySchema),
+  catalogController.exportProducts
+);
+
+router.post('/admin/search/reindex',
+  productController.reindexSearch
+);
+
+router.post('/admin/publication/run',
+  productController.applyPublicationSchedule
+);
+
+router.post('/admin/related/refresh',
+  recommendationController.refreshRelatedProducts
+);
+
 router.put('/admin/bulk-update-stock',
   validateBody(createProductSchema.pick({ stock: true }).extend({
     updates: createProductSchema.pick({ stock: true }).extend({
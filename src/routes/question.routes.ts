@@ -0,0 +1,76 @@
+import { Router } from 'express';
+import { QuestionController } from '@/controllers/question.controller';
+import { authenticate, requireAdmin, requireAuthenticated } from '@/middlewares/auth';
+import { validateBody, validateParams, validateQuery } from '@/middlewares/validation';
+import { adminLimiter } from '@/middlewares/rateLimit';
+import {
+  createAnswerSchema,
+  moderateQuestionSchema,
+  questionIdSchema,
+  answerIdSchema,
+  questionFilterSchema,
+  paginationSchema
+} from '@/utils/validation';
+
+const router = Router();
+const questionController = new QuestionController();
+
+/**
+ * Question Routes - All routes require authentication.
+ * Product questions are listed and asked under /products/:id/questions.
+ */
+
+router.use(authenticate);
+router.use(requireAuthenticated);
+
+// Get the current user's questions
+router.get('/mine',
+  questionController.getMyQuestions
+);
+
+// Delete own answer (admins can delete any answer)
+router.delete('/answers/:id',
+  validateParams(answerIdSchema),
+  questionController.deleteAnswer
+);
+
+router.post('/answers/:id/upvote',
+  validateParams(answerIdSchema),
+  questionController.upvoteAnswer
+);
+
+router.delete('/answers/:id/upvote',
+  validateParams(answerIdSchema),
+  questionController.removeUpvote
+);
+
+// Delete own question (admins can delete any question)
+router.delete('/:id',
+  validateParams(questionIdSchema),
+  questionController.deleteQuestion
+);
+
+// Answer a question (admins, and verified buyers when enabled)
+router.post('/:id/answers',
+  validateParams(questionIdSchema),
+  validateBody(createAnswerSchema),
+  questionController.answerQuestion
+);
+
+// Admin-only moderation routes
+router.get('/',
+  requireAdmin,
+  adminLimiter,
+  validateQuery(paginationSchema.merge(questionFilterSchema)),
+  questionController.getQuestionsForModeration
+);
+
+router.patch('/:id/status',
+  requireAdmin,
+  adminLimiter,
+  validateParams(questionIdSchema),
+  validateBody(moderateQuestionSchema),
+  questionController.moderateQuestion
+);
+
+export { router as questionRoutes };
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { RecommendationController } from '@/controllers/recommendation.controller';
+import { authenticate, requireCustomer } from '@/middlewares/auth';
+import { validateQuery } from '@/middlewares/validation';
+import { recommendationsQuerySchema, currencyQuerySchema } from '@/utils/validation';
+
+const router = Router();
+const recommendationController = new RecommendationController();
+
+/**
+ * Recommendation Routes - All routes require authentication as a customer
+ */
+
+router.use(authenticate);
+router.use(requireCustomer);
+
+// Get personalized recommendations
+router.get('/',
+  validateQuery(recommendationsQuerySchema.merge(currencyQuerySchema)),
+  recommendationController.getRecommendations
+);
+
+export { router as recommendationRoutes };
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { Router } from 'express';
+import { ReviewController } from '@/controllers/review.controller';
+import { authenticate, requireAdmin, requireCustomer, requireAuthenticated } from '@/middlewares/auth';
+import { validateBody, validateParams, validateQuery } from '@/middlewares/validation';
+import { adminLimiter } from '@/middlewares/rateLimit';
+import {
+  updateReviewSchema,
+  moderateReviewSchema,
+  reviewIdSchema,
+  reviewFilterSchema,
+  paginationSchema
+} from '@/utils/validation';
+
+const router = Router();
+const reviewController = new ReviewController();
+
+/**
+ * Review Routes - All routes require authentication.
+ * Product reviews are listed and created under /products/:id/reviews.
+ */
+
+router.use(authenticate);
+router.use(requireAuthenticated);
+
+// Get the current customer's reviews
+router.get('/mine',
+  requireCustomer,
+  reviewController.getMyReviews
+);
+
+// Edit own review
+router.put('/:id',
+  requireCustomer,
+  validateParams(reviewIdSchema),
+  validateBody(updateReviewSchema),
+  reviewController.updateReview
+);
+
+// Delete own review (admins can delete any review)
+router.delete('/:id',
+  validateParams(reviewIdSchema),
+  reviewController.deleteReview
+);
+
+// Admin-only moderation routes
+router.get('/',
+  requireAdmin,
+  adminLimiter,
+  validateQuery(paginationSchema.merge(reviewFilterSchema)),
+  reviewController.getReviewsForModeration
+);
+
+router.patch('/:id/status',
+  requireAdmin,
+  adminLimiter,
+  validateParams(reviewIdSchema),
+  validateBody(moderateReviewSchema),
+  reviewController.moderateReview
+);
+
+export { router as reviewRoutes };
\ No newline at end of file
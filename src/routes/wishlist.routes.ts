@@ -0,0 +1,95 @@
+import { Router } from 'express';
+import { WishlistController } from '@/controllers/wishlist.controller';
+import { authenticate, requireCustomer } from '@/middlewares/auth';
+import { validateBody, validateParams } from '@/middlewares/validation';
+import { cartLimiter } from '@/middlewares/rateLimit';
+import {
+  createWishlistSchema,
+  updateWishlistSchema,
+  wishlistIdSchema,
+  wishlistItemIdSchema,
+  wishlistShareTokenSchema,
+  addWishlistItemSchema,
+  moveWishlistItemToCartSchema
+} from '@/utils/validation';
+
+const router = Router();
+const wishlistController = new WishlistController();
+
+/**
+ * Wishlist Routes
+ */
+
+// Public route for shared wishlists
+router.get('/shared/:token',
+  validateParams(wishlistShareTokenSchema),
+  wishlistController.getSharedWishlist
+);
+
+// All other routes require authentication as a customer
+router.use(authenticate);
+router.use(requireCustomer);
+router.use(cartLimiter);
+
+// Get wishlists
+router.get('/',
+  wishlistController.getWishlists
+);
+
+// Create wishlist
+router.post('/',
+  validateBody(createWishlistSchema),
+  wishlistController.createWishlist
+);
+
+// Get wishlist with items
+router.get('/:id',
+  validateParams(wishlistIdSchema),
+  wishlistController.getWishlist
+);
+
+// Rename wishlist
+router.put('/:id',
+  validateParams(wishlistIdSchema),
+  validateBody(updateWishlistSchema),
+  wishlistController.updateWishlist
+);
+
+// Delete wishlist
+router.delete('/:id',
+  validateParams(wishlistIdSchema),
+  wishlistController.deleteWishlist
+);
+
+// Add product to wishlist
+router.post('/:id/items',
+  validateParams(wishlistIdSchema),
+  validateBody(addWishlistItemSchema),
+  wishlistController.addItem
+);
+
+// Remove product from wishlist
+router.delete('/:id/items/:itemId',
+  validateParams(wishlistItemIdSchema),
+  wishlistController.removeItem
+);
+
+// Move wishlist item to cart
+router.post('/:id/items/:itemId/move-to-cart',
+  validateParams(wishlistItemIdSchema),
+  validateBody(moveWishlistItemToCartSchema),
+  wishlistController.moveItemToCart
+);
+
+// Share wishlist / stop sharing
+router.post('/:id/share',
+  validateParams(wishlistIdSchema),
+  wishlistController.enableSharing
+);
+
+router.delete('/:id/share',
+  validateParams(wishlistIdSchema),
+  wishlistController.disableSharing
+);
+
+export { router as wishlistRoutes };
\ No newline at end of file
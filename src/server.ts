@@ -1,6 +1,7 @@
 import { app } from './app';
 import { config } from '@/config';
 import { prisma } from '@/config/database';
+import { startBackgroundJobs, stopBackgroundJobs } from '@/jobs';
 
 const startServer = async (): Promise<void> => {
   try {
@@ -19,11 +20,15 @@ const startServer = async (): Promise<void> => {
       
       console.log(`API Base URL: http://localhost:${config.port}/api`);
       console.log(`Health Check: http://localhost:${config.port}/api/health`);
+
+      startBackgroundJobs();
     });
 
     // Graceful shutdown
     const gracefulShutdown = (signal: string) => {
       console.log(`\n⚠️  Received ${signal}. Starting graceful shutdown...`);
+
+      stopBackgroundJobs();
       
       server.close(async () => {
         console.log('🛑 HTTP server closed');
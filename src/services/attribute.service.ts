@@ -0,0 +1,330 @@
+import { PrismaClient, Prisma, Attribute, AttributeType, ProductAttributeValue } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { ApiError } from '@/utils/response';
+import { PublicationUtils } from '@/utils/publication';
+import {
+  CreateAttributeInput,
+  UpdateAttributeInput,
+  SetProductAttributesInput,
+  AttributeFilterInput,
+} from '@/utils/validation';
+
+export type AttributeValue = string | number | boolean;
+
+export interface ProductAttribute {
+  code: string;
+  name: string;
+  type: AttributeType;
+  unit: string | null;
+  value: AttributeValue;
+}
+
+type AttributeValueColumns = Pick<ProductAttributeValue, 'textValue' | 'numberValue' | 'booleanValue'>;
+
+export class AttributeService {
+  private db: PrismaClient;
+
+  constructor() {
+    this.db = prisma;
+  }
+
+  /**
+   * Create an attribute definition (Admin only)
+   */
+  async createAttribute(data: CreateAttributeInput): Promise<Attribute> {
+    await this.ensureUniqueCode(data.code);
+
+    return this.db.attribute.create({
+      data: {
+        code: data.code,
+        name: data.name,
+        type: data.type,
+        unit: data.unit,
+        options: data.options ?? [],
+        isFilterable: data.isFilterable,
+      },
+    });
+  }
+
+  /**
+   * Get all attribute definitions with the number of products using them
+   */
+  async getAttributes(): Promise<any[]> {
+    return this.db.attribute.findMany({
+      include: {
+        _count: {
+          select: { values: true },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /**
+   * Get attribute definition by ID
+   */
+  async getAttributeById(id: string): Promise<Attribute> {
+    const attribute = await this.db.attribute.findUnique({
+      where: { id },
+    });
+
+    if (!attribute) {
+      throw ApiError.notFound('Attribute not found');
+    }
+
+    return attribute;
+  }
+
+  /**
+   * Update an attribute definition (Admin only). Enum options that products
+   * still use cannot be removed.
+   */
+  async updateAttribute(id: string, data: UpdateAttributeInput): Promise<Attribute> {
+    const attribute = await this.getAttributeById(id);
+
+    if (data.options !== undefined) {
+      if (attribute.type !== 'ENUM') {
+        throw ApiError.badRequest('Only enum attributes have options');
+      }
+
+      if (data.options.length === 0) {
+        throw ApiError.badRequest('Enum attributes need at least one option');
+      }
+
+      const removedOptions = attribute.options.filter(option => !data.options!.includes(option));
+
+      if (removedOptions.length > 0) {
+        const inUse = await this.db.productAttributeValue.findMany({
+          where: { attributeId: id, textValue: { in: removedOptions } },
+          distinct: ['textValue'],
+          select: { textValue: true },
+        });
+
+        if (inUse.length > 0) {
+          throw ApiError.conflict(
+            `Options still used by products cannot be removed: ${inUse.map(value => value.textValue).join(', ')}`
+          );
+        }
+      }
+    }
+
+    return this.db.attribute.update({
+      where: { id },
+      data: {
+        name: data.name,
+        unit: data.unit,
+        options: data.options,
+        isFilterable: data.isFilterable,
+      },
+    });
+  }
+
+  /**
+   * Delete an attribute definition together with its product values (Admin only)
+   */
+  async deleteAttribute(id: string): Promise<void> {
+    await this.getAttributeById(id);
+
+    await this.db.attribute.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Get the attribute values of a product
+   */
+  async getProductAttributes(productId: string, includeInactive = false): Promise<ProductAttribute[]> {
+    const product = await this.db.product.findFirst({
+      where: { id: productId, ...(!includeInactive && PublicationUtils.visibleWhere()) },
+      select: {
+        attributeValues: {
+          include: { attribute: true },
+        },
+      },
+    });
+
+    if (!product) {
+      throw ApiError.notFound('Product not found');
+    }
+
+    return this.toProductAttributes(product.attributeValues);
+  }
+
+  /**
+   * Set attribute values of a product by attribute code (Admin only).
+   * Attributes not mentioned are left unchanged; null removes a value.
+   */
+  async setProductAttributes(productId: string, data: SetProductAttributesInput): Promise<ProductAttribute[]> {
+    const product = await this.db.product.findUnique({
+      where: { id: productId },
+      select: { id: true },
+    });
+
+    if (!product) {
+      throw ApiError.notFound('Product not found');
+    }
+
+    const attributesByCode = await this.getAttributesByCode(Object.keys(data.values));
+
+    await this.db.$transaction(async (tx) => {
+      for (const [code, value] of Object.entries(data.values)) {
+        const attribute = attributesByCode.get(code)!;
+
+        if (value === null) {
+          await tx.productAttributeValue.deleteMany({
+            where: { productId, attributeId: attribute.id },
+          });
+          continue;
+        }
+
+        const columns = this.toValueColumns(attribute, value);
+
+        await tx.productAttributeValue.upsert({
+          where: {
+            productId_attributeId: { productId, attributeId: attribute.id },
+          },
+          update: columns,
+          create: { productId, attributeId: attribute.id, ...columns },
+        });
+      }
+    });
+
+    return this.getProductAttributes(productId, true);
+  }
+
+  /**
+   * Turn attribute filters from a product listing into Prisma conditions,
+   * one per attribute, to be combined with AND
+   */
+  async buildFilterConditions(filters: AttributeFilterInput): Promise<Prisma.ProductWhereInput[]> {
+    const attributesByCode = await this.getAttributesByCode(Object.keys(filters));
+
+    return Object.entries(filters).map(([code, filter]) => {
+      const attribute = attributesByCode.get(code)!;
+      const { in: values, ...range } = filter;
+      const hasRange = Object.keys(range).length > 0;
+      const valueFilter: Prisma.ProductAttributeValueWhereInput = { attributeId: attribute.id };
+
+      if (hasRange && attribute.type !== 'NUMBER') {
+        throw ApiError.badRequest(`Range filters are only supported on number attributes, "${code}" is ${attribute.type.toLowerCase()}`);
+      }
+
+      switch (attribute.type) {
+        case 'TEXT':
+        case 'ENUM':
+          valueFilter.textValue = { in: values!, mode: 'insensitive' };
+          break;
+
+        case 'NUMBER': {
+          const numbers = values?.map(value => Number(value));
+
+          if (numbers?.some(value => !Number.isFinite(value))) {
+            throw ApiError.badRequest(`Values for "${code}" must be numbers`);
+          }
+
+          valueFilter.numberValue = { ...(numbers && { in: numbers }), ...range };
+          break;
+        }
+
+        case 'BOOLEAN':
+          if (values!.some(value => value !== 'true' && value !== 'false')) {
+            throw ApiError.badRequest(`Values for "${code}" must be true or false`);
+          }
+
+          // Asking for both true and false matches any product that has a value
+          valueFilter.booleanValue = new Set(values).size > 1
+            ? { not: null }
+            : { equals: values![0] === 'true' };
+          break;
+      }
+
+      return { attributeValues: { some: valueFilter } };
+    });
+  }
+
+  /**
+   * Format stored values for API responses, in attribute name order
+   */
+  toProductAttributes(values: Array<ProductAttributeValue & { attribute: Attribute }>): ProductAttribute[] {
+    return values
+      .map(value => ({
+        code: value.attribute.code,
+        name: value.attribute.name,
+        type: value.attribute.type,
+        unit: value.attribute.unit,
+        value: (value.textValue ?? value.numberValue ?? value.booleanValue)!,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Load attribute definitions by code, rejecting unknown codes
+   */
+  private async getAttributesByCode(codes: string[]): Promise<Map<string, Attribute>> {
+    const attributes = await this.db.attribute.findMany({
+      where: { code: { in: codes } },
+    });
+
+    const attributesByCode = new Map(attributes.map(attribute => [attribute.code, attribute]));
+    const unknownCodes = codes.filter(code => !attributesByCode.has(code));
+
+    if (unknownCodes.length > 0) {
+      throw ApiError.badRequest(`Unknown attributes: ${unknownCodes.join(', ')}`);
+    }
+
+    return attributesByCode;
+  }
+
+  /**
+   * Check a value against the attribute type and map it to its storage column
+   */
+  private toValueColumns(attribute: Attribute, value: AttributeValue): AttributeValueColumns {
+    const columns: AttributeValueColumns = { textValue: null, numberValue: null, booleanValue: null };
+
+    switch (attribute.type) {
+      case 'TEXT':
+        if (typeof value !== 'string') {
+          throw ApiError.badRequest(`"${attribute.code}" must be a text value`);
+        }
+        columns.textValue = value;
+        break;
+
+      case 'ENUM':
+        if (typeof value !== 'string' || !attribute.options.includes(value)) {
+          throw ApiError.badRequest(`"${attribute.code}" must be one of: ${attribute.options.join(', ')}`);
+        }
+        columns.textValue = value;
+        break;
+
+      case 'NUMBER':
+        if (typeof value !== 'number') {
+          throw ApiError.badRequest(`"${attribute.code}" must be a number`);
+        }
+        columns.numberValue = value;
+        break;
+
+      case 'BOOLEAN':
+        if (typeof value !== 'boolean') {
+          throw ApiError.badRequest(`"${attribute.code}" must be true or false`);
+        }
+        columns.booleanValue = value;
+        break;
+    }
+
+    return columns;
+  }
+
+  /**
+   * Ensure no other attribute uses the code
+   */
+  private async ensureUniqueCode(code: string): Promise<void> {
+    const existing = await this.db.attribute.findUnique({
+      where: { code },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw ApiError.conflict(`Attribute code "${code}" is already in use`);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,126 @@
+import { PrismaClient, Prisma, ProductType, StockPolicy } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { ApiError } from '@/utils/response';
+
+export class BackorderService {
+  private db: PrismaClient;
+
+  constructor() {
+    this.db = prisma;
+  }
+
+  /**
+   * Units owed to customers per product: backordered or pre-ordered units of
+   * open orders that are still waiting for stock
+   */
+  async getBackorderedQuantities(
+    productIds: string[],
+    tx: Prisma.TransactionClient = this.db
+  ): Promise<Map<string, number>> {
+    if (productIds.length === 0) {
+      return new Map();
+    }
+
+    const totals = await tx.orderItem.groupBy({
+      by: ['productId'],
+      where: {
+        productId: { in: productIds },
+        backorderedQuantity: { gt: 0 },
+        order: { status: { not: 'CANCELLED' } },
+      },
+      _sum: { backorderedQuantity: true },
+    });
+
+    return new Map(totals.map(total => [total.productId, total._sum.backorderedQuantity ?? 0]));
+  }
+
+  /**
+   * Check a stock policy before it is applied to a product. Only plain
+   * physical products can be backordered, since stock for variants, bundles
+   * and digital products is tracked elsewhere; pre-orders need a ship date.
+   */
+  assertValidPolicy(
+    policy: { stockPolicy: StockPolicy; preorderShipDate: Date | null },
+    product: { isBundle: boolean; type: ProductType },
+    hasVariants: boolean
+  ): void {
+    if (policy.stockPolicy === 'STANDARD') {
+      return;
+    }
+
+    if (policy.stockPolicy === 'PREORDER' && !policy.preorderShipDate) {
+      throw ApiError.badRequest('Pre-order products need an expected ship date');
+    }
+
+    if (product.type !== 'PHYSICAL') {
+      throw ApiError.badRequest('Only physical products can be backordered or pre-ordered');
+    }
+
+    if (product.isBundle) {
+      throw ApiError.badRequest('Bundles follow the stock of their components and cannot be backordered');
+    }
+
+    if (hasVariants) {
+      throw ApiError.badRequest('Products with variants cannot be backordered or pre-ordered');
+    }
+  }
+
+  /**
+   * Allocate newly arrived stock to waiting order lines, oldest order first.
+   * Lines with nothing left to wait for are released for fulfilment; any
+   * stock left over stays available for new orders.
+   */
+  async releaseBackorders(productIds: string[], tx: Prisma.TransactionClient = this.db): Promise<void> {
+    if (productIds.length === 0) {
+      return;
+    }
+
+    const lines = await tx.orderItem.findMany({
+      where: {
+        productId: { in: productIds },
+        backorderedQuantity: { gt: 0 },
+        order: { status: { not: 'CANCELLED' } },
+      },
+      select: { id: true, productId: true, backorderedQuantity: true },
+      orderBy: [{ order: { createdAt: 'asc' } }, { id: 'asc' }],
+    });
+
+    if (lines.length === 0) {
+      return;
+    }
+
+    const products = await tx.product.findMany({
+      where: { id: { in: [...new Set(lines.map(line => line.productId))] } },
+      select: { id: true, stock: true },
+    });
+    const available = new Map(products.map(product => [product.id, Math.max(product.stock, 0)]));
+    const allocated = new Map<string, number>();
+
+    for (const line of lines) {
+      const stock = available.get(line.productId) ?? 0;
+      const quantity = Math.min(stock, line.backorderedQuantity);
+
+      if (quantity === 0) {
+        continue;
+      }
+
+      await tx.orderItem.update({
+        where: { id: line.id },
+        data: {
+          backorderedQuantity: { decrement: quantity },
+          ...(quantity === line.backorderedQuantity && { releasedAt: new Date() }),
+        },
+      });
+
+      available.set(line.productId, stock - quantity);
+      allocated.set(line.productId, (allocated.get(line.productId) ?? 0) + quantity);
+    }
+
+    for (const [productId, quantity] of allocated) {
+      await tx.product.update({
+        where: { id: productId },
+        data: { stock: { decrement: quantity } },
+      });
+    }
+  }
+}
\ No newline at end of file
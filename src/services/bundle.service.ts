@@ -0,0 +1,383 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { ApiError } from '@/utils/response';
+import { PublicationUtils } from '@/utils/publication';
+import { SetBundleComponentsInput } from '@/utils/validation';
+import { PricingService } from './pricing.service';
+import { ReservationService } from './reservation.service';
+
+const COMPONENT_PRODUCT_SELECT = {
+  id: true,
+  name: true,
+  slug: true,
+  price: true,
+  stock: true,
+  isActive: true,
+} as const;
+
+export class BundleService {
+  private db: PrismaClient;
+  private pricingService: PricingService;
+  private reservationService: ReservationService;
+
+  constructor() {
+    this.db = prisma;
+    this.pricingService = new PricingService();
+    this.reservationService = new ReservationService();
+  }
+
+  /**
+   * Get the components of a bundle (empty for regular products)
+   */
+  async getBundleComponents(bundleId: string, includeInactive = false): Promise<any[]> {
+    const product = await this.db.product.findFirst({
+      where: { id: bundleId, ...(!includeInactive && PublicationUtils.visibleWhere()) },
+      select: {
+        bundleComponents: {
+          include: { component: { select: COMPONENT_PRODUCT_SELECT } },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!product) {
+      throw ApiError.notFound('Product not found');
+    }
+
+    return product.bundleComponents;
+  }
+
+  /**
+   * Turn a product into a bundle or replace its components (Admin only).
+   * With a discount, the bundle price follows the component prices.
+   */
+  async setBundleComponents(
+    bundleId: string,
+    data: SetBundleComponentsInput,
+    changedById: string | null = null
+  ): Promise<any[]> {
+    const bundle = await this.db.product.findUnique({
+      where: { id: bundleId },
+      include: {
+        _count: { select: { variants: true, bundledIn: true } },
+      },
+    });
+
+    if (!bundle) {
+      throw ApiError.notFound('Product not found');
+    }
+
+    if (bundle._count.variants > 0) {
+      throw ApiError.badRequest('Products with variants cannot be bundles');
+    }
+
+    if (bundle._count.bundledIn > 0) {
+      throw ApiError.badRequest('A product that is part of a bundle cannot be a bundle itself');
+    }
+
+    if (bundle.type !== 'PHYSICAL') {
+      throw ApiError.badRequest('Digital products cannot be bundles');
+    }
+
+    if (bundle.stockPolicy !== 'STANDARD') {
+      throw ApiError.badRequest('Backordered and pre-order products cannot be bundles');
+    }
+
+    const componentIds = data.components.map(component => component.productId);
+
+    if (componentIds.includes(bundleId)) {
+      throw ApiError.badRequest('A bundle cannot contain itself');
+    }
+
+    const products = await this.db.product.findMany({
+      where: { id: { in: componentIds } },
+      select: {
+        id: true,
+        name: true,
+        price: true,
+        isBundle: true,
+        type: true,
+        _count: { select: { variants: true } },
+      },
+    });
+
+    const productsById = new Map(products.map(product => [product.id, product]));
+    const missingIds = componentIds.filter(id => !productsById.has(id));
+
+    if (missingIds.length > 0) {
+      throw ApiError.notFound(`Products not found: ${missingIds.join(', ')}`);
+    }
+
+    const nestedBundles = products.filter(product => product.isBundle);
+    if (nestedBundles.length > 0) {
+      throw ApiError.badRequest(`Bundles cannot contain other bundles: ${nestedBundles.map(product => product.name).join(', ')}`);
+    }
+
+    const digitalProducts = products.filter(product => product.type !== 'PHYSICAL');
+    if (digitalProducts.length > 0) {
+      throw ApiError.badRequest(
+        `Digital products cannot be bundle components: ${digitalProducts.map(product => product.name).join(', ')}`
+      );
+    }
+
+    // Orders take stock from the component itself, so it must not be sold through variants
+    const variantProducts = products.filter(product => product._count.variants > 0);
+    if (variantProducts.length > 0) {
+      throw ApiError.badRequest(
+        `Products with variants cannot be bundle components: ${variantProducts.map(product => product.name).join(', ')}`
+      );
+    }
+
+    const discount = data.discount ?? null;
+
+    if (discount !== null) {
+      const componentTotal = data.components.reduce(
+        (total, component) => total + Number(productsById.get(component.productId)!.price) * component.quantity,
+        0
+      );
+
+      if (discount >= componentTotal) {
+        throw ApiError.badRequest(`Discount must be lower than the component total of ${componentTotal.toFixed(2)}`);
+      }
+    }
+
+    await this.db.$transaction(async (tx) => {
+      await tx.bundleComponent.deleteMany({
+        where: { bundleId },
+      });
+
+      await tx.bundleComponent.createMany({
+        data: data.components.map(component => ({
+          bundleId,
+          componentId: component.productId,
+          quantity: component.quantity,
+        })),
+      });
+
+      await tx.product.update({
+        where: { id: bundleId },
+        data: { isBundle: true, bundleDiscount: discount },
+      });
+
+      await this.syncBundleStock([bundleId], tx);
+      await this.syncBundlePrices([bundleId], changedById, tx);
+    });
+
+    return this.getBundleComponents(bundleId, true);
+  }
+
+  /**
+   * Turn a bundle back into a regular product with its own stock, starting at zero (Admin only)
+   */
+  async removeBundleComponents(bundleId: string): Promise<void> {
+    const bundle = await this.db.product.findUnique({
+      where: { id: bundleId },
+      select: { isBundle: true },
+    });
+
+    if (!bundle) {
+      throw ApiError.notFound('Product not found');
+    }
+
+    if (!bundle.isBundle) {
+      throw ApiError.badRequest('Product is not a bundle');
+    }
+
+    await this.db.$transaction(async (tx) => {
+      await tx.bundleComponent.deleteMany({
+        where: { bundleId },
+      });
+
+      await tx.product.update({
+        where: { id: bundleId },
+        data: { isBundle: false, bundleDiscount: null, stock: 0 },
+      });
+    });
+  }
+
+  /**
+   * Keep the stock of bundles equal to the number of complete sets their
+   * components make up. Pass the changed products; bundles among them and
+   * bundles containing them are refreshed. Inactive components count as
+   * out of stock. This is the physical stock; ReservationService works out
+   * how many of these sets are held by carts.
+   */
+  async syncBundleStock(productIds: string[], tx: Prisma.TransactionClient = this.db): Promise<void> {
+    const bundles = await tx.product.findMany({
+      where: this.bundlesAffectedBy(productIds),
+      select: {
+        id: true,
+        stock: true,
+        bundleComponents: {
+          select: {
+            quantity: true,
+            component: { select: { stock: true, isActive: true } },
+          },
+        },
+      },
+    });
+
+    for (const bundle of bundles) {
+      const sets = bundle.bundleComponents.map(({ quantity, component }) =>
+        component.isActive ? Math.floor(Math.max(component.stock, 0) / quantity) : 0
+      );
+      const stock = sets.length > 0 ? Math.min(...sets) : 0;
+
+      if (stock !== bundle.stock) {
+        await tx.product.update({
+          where: { id: bundle.id },
+          data: { stock },
+        });
+      }
+    }
+  }
+
+  /**
+   * Recompute the price of discounted bundles from their components' regular
+   * prices, recording changes in the price history. A sale that would no
+   * longer be cheaper than the new price is cleared.
+   */
+  async syncBundlePrices(
+    productIds: string[],
+    changedById: string | null,
+    tx: Prisma.TransactionClient = this.db
+  ): Promise<void> {
+    const bundles = await tx.product.findMany({
+      where: {
+        AND: [this.bundlesAffectedBy(productIds), { bundleDiscount: { not: null } }],
+      },
+      select: {
+        id: true,
+        price: true,
+        salePrice: true,
+        saleStartsAt: true,
+        saleEndsAt: true,
+        bundleDiscount: true,
+        bundleComponents: {
+          select: {
+            quantity: true,
+            component: { select: { price: true } },
+          },
+        },
+      },
+    });
+
+    for (const { id, bundleDiscount, bundleComponents, ...previousPrices } of bundles) {
+      const componentTotal = bundleComponents.reduce(
+        (total, { quantity, component }) => total + Number(component.price) * quantity,
+        0
+      );
+      const price = Math.max(Math.round((componentTotal - Number(bundleDiscount)) * 100) / 100, 0.01);
+      const prices = previousPrices.salePrice !== null && Number(previousPrices.salePrice) >= price
+        ? { price, salePrice: null, saleStartsAt: null, saleEndsAt: null }
+        : { ...previousPrices, price };
+
+      if (this.pricingService.hasPriceChanged(previousPrices, prices)) {
+        await tx.product.update({
+          where: { id },
+          data: prices,
+        });
+
+        await this.pricingService.recordPriceChange(id, prices, changedById, tx);
+      }
+    }
+  }
+
+  /**
+   * Take the components of an ordered bundle from stock, remembering what
+   * was taken so a cancellation can put it back. Stock held for carts other
+   * than the ordering cart can't be taken. Returns the component IDs.
+   */
+  async takeComponentStock(
+    orderItemId: string,
+    bundleId: string,
+    quantity: number,
+    tx: Prisma.TransactionClient,
+    cartId?: string
+  ): Promise<string[]> {
+    const components = await tx.bundleComponent.findMany({
+      where: { bundleId },
+      include: {
+        component: { select: { id: true, name: true, stock: true, isActive: true } },
+      },
+    });
+    const reserved = await this.reservationService.getReservedQuantities(
+      components.map(({ component }) => component.id),
+      cartId,
+      tx
+    );
+
+    for (const { component, quantity: unitsPerBundle } of components) {
+      const required = unitsPerBundle * quantity;
+      const available = Math.max(component.stock - (reserved.products.get(component.id) ?? 0), 0);
+
+      if (!component.isActive) {
+        throw ApiError.badRequest(`${component.name} (part of a bundle) is no longer available`);
+      }
+
+      if (required > available) {
+        throw ApiError.badRequest(
+          `Insufficient stock for ${component.name} (part of a bundle). Available: ${available}, Required: ${required}`
+        );
+      }
+
+      await tx.product.update({
+        where: { id: component.id },
+        data: {
+          stock: {
+            decrement: required,
+          },
+        },
+      });
+    }
+
+    await tx.orderItemComponent.createMany({
+      data: components.map(({ component, quantity: unitsPerBundle }) => ({
+        orderItemId,
+        productId: component.id,
+        quantity: unitsPerBundle * quantity,
+      })),
+    });
+
+    return components.map(({ component }) => component.id);
+  }
+
+  /**
+   * Put the components taken for bundle order lines back into stock.
+   * Returns what was restored, per order line and component.
+   */
+  async restoreComponentStock(
+    orderItemIds: string[],
+    tx: Prisma.TransactionClient
+  ): Promise<Array<{ orderItemId: string; productId: string }>> {
+    const taken = await tx.orderItemComponent.findMany({
+      where: { orderItemId: { in: orderItemIds } },
+    });
+
+    for (const { productId, quantity } of taken) {
+      await tx.product.update({
+        where: { id: productId },
+        data: {
+          stock: {
+            increment: quantity,
+          },
+        },
+      });
+    }
+
+    return taken.map(({ orderItemId, productId }) => ({ orderItemId, productId }));
+  }
+
+  /**
+   * Bundles among the given products, or containing any of them
+   */
+  private bundlesAffectedBy(productIds: string[]): Prisma.ProductWhereInput {
+    return {
+      isBundle: true,
+      OR: [
+        { id: { in: productIds } },
+        { bundleComponents: { some: { componentId: { in: productIds } } } },
+      ],
+    };
+  }
+}
\ No newline at end of file
@@ -1,7 +1,15 @@
 import { PrismaClient } from '@prisma/client';
 import { prisma } from '@/config/database';
+import { config } from '@/config';
 import { ApiError } from '@/utils/response';
+import { PricingUtils } from '@/utils/pricing';
+import { InventoryUtils } from '@/utils/inventory';
+import { PublicationUtils } from '@/utils/publication';
 import { AddToCartInput, RemoveFromCartInput } from '@/utils/validation';
+import { VariantService } from './variant.service';
+import { CurrencyService, CurrencyContext } from './currency.service';
+import { BackorderService } from './backorder.service';
+import { ReservationService, ReservedStock } from './reservation.service';
 
 export interface CartWithItems {
   id: string;
@@ -12,9 +20,17 @@ export interface CartWithItems {
 
 export class CartService {
   private db: PrismaClient;
+  private variantService: VariantService;
+  private currencyService: CurrencyService;
+  private backorderService: BackorderService;
+  private reservationService: ReservationService;
 
   constructor() {
     this.db = prisma;
+    this.variantService = new VariantService();
+    this.currencyService = new CurrencyService();
+    this.backorderService = new BackorderService();
+    this.reservationService = new ReservationService();
   }
 
   /**
@@ -27,11 +43,13 @@ export class CartService {
         items: {
           include: {
             product: true,
+            variant: {
+              include: { optionValues: true },
+            },
+            reservation: true,
           },
           where: {
-            product: {
-              isActive: true, // Only include items with active products
-            },
+            product: PublicationUtils.visibleWhere(), // Only include items with products live in the storefront
           },
         },
       },
@@ -45,13 +63,22 @@ export class CartService {
           items: {
             include: {
               product: true,
+              variant: {
+                include: { optionValues: true },
+              },
+              reservation: true,
             },
           },
         },
       });
     }
 
-    return this.calculateCartTotals(cart);
+    const reserved = await this.reservationService.getReservedQuantities(
+      cart.items.map(item => item.productId),
+      cart.id
+    );
+
+    return this.calculateCartTotals(cart, reserved);
   }
 
   /**
@@ -61,11 +88,11 @@ export class CartService {
     // Get or create cart
     const cart = await this.getOrCreateCart(userId);
 
-    // Check if product exists and is active
+    // Check if product exists and is live in the storefront
     const product = await this.db.product.findFirst({
       where: {
         id: data.productId,
-        isActive: true,
+        ...PublicationUtils.visibleWhere(),
       },
     });
 
@@ -73,37 +100,53 @@ export class CartService {
       throw ApiError.notFound('Product not found or not available');
     }
 
-    // Check stock availability
+    // Products sold through variants require a variant selection
+    let variant: any = null;
+    if (data.variantId) {
+      variant = await this.variantService.getVariantForProduct(data.productId, data.variantId, true);
+    } else if (await this.variantService.hasActiveVariants(data.productId)) {
+      throw ApiError.badRequest('Please select a variant for this product');
+    }
+
+    // Check stock availability (stock held for other carts isn't available)
+    const backordered = await this.backorderService.getBackorderedQuantities([data.productId]);
+    const reserved = await this.reservationService.getReservedQuantities([data.productId], cart.id);
+    const availableStock = this.getAvailableStock({ product, variant }, backordered.get(data.productId), reserved);
     const totalRequestedQuantity = data.quantity;
-    const existingCartItem = cart.items.find(item => item.productId === data.productId);
+    const existingCartItem = this.findCartItem(cart, data.productId, data.variantId);
     const existingQuantity = existingCartItem?.quantity || 0;
     const newTotalQuantity = existingQuantity + totalRequestedQuantity;
 
-    if (newTotalQuantity > product.stock) {
+    if (newTotalQuantity > availableStock) {
       throw ApiError.badRequest(
-        `Insufficient stock. Available: ${product.stock}, In cart: ${existingQuantity}, Requested: ${totalRequestedQuantity}`
+        `Insufficient stock. Available: ${availableStock}, In cart: ${existingQuantity}, Requested: ${totalRequestedQuantity}`
       );
     }
 
     // Add or update cart item
-    await this.db.cartItem.upsert({
-      where: {
-        cartId_productId: {
+    if (existingCartItem) {
+      await this.db.cartItem.update({
+        where: { id: existingCartItem.id },
+        data: {
+          quantity: {
+            increment: data.quantity,
+          },
+        },
+      });
+    } else {
+      await this.db.cartItem.create({
+        data: {
           cartId: cart.id,
           productId: data.productId,
+          variantId: data.variantId ?? null,
+          quantity: data.quantity,
         },
-      },
-      update: {
-        quantity: {
-          increment: data.quantity,
-        },
-      },
-      create: {
-        cartId: cart.id,
-        productId: data.productId,
-        quantity: data.quantity,
-      },
-    });
+      });
+    }
+
+    if (config.stockReservationMode === 'cart') {
+      await this.reservationService.reserveCart(cart.id);
+    }
 
     // Return updated cart
     return this.getOrCreateCart(userId);
@@ -115,7 +158,7 @@ export class CartService {
   async removeFromCart(userId: string, data: RemoveFromCartInput): Promise<CartWithItems> {
     const cart = await this.getOrCreateCart(userId);
 
-    const existingCartItem = cart.items.find(item => item.productId === data.productId);
+    const existingCartItem = this.findCartItem(cart, data.productId, data.variantId);
 
     if (!existingCartItem) {
       throw ApiError.notFound('Item not found in cart');
@@ -129,13 +172,14 @@ export class CartService {
         where: { id: existingCartItem.id },
       });
     } else {
-      // Decrease quantity
+      // Decrease quantity (and the stock held for it; deleted lines release their reservation)
       await this.db.cartItem.update({
         where: { id: existingCartItem.id },
         data: {
           quantity: existingCartItem.quantity - quantityToRemove,
         },
       });
+      await this.reservationService.limitToQuantity(existingCartItem.id, existingCartItem.quantity - quantityToRemove);
     }
 
     // Return updated cart
@@ -148,29 +192,32 @@ export class CartService {
   async updateCartItemQuantity(
     userId: string,
     productId: string,
-    quantity: number
+    quantity: number,
+    variantId?: string
   ): Promise<CartWithItems> {
     if (quantity < 0) {
       throw ApiError.badRequest('Quantity cannot be negative');
     }
 
     if (quantity === 0) {
-      return this.removeFromCart(userId, { productId });
+      return this.removeFromCart(userId, { productId, variantId });
     }
 
     const cart = await this.getOrCreateCart(userId);
 
-    const existingCartItem = cart.items.find(item => item.productId === productId);
+    const existingCartItem = this.findCartItem(cart, productId, variantId);
 
     if (!existingCartItem) {
       throw ApiError.notFound('Item not found in cart');
     }
 
-    // Check stock availability
-    const product = existingCartItem.product;
-    if (quantity > product.stock) {
+    // Check stock availability (stock held for other carts isn't available)
+    const backordered = await this.backorderService.getBackorderedQuantities([productId]);
+    const reserved = await this.reservationService.getReservedQuantities([productId], cart.id);
+    const availableStock = this.getAvailableStock(existingCartItem, backordered.get(productId), reserved);
+    if (quantity > availableStock) {
       throw ApiError.badRequest(
-        `Insufficient stock. Available: ${product.stock}, Requested: ${quantity}`
+        `Insufficient stock. Available: ${availableStock}, Requested: ${quantity}`
       );
     }
 
@@ -180,6 +227,12 @@ export class CartService {
       data: { quantity },
     });
 
+    if (config.stockReservationMode === 'cart') {
+      await this.reservationService.reserveCart(cart.id);
+    } else {
+      await this.reservationService.limitToQuantity(existingCartItem.id, quantity);
+    }
+
     // Return updated cart
     return this.getOrCreateCart(userId);
   }
@@ -208,9 +261,7 @@ export class CartService {
       include: {
         items: {
           where: {
-            product: {
-              isActive: true,
-            },
+            product: PublicationUtils.visibleWhere(),
           },
         },
       },
@@ -239,16 +290,38 @@ export class CartService {
       return { isValid: false, errors, cart };
     }
 
+    // Downloads have no stock, but can't be sold before their file is uploaded
+    const downloadIds = cart.items
+      .filter(item => item.product.type === 'DOWNLOAD')
+      .map(item => item.productId);
+    const downloadFiles = downloadIds.length > 0
+      ? await this.db.digitalFile.findMany({
+        where: { productId: { in: downloadIds } },
+        select: { productId: true },
+      })
+      : [];
+    const downloadableIds = new Set(downloadFiles.map(file => file.productId));
+    const productIds = cart.items.map(item => item.productId);
+    const backordered = await this.backorderService.getBackorderedQuantities(productIds);
+    const reserved = await this.reservationService.getReservedQuantities(productIds, cart.id);
+
     // Check each item's stock availability
+    const now = new Date();
     for (const item of cart.items) {
-      if (!item.product.isActive) {
+      if (!PublicationUtils.isVisible(item.product, now) || (item.variant && !item.variant.isActive)) {
         errors.push(`Product "${item.product.name}" is no longer available`);
         continue;
       }
 
-      if (item.quantity > item.product.stock) {
+      if (item.product.type === 'DOWNLOAD' && !downloadableIds.has(item.productId)) {
+        errors.push(`Product "${item.product.name}" is not available for download yet`);
+        continue;
+      }
+
+      const availableStock = this.getAvailableStock(item, backordered.get(item.productId), reserved);
+      if (item.quantity > availableStock) {
         errors.push(
-          `Insufficient stock for "${item.product.name}". Available: ${item.product.stock}, In cart: ${item.quantity}`
+          `Insufficient stock for "${item.product.name}". Available: ${availableStock}, In cart: ${item.quantity}`
         );
       }
     }
@@ -260,6 +333,25 @@ export class CartService {
     };
   }
 
+  /**
+   * Begin checkout: validate the cart and hold its stock for the reservation
+   * TTL, so it can't sell out to other customers while this one pays
+   */
+  async beginCheckout(userId: string): Promise<{ cart: CartWithItems; reservedUntil: Date }> {
+    const { isValid, errors, cart } = await this.validateCartForCheckout(userId);
+
+    if (!isValid) {
+      throw ApiError.badRequest(`Cart validation failed: ${errors.join(', ')}`);
+    }
+
+    const reservedUntil = await this.reservationService.reserveCart(cart.id);
+
+    return {
+      cart: await this.getOrCreateCart(userId),
+      reservedUntil,
+    };
+  }
+
   /**
    * Remove unavailable items from cart
    */
@@ -270,6 +362,7 @@ export class CartService {
         items: {
           include: {
             product: true,
+            variant: true,
           },
         },
       },
@@ -279,9 +372,16 @@ export class CartService {
       return this.getOrCreateCart(userId);
     }
 
-    // Remove items with inactive products or insufficient stock
+    const productIds = cart.items.map(item => item.productId);
+    const backordered = await this.backorderService.getBackorderedQuantities(productIds);
+    const reserved = await this.reservationService.getReservedQuantities(productIds, cart.id);
+
+    // Remove items with products no longer live or insufficient stock
+    const now = new Date();
     const itemsToRemove = cart.items.filter(
-      item => !item.product.isActive || item.quantity > item.product.stock
+      item => !PublicationUtils.isVisible(item.product, now) ||
+             (item.variant && !item.variant.isActive) ||
+             item.quantity > this.getAvailableStock(item, backordered.get(item.productId), reserved)
     );
 
     if (itemsToRemove.length > 0) {
@@ -296,17 +396,18 @@ export class CartService {
 
     // Update quantities for items that exceed available stock
     const itemsToUpdate = cart.items.filter(
-      item => item.product.isActive && 
+      item => PublicationUtils.isVisible(item.product, now) && 
              item.quantity > 0 && 
-             item.quantity <= item.product.stock &&
+             item.quantity <= this.getAvailableStock(item, backordered.get(item.productId), reserved) &&
              !itemsToRemove.some(removed => removed.id === item.id)
     );
 
     for (const item of itemsToUpdate) {
-      if (item.quantity > item.product.stock) {
+      const availableStock = this.getAvailableStock(item, backordered.get(item.productId), reserved);
+      if (item.quantity > availableStock) {
         await this.db.cartItem.update({
           where: { id: item.id },
-          data: { quantity: item.product.stock },
+          data: { quantity: availableStock },
         });
       }
     }
@@ -315,24 +416,93 @@ export class CartService {
   }
 
   /**
-   * Calculate cart totals
+   * Calculate cart totals at the currently effective prices
    */
   private calculateCartTotals(
-    cart: any
+    cart: any,
+    reserved?: ReservedStock
   ): CartWithItems {
+    const now = new Date();
     const totalItems = cart.items.reduce((total, item) => total + item.quantity, 0);
-    const totalAmount = cart.items.reduce(
-      (total, item) => total + (Number(item.product.price) * item.quantity),
-      0
-    );
+    const totalAmount = PricingUtils.calculateLineTotal(cart.items, now);
 
     return {
       ...cart,
+      items: cart.items.map(({ reservation, ...item }) => ({
+        ...item,
+        unitPrice: PricingUtils.getUnitPrice(item.product, item.variant, now),
+        ...this.getBackorderDetails(item, reserved),
+        ...this.getReservationDetails(reservation, now),
+      })),
       totalItems,
       totalAmount,
     };
   }
 
+  /**
+   * Find the cart line for a product and (optional) variant
+   */
+  private findCartItem(cart: CartWithItems, productId: string, variantId?: string): any {
+    return cart.items.find(
+      item => item.productId === productId && (item.variantId ?? null) === (variantId ?? null)
+    );
+  }
+
+  /**
+   * Stock available for a cart line: the variant's stock when one is selected,
+   * otherwise the product's stock plus any backorders or pre-orders it still
+   * takes beyond that, less what is reserved for other carts. Downloads are
+   * never out of stock.
+   */
+  private getAvailableStock(item: any, backordered: number = 0, reserved?: ReservedStock): number {
+    if (item.product.type === 'DOWNLOAD') {
+      return Number.POSITIVE_INFINITY;
+    }
+
+    if (item.variant) {
+      return Math.max(item.variant.stock - (reserved?.variants.get(item.variant.id) ?? 0), 0);
+    }
+
+    return InventoryUtils.orderableStock(item.product, backordered, reserved?.products.get(item.productId));
+  }
+
+  /**
+   * Units of a cart line held for the customer, and until when
+   */
+  private getReservationDetails(
+    reservation: { quantity: number; expiresAt: Date } | null | undefined,
+    now: Date
+  ): { reservedQuantity: number; reservedUntil: Date | null } {
+    const isActive = !!reservation && reservation.expiresAt > now;
+
+    return {
+      reservedQuantity: isActive ? reservation.quantity : 0,
+      reservedUntil: isActive ? reservation.expiresAt : null,
+    };
+  }
+
+  /**
+   * Units of a cart line that would be backordered at checkout, and when
+   * pre-ordered units are expected to ship. Stock reserved for other carts
+   * can't fill the line, so it is backordered as well.
+   */
+  private getBackorderDetails(
+    item: any,
+    reserved?: ReservedStock
+  ): { backorderedQuantity: number; expectedShipDate: Date | null } {
+    const unheldStock = Math.max(item.product.stock - (reserved?.products.get(item.productId) ?? 0), 0);
+    const backorderedQuantity = !item.variant && item.product.stockPolicy !== 'STANDARD'
+      ? Math.max(item.quantity - unheldStock, 0)
+      : 0;
+
+    return {
+      backorderedQuantity,
+      expectedShipDate: backorderedQuantity > 0 && item.product.stockPolicy === 'PREORDER'
+        ? item.product.preorderShipDate
+        : null,
+    };
+  }
+
   /**
    * Check if product is in cart
    */
@@ -350,18 +520,21 @@ export class CartService {
   }
 
   /**
-   * Get cart summary for quick display
+   * Get cart summary for quick display, priced in the given currency
    */
-  async getCartSummary(userId: string): Promise<{
+  async getCartSummary(userId: string, currency?: CurrencyContext): Promise<{
     itemCount: number;
     totalAmount: number;
+    currency?: string;
     isEmpty: boolean;
   }> {
-    const cart = await this.getOrCreateCart(userId);
+    const baseCart = await this.getOrCreateCart(userId);
+    const cart = currency ? await this.currencyService.localizeCart(baseCart, currency) : baseCart;
 
     return {
       itemCount: cart.totalItems,
       totalAmount: cart.totalAmount,
+      ...(currency && { currency: currency.code }),
       isEmpty: cart.items.length === 0,
     };
   }
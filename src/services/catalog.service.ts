@@ -0,0 +1,456 @@
+import { PrismaClient } from '@prisma/client';
+import { parse } from 'csv-parse/sync';
+import { stringify } from 'csv-stringify/sync';
+import { prisma } from '@/config/database';
+import { ApiError } from '@/utils/response';
+import { ImportProductRowInput, importProductRowSchema } from '@/utils/validation';
+import { SearchService } from './search.service';
+import { SlugService } from './slug.service';
+import { PricingService, PriceSnapshot } from './pricing.service';
+import { BundleService } from './bundle.service';
+import { BackorderService } from './backorder.service';
+import { RestockService } from './restock.service';
+
+export type CatalogFormat = 'csv' | 'ndjson';
+
+export interface ImportRowError {
+  row: number;
+  sku: string | null;
+  errors: string[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  totalRows: number;
+  created: number;
+  updated: number;
+  failed: number;
+  errors: ImportRowError[];
+}
+
+interface ParsedRow {
+  row: number;
+  data: Record<string, unknown> | null;
+  parseError?: string;
+}
+
+interface ImportUpdate {
+  id: string;
+  data: ImportProductRowInput;
+  previousSlug: string;
+  previousPrices: PriceSnapshot;
+  prices: PriceSnapshot;
+}
+
+/**
+ * Column order of CSV exports. Imports ignore columns they don't know,
+ * so an export can be edited and imported again.
+ */
+const EXPORT_COLUMNS = ['sku', 'slug', 'name', 'description', 'price', 'stock', 'categoryIds', 'isActive', 'id'];
+
+export class CatalogService {
+  static readonly MAX_IMPORT_ROWS = 10000;
+  static readonly EXPORT_BATCH_SIZE = 500;
+
+  private db: PrismaClient;
+  private searchService: SearchService;
+  private slugService: SlugService;
+  private pricingService: PricingService;
+  private bundleService: BundleService;
+  private backorderService: BackorderService;
+  private restockService: RestockService;
+
+  constructor() {
+    this.db = prisma;
+    this.searchService = new SearchService();
+    this.slugService = new SlugService();
+    this.pricingService = new PricingService();
+    this.bundleService = new BundleService();
+    this.backorderService = new BackorderService();
+    this.restockService = new RestockService();
+  }
+
+  /**
+   * Create or update products from a CSV or NDJSON file, matching existing
+   * products by SKU. Invalid rows are skipped and reported; valid rows are
+   * applied in one transaction unless this is a dry run. Price changes are
+   * recorded in the price history under the importing admin, and a `slug`
+   * renames the product's URL like a product update does.
+   */
+  async importProducts(
+    content: Buffer,
+    format: CatalogFormat,
+    dryRun: boolean,
+    changedById: string | null = null
+  ): Promise<ImportReport> {
+    const parsedRows = format === 'csv' ? this.parseCsv(content) : this.parseNdjson(content);
+
+    if (parsedRows.length === 0) {
+      throw ApiError.badRequest('The import file contains no rows');
+    }
+
+    if (parsedRows.length > CatalogService.MAX_IMPORT_ROWS) {
+      throw ApiError.badRequest(`An import can contain at most ${CatalogService.MAX_IMPORT_ROWS} rows`);
+    }
+
+    const errors: ImportRowError[] = [];
+    const validRows: Array<{ row: number; data: ImportProductRowInput }> = [];
+    const seenSkus = new Map<string, number>();
+    const seenSlugs = new Map<string, number>();
+
+    for (const parsedRow of parsedRows) {
+      const sku = typeof parsedRow.data?.sku === 'string' ? parsedRow.data.sku : null;
+
+      if (parsedRow.parseError) {
+        errors.push({ row: parsedRow.row, sku, errors: [parsedRow.parseError] });
+        continue;
+      }
+
+      const result = importProductRowSchema.safeParse(parsedRow.data);
+
+      if (!result.success) {
+        errors.push({
+          row: parsedRow.row,
+          sku,
+          errors: result.error.errors.map(error => `${error.path.join('.')}: ${error.message}`),
+        });
+        continue;
+      }
+
+      const firstRow = seenSkus.get(result.data.sku);
+      if (firstRow !== undefined) {
+        errors.push({ row: parsedRow.row, sku, errors: [`Duplicate SKU, already used on row ${firstRow}`] });
+        continue;
+      }
+
+      const firstSlugRow = result.data.slug ? seenSlugs.get(result.data.slug) : undefined;
+      if (firstSlugRow !== undefined) {
+        errors.push({ row: parsedRow.row, sku, errors: [`Duplicate slug, already used on row ${firstSlugRow}`] });
+        continue;
+      }
+
+      seenSkus.set(result.data.sku, parsedRow.row);
+      if (result.data.slug) {
+        seenSlugs.set(result.data.slug, parsedRow.row);
+      }
+      validRows.push({ row: parsedRow.row, data: result.data });
+    }
+
+    // Look up referenced categories and existing products in bulk
+    const categoryIds = Array.from(new Set(validRows.flatMap(({ data }) => data.categoryIds ?? [])));
+    const [categories, existingProducts] = await Promise.all([
+      this.db.category.findMany({
+        where: { id: { in: categoryIds } },
+        select: { id: true },
+      }),
+      this.db.product.findMany({
+        where: { sku: { in: validRows.map(({ data }) => data.sku) } },
+        select: {
+          id: true,
+          sku: true,
+          slug: true,
+          stock: true,
+          price: true,
+          salePrice: true,
+          saleStartsAt: true,
+          saleEndsAt: true,
+          isBundle: true,
+          bundleDiscount: true,
+          type: true,
+          _count: { select: { variants: true } },
+        },
+      }),
+    ]);
+
+    const knownCategoryIds = new Set(categories.map(category => category.id));
+    const productsBySku = new Map(existingProducts.map(product => [product.sku!, product]));
+
+    const creates: ImportProductRowInput[] = [];
+    const updates: ImportUpdate[] = [];
+    const now = new Date();
+
+    for (const { row, data } of validRows) {
+      const rowErrors: string[] = [];
+      const existing = productsBySku.get(data.sku);
+
+      const unknownCategoryIds = (data.categoryIds ?? []).filter(id => !knownCategoryIds.has(id));
+      if (unknownCategoryIds.length > 0) {
+        rowErrors.push(`categoryIds: Categories not found: ${unknownCategoryIds.join(', ')}`);
+      }
+
+      if (existing && existing._count.variants > 0 && existing.stock !== data.stock) {
+        rowErrors.push('stock: Stock for products with variants is managed per variant');
+      }
+
+      if (existing?.isBundle && existing.stock !== data.stock) {
+        rowErrors.push('stock: Stock for bundles is derived from their components');
+      }
+
+      if (existing?.type === 'LICENSE_KEY' && existing.stock !== data.stock) {
+        rowErrors.push('stock: Stock for license key products is the number of unassigned keys');
+      }
+
+      if (existing?.bundleDiscount && Number(existing.price) !== data.price) {
+        rowErrors.push('price: The price of a discounted bundle is derived from its components');
+      }
+
+      // A sale that has ended no longer limits the price, and is cleared when the price changes
+      const saleEnded = !!existing?.saleEndsAt && existing.saleEndsAt <= now;
+
+      if (existing?.salePrice && !saleEnded && Number(existing.salePrice) >= data.price) {
+        rowErrors.push('price: Price must stay above the scheduled sale price');
+      }
+
+      if (data.slug && data.slug !== existing?.slug) {
+        try {
+          await this.slugService.assertSlugAvailable(data.slug, existing?.id);
+        } catch (error: any) {
+          rowErrors.push(`slug: ${error.message}`);
+        }
+      }
+
+      if (rowErrors.length > 0) {
+        errors.push({ row, sku: data.sku, errors: rowErrors });
+      } else if (existing) {
+        const { id, slug, price, salePrice, saleStartsAt, saleEndsAt } = existing;
+        const previousPrices = { price, salePrice, saleStartsAt, saleEndsAt };
+        const prices = saleEnded && Number(price) !== data.price
+          ? { price: data.price, salePrice: null, saleStartsAt: null, saleEndsAt: null }
+          : { ...previousPrices, price: data.price };
+
+        updates.push({ id, data, previousSlug: slug, previousPrices, prices });
+      } else {
+        creates.push(data);
+      }
+    }
+
+    if (!dryRun && (creates.length > 0 || updates.length > 0)) {
+      const affectedIds = await this.applyImport(creates, updates, changedById);
+      await this.searchService.refreshProducts(affectedIds);
+      this.restockService.queueNotifications(updates.map(({ id }) => id));
+    }
+
+    return {
+      dryRun,
+      totalRows: parsedRows.length,
+      created: creates.length,
+      updated: updates.length,
+      failed: errors.length,
+      errors: errors.sort((a, b) => a.row - b.row),
+    };
+  }
+
+  /**
+   * Stream the whole catalog (including inactive products) in batches
+   */
+  async *exportProducts(format: CatalogFormat): AsyncGenerator<string> {
+    let cursor: string | undefined;
+    let isFirstBatch = true;
+
+    while (true) {
+      const products = await this.db.product.findMany({
+        include: {
+          categories: { select: { id: true } },
+        },
+        orderBy: { id: 'asc' },
+        take: CatalogService.EXPORT_BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      if (products.length === 0 && !isFirstBatch) {
+        return;
+      }
+
+      const records = products.map(product => ({
+        sku: product.sku,
+        slug: product.slug,
+        name: product.name,
+        description: product.description,
+        price: Number(product.price),
+        stock: product.stock,
+        categoryIds: product.categories.map(category => category.id),
+        isActive: product.isActive,
+        id: product.id,
+      }));
+
+      if (format === 'csv') {
+        yield stringify(
+          records.map(record => ({ ...record, categoryIds: record.categoryIds.join('|') })),
+          { header: isFirstBatch, columns: EXPORT_COLUMNS, cast: { boolean: value => String(value) } }
+        );
+      } else if (records.length > 0) {
+        yield records.map(record => JSON.stringify(record)).join('\n') + '\n';
+      }
+
+      if (products.length < CatalogService.EXPORT_BATCH_SIZE) {
+        return;
+      }
+
+      cursor = products[products.length - 1]!.id;
+      isFirstBatch = false;
+    }
+  }
+
+  /**
+   * Write the import in one transaction and return the IDs of the affected products
+   */
+  private async applyImport(
+    creates: ImportProductRowInput[],
+    updates: ImportUpdate[],
+    changedById: string | null
+  ): Promise<string[]> {
+    return this.db.$transaction(async (tx) => {
+      const affectedIds: string[] = [];
+
+      // Updates and rows with a slug go first, so generated slugs can't take a slug the file asks for
+      for (const { id, data, previousSlug, previousPrices, prices } of updates) {
+        if (data.slug) {
+          await this.slugService.changeSlug(id, previousSlug, data.slug, tx);
+        }
+
+        await tx.product.update({
+          where: { id },
+          data: {
+            ...(data.slug && { slug: data.slug }),
+            name: data.name,
+            // A row without a description keeps the stored one
+            ...(data.description !== undefined && { description: data.description }),
+            ...prices,
+            stock: data.stock,
+            ...(data.categoryIds && {
+              categories: {
+                set: data.categoryIds.map(categoryId => ({ id: categoryId })),
+              },
+            }),
+          },
+        });
+
+        if (this.pricingService.hasPriceChanged(previousPrices, prices)) {
+          await this.pricingService.recordPriceChange(id, prices, changedById, tx);
+        }
+
+        affectedIds.push(id);
+      }
+
+      const orderedCreates = [...creates].sort((a, b) => Number(!a.slug) - Number(!b.slug));
+
+      for (const data of orderedCreates) {
+        const product = await tx.product.create({
+          data: {
+            sku: data.sku,
+            slug: data.slug ?? await this.slugService.generateUniqueSlug(data.name, tx),
+            name: data.name,
+            description: data.description ?? null,
+            price: data.price,
+            stock: data.stock,
+            ...(data.categoryIds && {
+              categories: {
+                connect: data.categoryIds.map(id => ({ id })),
+              },
+            }),
+          },
+          select: { id: true },
+        });
+
+        await this.pricingService.recordPriceChange(
+          product.id,
+          { price: data.price, salePrice: null, saleStartsAt: null, saleEndsAt: null },
+          changedById,
+          tx
+        );
+
+        affectedIds.push(product.id);
+      }
+
+      // Imported stock goes to waiting backorders first; bundles containing
+      // updated products follow what is left, and their price
+      const updatedIds = updates.map(({ id }) => id);
+      await this.backorderService.releaseBackorders(updatedIds, tx);
+      await this.bundleService.syncBundleStock(updatedIds, tx);
+      await this.bundleService.syncBundlePrices(updatedIds, changedById, tx);
+
+      return affectedIds;
+    }, { timeout: 60000 });
+  }
+
+  /**
+   * Parse CSV with a header row. Category IDs are separated by "|". Rows
+   * with a different number of columns than the header are reported as row
+   * errors; only a file that can't be read at all fails as a whole.
+   */
+  private parseCsv(content: Buffer): ParsedRow[] {
+    let records: string[][];
+
+    try {
+      records = parse(content, {
+        bom: true,
+        skip_empty_lines: true,
+        trim: true,
+        relax_column_count: true,
+      });
+    } catch (error: any) {
+      throw ApiError.badRequest(`Invalid CSV: ${error.message}`);
+    }
+
+    const [header = [], ...rows] = records;
+    const toNumber = (value?: string) => (value === undefined || value === '' ? undefined : Number(value));
+
+    // Row numbers count the header as row 1, like a spreadsheet
+    return rows.map((fields, index) => {
+      const record: Record<string, string | undefined> = Object.fromEntries(
+        header.map((column, position) => [column, fields[position]])
+      );
+      const data = {
+        sku: record.sku,
+        slug: record.slug || undefined,
+        name: record.name,
+        description: record.description || undefined,
+        price: toNumber(record.price),
+        stock: toNumber(record.stock),
+        categoryIds: record.categoryIds
+          ? record.categoryIds.split('|').map(id => id.trim()).filter(id => id.length > 0)
+          : undefined,
+      };
+
+      if (fields.length !== header.length) {
+        return {
+          row: index + 2,
+          data,
+          parseError: `Expected ${header.length} columns, found ${fields.length}`,
+        };
+      }
+
+      return { row: index + 2, data };
+    });
+  }
+
+  /**
+   * Parse newline-delimited JSON, one product object per line
+   */
+  private parseNdjson(content: Buffer): ParsedRow[] {
+    const rows: ParsedRow[] = [];
+
+    content.toString('utf8').split(/\r?\n/).forEach((line, index) => {
+      if (line.trim().length === 0) {
+        return;
+      }
+
+      try {
+        const data = JSON.parse(line);
+
+        if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+          rows.push({ row: index + 1, data: null, parseError: 'Row must be a JSON object' });
+          return;
+        }
+
+        // Exported files carry read-only fields that imports ignore
+        const { id: _id, isActive: _isActive, description, ...fields } = data;
+        rows.push({ row: index + 1, data: { ...fields, description: description ?? undefined } });
+      } catch {
+        rows.push({ row: index + 1, data: null, parseError: 'Invalid JSON' });
+      }
+    });
+
+    return rows;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,246 @@
+import { PrismaClient } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { config } from '@/config';
+import { ApiError } from '@/utils/response';
+import { CreateCategoryInput, UpdateCategoryInput } from '@/utils/validation';
+import { TranslationService } from './translation.service';
+
+export interface CategoryTreeNode {
+  id: string;
+  name: string;
+  description: string | null;
+  parentId: string | null;
+  children: CategoryTreeNode[];
+  [key: string]: any;
+}
+
+export class CategoryService {
+  private db: PrismaClient;
+  private translationService: TranslationService;
+
+  constructor() {
+    this.db = prisma;
+    this.translationService = new TranslationService();
+  }
+
+  /**
+   * Create a new category (Admin only)
+   */
+  async createCategory(data: CreateCategoryInput): Promise<any> {
+    if (data.parentId) {
+      await this.getCategoryById(data.parentId);
+    }
+
+    await this.ensureUniqueName(data.name, data.parentId ?? null);
+
+    return this.db.category.create({
+      data: {
+        name: data.name,
+        description: data.description,
+        parentId: data.parentId ?? null,
+      },
+    });
+  }
+
+  /**
+   * Get categories as a flat list, optionally restricted to one parent,
+   * named in the given locale
+   */
+  async getCategories(parentId?: string | null, locale: string = config.defaultLocale): Promise<any[]> {
+    const where: any = {};
+
+    if (parentId !== undefined) {
+      where.parentId = parentId;
+    }
+
+    const categories = await this.db.category.findMany({
+      where,
+      include: {
+        _count: {
+          select: { children: true, products: true },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return this.sortByName(await this.translationService.localizeCategories(categories, locale), locale);
+  }
+
+  /**
+   * Get the full category hierarchy as a nested tree, named in the given locale
+   */
+  async getCategoryTree(locale: string = config.defaultLocale): Promise<CategoryTreeNode[]> {
+    const categories = this.sortByName(
+      await this.translationService.localizeCategories(
+        await this.db.category.findMany({ orderBy: { name: 'asc' } }),
+        locale
+      ),
+      locale
+    );
+
+    const nodes = new Map<string, CategoryTreeNode>();
+    categories.forEach(category => {
+      nodes.set(category.id, { ...category, children: [] });
+    });
+
+    const roots: CategoryTreeNode[] = [];
+    nodes.forEach(node => {
+      const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    });
+
+    return roots;
+  }
+
+  /**
+   * Get category by ID with its parent and direct children, named in the given locale
+   */
+  async getCategoryById(id: string, locale: string = config.defaultLocale): Promise<any> {
+    const category = await this.db.category.findUnique({
+      where: { id },
+      include: {
+        parent: true,
+        children: {
+          orderBy: { name: 'asc' },
+        },
+      },
+    });
+
+    if (!category) {
+      throw ApiError.notFound('Category not found');
+    }
+
+    if (locale === config.defaultLocale) {
+      return category;
+    }
+
+    const [localized] = await this.translationService.localizeCategories([category], locale);
+
+    return { ...localized, children: this.sortByName(localized!.children, locale) };
+  }
+
+  /**
+   * Update category (Admin only)
+   */
+  async updateCategory(id: string, data: UpdateCategoryInput): Promise<any> {
+    const category = await this.getCategoryById(id);
+
+    const parentId = data.parentId !== undefined ? data.parentId : category.parentId;
+
+    if (data.parentId) {
+      await this.getCategoryById(data.parentId);
+
+      // A category cannot be moved underneath itself or one of its descendants
+      const descendantIds = await this.getDescendantIds(id);
+      if (descendantIds.includes(data.parentId)) {
+        throw ApiError.badRequest('A category cannot be moved under itself or one of its subcategories');
+      }
+    }
+
+    if (data.name !== undefined || data.parentId !== undefined) {
+      await this.ensureUniqueName(data.name ?? category.name, parentId, id);
+    }
+
+    return this.db.category.update({
+      where: { id },
+      data: {
+        name: data.name,
+        description: data.description,
+        parentId,
+      },
+    });
+  }
+
+  /**
+   * Delete category (Admin only). Categories with subcategories must be emptied first.
+   */
+  async deleteCategory(id: string): Promise<void> {
+    const category = await this.getCategoryById(id);
+
+    if (category.children.length > 0) {
+      throw ApiError.badRequest(
+        'Cannot delete a category that has subcategories. Move or delete them first.'
+      );
+    }
+
+    // Product links in the implicit join table are removed automatically
+    await this.db.category.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Get the IDs of a category and all of its descendants
+   */
+  async getDescendantIds(id: string): Promise<string[]> {
+    const categories = await this.db.category.findMany({
+      select: { id: true, parentId: true },
+    });
+
+    const childrenByParent = new Map<string, string[]>();
+    categories.forEach(category => {
+      if (category.parentId) {
+        const siblings = childrenByParent.get(category.parentId) || [];
+        siblings.push(category.id);
+        childrenByParent.set(category.parentId, siblings);
+      }
+    });
+
+    const result: string[] = [];
+    const queue = [id];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      result.push(current);
+      queue.push(...(childrenByParent.get(current) || []));
+    }
+
+    return result;
+  }
+
+  /**
+   * Verify that all given category IDs exist
+   */
+  async assertCategoriesExist(ids: string[]): Promise<void> {
+    const uniqueIds = Array.from(new Set(ids));
+    const count = await this.db.category.count({
+      where: { id: { in: uniqueIds } },
+    });
+
+    if (count !== uniqueIds.length) {
+      throw ApiError.badRequest('One or more categories do not exist');
+    }
+  }
+
+  /**
+   * Ensure no sibling category already uses the given name
+   */
+  private async ensureUniqueName(name: string, parentId: string | null, excludeId?: string): Promise<void> {
+    const existing = await this.db.category.findFirst({
+      where: {
+        name: { equals: name, mode: 'insensitive' },
+        parentId,
+        ...(excludeId && { id: { not: excludeId } }),
+      },
+    });
+
+    if (existing) {
+      throw ApiError.conflict(`Category "${name}" already exists at this level`);
+    }
+  }
+
+  /**
+   * Order categories by their (translated) name in the locale's collation
+   */
+  private sortByName<T extends { name: string }>(categories: T[], locale: string): T[] {
+    if (locale === config.defaultLocale) {
+      return categories;
+    }
+
+    return [...categories].sort((a, b) => a.name.localeCompare(b.name, locale));
+  }
+}
\ No newline at end of file
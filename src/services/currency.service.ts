@@ -0,0 +1,308 @@
+import { PrismaClient } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { config } from '@/config';
+import { ApiError } from '@/utils/response';
+import { CurrencyUtils } from '@/utils/currency';
+import { PricingUtils, PriceableProduct, PriceableVariant } from '@/utils/pricing';
+import { SetProductPriceInput } from '@/utils/validation';
+
+/**
+ * The currency a request is served in, with the rate from the base currency
+ */
+export interface CurrencyContext {
+  code: string;
+  rate: number;
+  isBase: boolean;
+}
+
+interface PriceOverride {
+  price: number;
+  salePrice: number | null;
+}
+
+type LocalizableProduct = PriceableProduct & { id: string; [key: string]: any };
+
+export class CurrencyService {
+  private db: PrismaClient;
+
+  constructor() {
+    this.db = prisma;
+  }
+
+  /**
+   * Get the base currency and the exchange rates of all other currencies
+   */
+  async getCurrencies(): Promise<{ baseCurrency: string; rates: any[] }> {
+    const rates = await this.db.exchangeRate.findMany({
+      orderBy: { currency: 'asc' },
+    });
+
+    return {
+      baseCurrency: config.baseCurrency,
+      rates: rates.map(rate => ({ ...rate, rate: Number(rate.rate) })),
+    };
+  }
+
+  /**
+   * Add a currency or update its rate (Admin only)
+   */
+  async setExchangeRate(currency: string, rate: number): Promise<any> {
+    if (currency === config.baseCurrency) {
+      throw ApiError.badRequest(`${currency} is the base currency; its rate is always 1`);
+    }
+
+    const exchangeRate = await this.db.exchangeRate.upsert({
+      where: { currency },
+      create: { currency, rate },
+      update: { rate },
+    });
+
+    return { ...exchangeRate, rate: Number(exchangeRate.rate) };
+  }
+
+  /**
+   * Stop offering a currency, removing its product price overrides (Admin only).
+   * Orders keep the currency and rate they were placed with.
+   */
+  async deleteExchangeRate(currency: string): Promise<void> {
+    const exchangeRate = await this.db.exchangeRate.findUnique({
+      where: { currency },
+    });
+
+    if (!exchangeRate) {
+      throw ApiError.notFound('Currency not found');
+    }
+
+    await this.db.$transaction([
+      this.db.productPrice.deleteMany({ where: { currency } }),
+      this.db.exchangeRate.delete({ where: { currency } }),
+    ]);
+  }
+
+  /**
+   * Resolve a requested currency; no currency means the base currency
+   */
+  async resolveCurrency(currency?: string): Promise<CurrencyContext> {
+    if (!currency || currency === config.baseCurrency) {
+      return { code: config.baseCurrency, rate: 1, isBase: true };
+    }
+
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      throw ApiError.badRequest('Currency must be a 3-letter ISO 4217 code');
+    }
+
+    const exchangeRate = await this.db.exchangeRate.findUnique({
+      where: { currency },
+    });
+
+    if (!exchangeRate) {
+      throw ApiError.badRequest(`Currency ${currency} is not supported`);
+    }
+
+    return { code: currency, rate: Number(exchangeRate.rate), isBase: false };
+  }
+
+  /**
+   * Get the per-currency price overrides of a product (Admin only)
+   */
+  async getProductPrices(productId: string): Promise<any[]> {
+    await this.ensureProductExists(productId);
+
+    return this.db.productPrice.findMany({
+      where: { productId },
+      orderBy: { currency: 'asc' },
+    });
+  }
+
+  /**
+   * Set the price of a product in a currency instead of converting it (Admin only)
+   */
+  async setProductPrice(productId: string, currency: string, data: SetProductPriceInput): Promise<any> {
+    await this.ensureProductExists(productId);
+    await this.resolveCurrency(currency);
+
+    if (currency === config.baseCurrency) {
+      throw ApiError.badRequest('Prices in the base currency are set on the product itself');
+    }
+
+    const salePrice = data.salePrice ?? null;
+
+    if (salePrice !== null && salePrice >= data.price) {
+      throw ApiError.badRequest('Sale price must be lower than the regular price');
+    }
+
+    return this.db.productPrice.upsert({
+      where: { productId_currency: { productId, currency } },
+      create: { productId, currency, price: data.price, salePrice },
+      update: { price: data.price, salePrice },
+    });
+  }
+
+  /**
+   * Remove a per-currency price override, going back to the converted price (Admin only)
+   */
+  async deleteProductPrice(productId: string, currency: string): Promise<void> {
+    const { count } = await this.db.productPrice.deleteMany({
+      where: { productId, currency },
+    });
+
+    if (count === 0) {
+      throw ApiError.notFound('Product price not found');
+    }
+  }
+
+  /**
+   * Express the prices of products (as returned with their effective price)
+   * in a currency, using price overrides where set. Variant and bundle
+   * component prices are converted.
+   */
+  async localizeProducts<T extends LocalizableProduct>(products: T[], currency: CurrencyContext): Promise<T[]> {
+    const overrides = await this.getOverrides(products.map(product => product.id), currency);
+    const now = new Date();
+
+    return products.map(product => {
+      const prices = this.localizePrices(product, overrides.get(product.id), currency, now);
+      const { price, salePrice, effectivePrice } = prices;
+
+      return {
+        ...product,
+        price,
+        salePrice,
+        ...('effectivePrice' in product && { effectivePrice }),
+        currency: currency.code,
+        ...(Array.isArray(product.variants) && {
+          variants: product.variants.map((variant: any) => ({
+            ...variant,
+            price: variant.price === null ? null : this.convert(variant.price, currency),
+            ...('effectivePrice' in variant && {
+              effectivePrice: this.localizeVariantPrice(product, variant, prices, currency, now),
+            }),
+          })),
+        }),
+        ...(Array.isArray(product.bundleComponents) && {
+          bundleComponents: product.bundleComponents.map((item: any) => ({
+            ...item,
+            component: { ...item.component, price: this.convert(item.component.price, currency) },
+          })),
+        }),
+      };
+    });
+  }
+
+  async localizeProduct<T extends LocalizableProduct>(product: T, currency: CurrencyContext): Promise<T> {
+    const [localized] = await this.localizeProducts([product], currency);
+    return localized!;
+  }
+
+  /**
+   * Unit prices of cart or order lines in a currency, priced at one moment
+   */
+  async getUnitPrices(
+    items: Array<{ product: LocalizableProduct; variant?: PriceableVariant | null }>,
+    currency: CurrencyContext,
+    now: Date = new Date()
+  ): Promise<number[]> {
+    const overrides = await this.getOverrides(items.map(item => item.product.id), currency);
+
+    return items.map(({ product, variant }) =>
+      this.localizeVariantPrice(
+        product,
+        variant,
+        this.localizePrices(product, overrides.get(product.id), currency, now),
+        currency,
+        now
+      )
+    );
+  }
+
+  /**
+   * Express a cart's line prices and total in a currency
+   */
+  async localizeCart<T extends { items: any[]; totalAmount: number }>(cart: T, currency: CurrencyContext): Promise<T> {
+    const unitPrices = await this.getUnitPrices(cart.items, currency);
+
+    return {
+      ...cart,
+      items: cart.items.map((item, index) => ({ ...item, unitPrice: unitPrices[index]! })),
+      totalAmount: CurrencyUtils.round(
+        cart.items.reduce((total, item, index) => total + unitPrices[index]! * item.quantity, 0),
+        currency.code
+      ),
+      currency: currency.code,
+    };
+  }
+
+  /**
+   * Convert an amount from the base currency
+   */
+  convert(amount: unknown, currency: CurrencyContext): number {
+    return currency.isBase
+      ? Number(amount)
+      : CurrencyUtils.round(Number(amount) * currency.rate, currency.code);
+  }
+
+  private localizePrices(
+    product: PriceableProduct,
+    override: PriceOverride | undefined,
+    currency: CurrencyContext,
+    now: Date
+  ): { price: number; salePrice: number | null; effectivePrice: number } {
+    const price = override ? override.price : this.convert(product.price, currency);
+    const hasSale = product.salePrice !== null && product.salePrice !== undefined;
+    const salePrice = !hasSale ? null : override?.salePrice ?? this.convert(product.salePrice, currency);
+
+    return {
+      price,
+      salePrice,
+      effectivePrice: PricingUtils.isSaleActive(product, now) && salePrice !== null ? salePrice : price,
+    };
+  }
+
+  /**
+   * Unit price of a line in a currency, following PricingUtils.getUnitPrice:
+   * a variant price override is capped by the running sale price
+   */
+  private localizeVariantPrice(
+    product: PriceableProduct,
+    variant: PriceableVariant | null | undefined,
+    prices: { salePrice: number | null; effectivePrice: number },
+    currency: CurrencyContext,
+    now: Date
+  ): number {
+    if (!variant || variant.price === null || variant.price === undefined) {
+      return prices.effectivePrice;
+    }
+
+    const price = this.convert(variant.price, currency);
+
+    return PricingUtils.isSaleActive(product, now) && prices.salePrice !== null
+      ? Math.min(price, prices.salePrice)
+      : price;
+  }
+
+  private async getOverrides(productIds: string[], currency: CurrencyContext): Promise<Map<string, PriceOverride>> {
+    if (currency.isBase || productIds.length === 0) {
+      return new Map();
+    }
+
+    const prices = await this.db.productPrice.findMany({
+      where: { productId: { in: productIds }, currency: currency.code },
+    });
+
+    return new Map(prices.map(price => [price.productId, {
+      price: Number(price.price),
+      salePrice: price.salePrice === null ? null : Number(price.salePrice),
+    }]));
+  }
+
+  private async ensureProductExists(productId: string): Promise<void> {
+    const product = await this.db.product.findUnique({
+      where: { id: productId },
+      select: { id: true },
+    });
+
+    if (!product) {
+      throw ApiError.notFound('Product not found');
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,436 @@
+import { PrismaClient, Prisma, ProductType } from '@prisma/client';
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import path from 'path';
+import { prisma } from '@/config/database';
+import { config } from '@/config';
+import { ApiError } from '@/utils/response';
+import { StorageAdapter, getPrivateStorageAdapter } from '@/utils/storage';
+import { AddLicenseKeysInput } from '@/utils/validation';
+
+export interface UploadedDigitalFile {
+  buffer: Buffer;
+  mimetype: string;
+  size: number;
+  originalname: string;
+}
+
+export interface DownloadedFile {
+  data: Buffer;
+  fileName: string;
+  contentType: string;
+}
+
+export class DigitalService {
+  private db: PrismaClient;
+  private storage: StorageAdapter;
+
+  constructor() {
+    this.db = prisma;
+    this.storage = getPrivateStorageAdapter();
+  }
+
+  /**
+   * Whether a product type is delivered digitally rather than shipped
+   */
+  static isDigital(type: ProductType): boolean {
+    return type !== 'PHYSICAL';
+  }
+
+  /**
+   * Get the file and license key pool of a digital product (Admin only)
+   */
+  async getDigitalAssets(productId: string): Promise<{
+    type: ProductType;
+    file: any | null;
+    licenseKeys: { available: number; assigned: number };
+  }> {
+    const product = await this.db.product.findUnique({
+      where: { id: productId },
+      select: { type: true, digitalFile: true },
+    });
+
+    if (!product) {
+      throw ApiError.notFound('Product not found');
+    }
+
+    const [available, assigned] = await Promise.all([
+      this.db.licenseKey.count({ where: { productId, orderItemId: null } }),
+      this.db.licenseKey.count({ where: { productId, orderItemId: { not: null } } }),
+    ]);
+
+    return {
+      type: product.type,
+      file: product.digitalFile,
+      licenseKeys: { available, assigned },
+    };
+  }
+
+  /**
+   * Attach the file of a downloadable product, replacing the previous one (Admin only).
+   * Links issued earlier serve the new file.
+   */
+  async uploadDigitalFile(productId: string, file: UploadedDigitalFile | undefined): Promise<any> {
+    await this.ensureProductType(productId, 'DOWNLOAD');
+
+    if (!file) {
+      throw ApiError.badRequest('A file is required');
+    }
+
+    const previous = await this.db.digitalFile.findUnique({
+      where: { productId },
+    });
+
+    const fileName = path.basename(file.originalname) || 'download';
+    const storageKey = `products/${productId}/${randomUUID()}${path.extname(fileName).toLowerCase()}`;
+
+    await this.storage.put(storageKey, file.buffer, file.mimetype);
+
+    const digitalFile = await this.db.digitalFile.upsert({
+      where: { productId },
+      create: {
+        productId,
+        storageKey,
+        fileName,
+        contentType: file.mimetype,
+        size: file.size,
+      },
+      update: {
+        storageKey,
+        fileName,
+        contentType: file.mimetype,
+        size: file.size,
+      },
+    });
+
+    if (previous) {
+      await this.storage.delete(previous.storageKey);
+    }
+
+    return digitalFile;
+  }
+
+  /**
+   * Remove the file of a downloadable product (Admin only)
+   */
+  async deleteDigitalFile(productId: string): Promise<void> {
+    const digitalFile = await this.db.digitalFile.findUnique({
+      where: { productId },
+    });
+
+    if (!digitalFile) {
+      throw ApiError.notFound('Product has no file');
+    }
+
+    await this.db.digitalFile.delete({
+      where: { productId },
+    });
+
+    await this.storage.delete(digitalFile.storageKey);
+  }
+
+  /**
+   * Remove the stored file of a product that is being deleted
+   */
+  async deleteAllProductFiles(productId: string): Promise<void> {
+    const digitalFile = await this.db.digitalFile.findUnique({
+      where: { productId },
+    });
+
+    if (digitalFile) {
+      await this.storage.delete(digitalFile.storageKey);
+    }
+  }
+
+  /**
+   * Add keys to the pool of a license key product, skipping keys it already has (Admin only)
+   */
+  async addLicenseKeys(productId: string, data: AddLicenseKeysInput): Promise<{
+    added: number;
+    skipped: number;
+    available: number;
+  }> {
+    await this.ensureProductType(productId, 'LICENSE_KEY');
+
+    const keys = Array.from(new Set(data.keys));
+
+    return this.db.$transaction(async (tx) => {
+      const { count } = await tx.licenseKey.createMany({
+        data: keys.map(key => ({ productId, key })),
+        skipDuplicates: true,
+      });
+
+      await this.syncLicenseKeyStock([productId], tx);
+
+      const available = await tx.licenseKey.count({
+        where: { productId, orderItemId: null },
+      });
+
+      return {
+        added: count,
+        skipped: data.keys.length - count,
+        available,
+      };
+    });
+  }
+
+  /**
+   * Remove the unassigned keys of a license key product (Admin only)
+   */
+  async removeUnassignedLicenseKeys(productId: string): Promise<{ removed: number }> {
+    await this.ensureProductType(productId, 'LICENSE_KEY');
+
+    return this.db.$transaction(async (tx) => {
+      const { count } = await tx.licenseKey.deleteMany({
+        where: { productId, orderItemId: null },
+      });
+
+      await this.syncLicenseKeyStock([productId], tx);
+
+      return { removed: count };
+    });
+  }
+
+  /**
+   * Keep the stock of license key products equal to their unassigned keys
+   */
+  async syncLicenseKeyStock(productIds: string[], tx: Prisma.TransactionClient = this.db): Promise<void> {
+    const products = await tx.product.findMany({
+      where: { id: { in: productIds }, type: 'LICENSE_KEY' },
+      select: {
+        id: true,
+        stock: true,
+        _count: {
+          select: { licenseKeys: { where: { orderItemId: null } } },
+        },
+      },
+    });
+
+    for (const product of products) {
+      if (product.stock !== product._count.licenseKeys) {
+        await tx.product.update({
+          where: { id: product.id },
+          data: { stock: product._count.licenseKeys },
+        });
+      }
+    }
+  }
+
+  /**
+   * Deliver a paid order line of a digital product: assign license keys from
+   * the pool or issue a download link for the product's file
+   */
+  async fulfillOrderItem(
+    orderItem: { id: string; productId: string; quantity: number },
+    product: { name: string; type: ProductType },
+    tx: Prisma.TransactionClient
+  ): Promise<void> {
+    if (product.type === 'LICENSE_KEY') {
+      const keys = await tx.licenseKey.findMany({
+        where: { productId: orderItem.productId, orderItemId: null },
+        select: { id: true },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        take: orderItem.quantity,
+      });
+
+      // Only unassigned keys are claimed, so a concurrent order can't get the same ones
+      const { count } = await tx.licenseKey.updateMany({
+        where: { id: { in: keys.map(key => key.id) }, orderItemId: null },
+        data: { orderItemId: orderItem.id, assignedAt: new Date() },
+      });
+
+      if (count < orderItem.quantity) {
+        throw ApiError.badRequest(
+          `Not enough license keys for ${product.name}. Available: ${count}, Required: ${orderItem.quantity}`
+        );
+      }
+
+      return;
+    }
+
+    if (product.type === 'DOWNLOAD') {
+      const digitalFile = await tx.digitalFile.findUnique({
+        where: { productId: orderItem.productId },
+        select: { id: true },
+      });
+
+      if (!digitalFile) {
+        throw ApiError.badRequest(`${product.name} is not available for download yet`);
+      }
+
+      await tx.downloadLink.create({
+        data: {
+          orderItemId: orderItem.id,
+          expiresAt: new Date(Date.now() + config.downloadLinkTtlHours * 60 * 60 * 1000),
+          maxDownloads: config.maxDownloadsPerLink * orderItem.quantity,
+        },
+      });
+    }
+  }
+
+  /**
+   * Expire the download links of an order right away
+   */
+  async revokeDownloadLinks(orderId: string): Promise<void> {
+    const now = new Date();
+
+    await this.db.downloadLink.updateMany({
+      where: { orderItem: { orderId }, expiresAt: { gt: now } },
+      data: { expiresAt: now },
+    });
+  }
+
+  /**
+   * Get the download links and license keys of an order
+   */
+  async getOrderDownloads(orderId: string, userId?: string): Promise<any[]> {
+    const order = await this.db.order.findFirst({
+      where: { id: orderId, ...(userId && { userId }) },
+      select: {
+        items: {
+          where: { product: { type: { not: 'PHYSICAL' } } },
+          select: {
+            id: true,
+            quantity: true,
+            product: {
+              select: {
+                id: true,
+                name: true,
+                type: true,
+                digitalFile: { select: { fileName: true, size: true } },
+              },
+            },
+            licenseKeys: {
+              select: { key: true, assignedAt: true },
+              orderBy: { assignedAt: 'asc' },
+            },
+            downloadLinks: {
+              orderBy: { createdAt: 'asc' },
+            },
+          },
+        },
+      },
+    });
+
+    if (!order) {
+      throw ApiError.notFound('Order not found');
+    }
+
+    const now = new Date();
+
+    return order.items.map(({ downloadLinks, product, ...item }) => ({
+      orderItemId: item.id,
+      quantity: item.quantity,
+      product: { id: product.id, name: product.name, type: product.type },
+      file: product.digitalFile,
+      licenseKeys: item.licenseKeys,
+      downloads: downloadLinks.map(link => ({
+        id: link.id,
+        url: this.getDownloadUrl(link.id, link.expiresAt),
+        expiresAt: link.expiresAt,
+        expired: link.expiresAt <= now,
+        downloadCount: link.downloadCount,
+        remainingDownloads: Math.max(link.maxDownloads - link.downloadCount, 0),
+      })),
+    }));
+  }
+
+  /**
+   * Serve the file behind a signed download link, counting the download.
+   * The signature covers the link ID and expiry, so links can't be forged or extended.
+   */
+  async download(linkId: string, expires: string, signature: string): Promise<DownloadedFile> {
+    if (!this.isValidSignature(linkId, expires, signature)) {
+      throw ApiError.forbidden('Invalid download link');
+    }
+
+    const now = new Date();
+
+    const link = await this.db.downloadLink.findUnique({
+      where: { id: linkId },
+      include: {
+        orderItem: {
+          select: {
+            product: { select: { digitalFile: true } },
+          },
+        },
+      },
+    });
+
+    if (!link) {
+      throw ApiError.notFound('Download link not found');
+    }
+
+    if (link.expiresAt <= now) {
+      throw ApiError.forbidden('Download link has expired');
+    }
+
+    if (Math.floor(link.expiresAt.getTime() / 1000) !== Number(expires)) {
+      throw ApiError.notFound('Download link not found');
+    }
+
+    const digitalFile = link.orderItem.product.digitalFile;
+
+    if (!digitalFile) {
+      throw ApiError.notFound('The file of this product is no longer available');
+    }
+
+    // Count the download only while downloads remain, so parallel requests can't exceed the limit
+    const { count } = await this.db.downloadLink.updateMany({
+      where: {
+        id: linkId,
+        downloadCount: { lt: link.maxDownloads },
+      },
+      data: {
+        downloadCount: { increment: 1 },
+        lastDownloadedAt: now,
+      },
+    });
+
+    if (count === 0) {
+      throw ApiError.forbidden('Download limit reached');
+    }
+
+    return {
+      data: await this.storage.get(digitalFile.storageKey),
+      fileName: digitalFile.fileName,
+      contentType: digitalFile.contentType,
+    };
+  }
+
+  /**
+   * Signed URL of a download link
+   */
+  private getDownloadUrl(linkId: string, expiresAt: Date): string {
+    const expires = String(Math.floor(expiresAt.getTime() / 1000));
+
+    return `/api/downloads/${linkId}?expires=${expires}&signature=${this.sign(linkId, expires)}`;
+  }
+
+  private isValidSignature(linkId: string, expires: string, signature: string): boolean {
+    const expected = Buffer.from(this.sign(linkId, expires), 'hex');
+    const actual = Buffer.from(signature, 'hex');
+
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  private sign(linkId: string, expires: string): string {
+    return createHmac('sha256', config.downloadSigningSecret)
+      .update(`${linkId}.${expires}`)
+      .digest('hex');
+  }
+
+  private async ensureProductType(productId: string, type: ProductType): Promise<void> {
+    const product = await this.db.product.findUnique({
+      where: { id: productId },
+      select: { type: true },
+    });
+
+    if (!product) {
+      throw ApiError.notFound('Product not found');
+    }
+
+    if (product.type !== type) {
+      throw ApiError.badRequest(`Product must be of type ${type}`);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,184 @@
+import { PrismaClient, AttributeType } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { PricingUtils } from '@/utils/pricing';
+import { InventoryUtils } from '@/utils/inventory';
+import { ReservationService } from './reservation.service';
+
+export interface PriceBucketFacet {
+  min: number;
+  max: number | null;
+  count: number;
+}
+
+export interface CategoryFacet {
+  id: string;
+  name: string;
+  parentId: string | null;
+  count: number;
+}
+
+export interface AttributeFacet {
+  code: string;
+  name: string;
+  type: AttributeType;
+  unit: string | null;
+  values?: Array<{ value: string | boolean; count: number }>; // ENUM and BOOLEAN attributes
+  range?: { min: number; max: number }; // NUMBER attributes
+}
+
+export interface ProductFacets {
+  price: PriceBucketFacet[];
+  availability: {
+    inStock: number;
+    outOfStock: number;
+  };
+  categories: CategoryFacet[];
+  attributes: AttributeFacet[];
+}
+
+export class FacetService {
+  /**
+   * Lower bounds of the price buckets; the last bucket is open-ended
+   */
+  static readonly PRICE_BUCKET_BOUNDS = [0, 25, 50, 100, 250, 500, 1000];
+
+  private db: PrismaClient;
+  private reservationService: ReservationService;
+
+  constructor() {
+    this.db = prisma;
+    this.reservationService = new ReservationService();
+  }
+
+  /**
+   * Count the products matching a listing's where clause, grouped by price
+   * bucket, availability, category and attribute value
+   */
+  async getProductFacets(where: any): Promise<ProductFacets> {
+    const [price, availability, categories, attributes] = await Promise.all([
+      this.getPriceFacets(where),
+      this.getAvailabilityFacets(where),
+      this.getCategoryFacets(where),
+      this.getAttributeFacets(where),
+    ]);
+
+    return { price, availability, categories, attributes };
+  }
+
+  private async getPriceFacets(where: any): Promise<PriceBucketFacet[]> {
+    const bounds = FacetService.PRICE_BUCKET_BOUNDS;
+
+    const buckets = bounds.map((min, index) => ({
+      min,
+      max: index < bounds.length - 1 ? bounds[index + 1]! : null,
+    }));
+
+    // Buckets use the effective price, like the price filters
+    const now = new Date();
+    const counts = await Promise.all(
+      buckets.map(bucket =>
+        this.db.product.count({
+          where: {
+            AND: [
+              where,
+              PricingUtils.effectivePriceWhere({ gte: bucket.min, ...(bucket.max !== null && { lt: bucket.max }) }, now),
+            ],
+          },
+        })
+      )
+    );
+
+    return buckets.map((bucket, index) => ({ ...bucket, count: counts[index]! }));
+  }
+
+  private async getAvailabilityFacets(where: any): Promise<ProductFacets['availability']> {
+    const fullyReservedIds = await this.reservationService.getFullyReservedProductIds();
+    const [inStock, outOfStock] = await Promise.all([
+      this.db.product.count({ where: { AND: [where, InventoryUtils.inStockWhere(fullyReservedIds)] } }),
+      this.db.product.count({ where: { AND: [where, InventoryUtils.outOfStockWhere(fullyReservedIds)] } }),
+    ]);
+
+    return { inStock, outOfStock };
+  }
+
+  /**
+   * Count matching products directly assigned to each category, skipping empty ones
+   */
+  private async getCategoryFacets(where: any): Promise<CategoryFacet[]> {
+    const categories = await this.db.category.findMany({
+      select: {
+        id: true,
+        name: true,
+        parentId: true,
+        _count: {
+          select: {
+            products: { where },
+          },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return categories
+      .filter(category => category._count.products > 0)
+      .map(({ _count, ...category }) => ({ ...category, count: _count.products }));
+  }
+
+  /**
+   * Count matching products per value of filterable enum and boolean
+   * attributes, and report the value range of number attributes. Text
+   * attributes are free-form and not faceted; unused attributes are skipped.
+   */
+  private async getAttributeFacets(where: any): Promise<AttributeFacet[]> {
+    const attributes = await this.db.attribute.findMany({
+      where: { isFilterable: true, type: { not: 'TEXT' } },
+      orderBy: { name: 'asc' },
+    });
+
+    if (attributes.length === 0) {
+      return [];
+    }
+
+    const valueWhere = {
+      attributeId: { in: attributes.map(attribute => attribute.id) },
+      product: where,
+    };
+
+    const [valueCounts, numberRanges] = await Promise.all([
+      this.db.productAttributeValue.groupBy({
+        by: ['attributeId', 'textValue', 'booleanValue'],
+        where: { ...valueWhere, numberValue: null },
+        _count: { _all: true },
+      }),
+      this.db.productAttributeValue.groupBy({
+        by: ['attributeId'],
+        where: { ...valueWhere, numberValue: { not: null } },
+        _min: { numberValue: true },
+        _max: { numberValue: true },
+      }),
+    ]);
+
+    return attributes.flatMap((attribute): AttributeFacet[] => {
+      const { code, name, type, unit } = attribute;
+
+      if (type === 'NUMBER') {
+        const range = numberRanges.find(group => group.attributeId === attribute.id);
+
+        return range
+          ? [{ code, name, type, unit, range: { min: range._min.numberValue!, max: range._max.numberValue! } }]
+          : [];
+      }
+
+      const values = valueCounts
+        .filter(group => group.attributeId === attribute.id)
+        .map(group => ({ value: (group.textValue ?? group.booleanValue)!, count: group._count._all }));
+
+      // Keep enum values in the order the admin defined them
+      if (type === 'ENUM') {
+        values.sort((a, b) => attribute.options.indexOf(a.value as string) - attribute.options.indexOf(b.value as string));
+      }
+
+      return values.length > 0 ? [{ code, name, type, unit, values }] : [];
+    });
+  }
+}
\ No newline at end of file
@@ -1,4 +1,26 @@
 export * from './auth.service';
 export * from './product.service';
+export * from './category.service';
+export * from './variant.service';
+export * from './media.service';
+export * from './search.service';
+export * from './facet.service';
+export * from './catalog.service';
+export * from './slug.service';
+export * from './attribute.service';
+export * from './pricing.service';
+export * from './bundle.service';
+export * from './recommendation.service';
+export * from './view.service';
+export * from './digital.service';
+export * from './currency.service';
+export * from './translation.service';
+export * from './review.service';
+export * from './question.service';
+export * from './restock.service';
+export * from './backorder.service';
+export * from './reservation.service';
+export * from './publication.service';
 export * from './cart.service';
+export * from './wishlist.service';
 export * from './order.service';
\ No newline at end of file
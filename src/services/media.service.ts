@@ -0,0 +1,239 @@
+import { PrismaClient } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import sharp from 'sharp';
+import { prisma } from '@/config/database';
+import { config } from '@/config';
+import { ApiError } from '@/utils/response';
+import { StorageAdapter, getStorageAdapter } from '@/utils/storage';
+import { UpdateProductMediaInput } from '@/utils/validation';
+
+export interface UploadedImage {
+  buffer: Buffer;
+  mimetype: string;
+  size: number;
+  originalname: string;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+export class MediaService {
+  private db: PrismaClient;
+  private storage: StorageAdapter;
+
+  constructor() {
+    this.db = prisma;
+    this.storage = getStorageAdapter();
+  }
+
+  /**
+   * Upload images for a product, generating a thumbnail for each (Admin only)
+   */
+  async uploadProductMedia(
+    productId: string,
+    files: UploadedImage[],
+    altTexts: Array<string | undefined> = []
+  ): Promise<any[]> {
+    await this.ensureProductExists(productId);
+
+    if (files.length === 0) {
+      throw ApiError.badRequest('At least one image is required');
+    }
+
+    const lastMedia = await this.db.productMedia.findFirst({
+      where: { productId },
+      orderBy: { position: 'desc' },
+    });
+    let position = lastMedia ? lastMedia.position + 1 : 0;
+
+    const created: any[] = [];
+
+    for (const [index, file] of files.entries()) {
+      const { metadata, thumbnail } = await this.processImage(file);
+
+      const baseKey = `products/${productId}/${randomUUID()}`;
+      const storageKey = `${baseKey}.${EXTENSIONS[file.mimetype] || 'bin'}`;
+      const thumbnailKey = `${baseKey}-thumb.webp`;
+
+      await this.storage.put(storageKey, file.buffer, file.mimetype);
+      await this.storage.put(thumbnailKey, thumbnail, 'image/webp');
+
+      try {
+        const media = await this.db.productMedia.create({
+          data: {
+            productId,
+            storageKey,
+            thumbnailKey,
+            mimeType: file.mimetype,
+            size: file.size,
+            width: metadata.width ?? null,
+            height: metadata.height ?? null,
+            altText: altTexts[index] ?? null,
+            position: position++,
+          },
+        });
+
+        created.push(this.withUrls(media));
+      } catch (error) {
+        // Don't leave orphaned files behind if the record could not be saved
+        await this.deleteFiles({ storageKey, thumbnailKey });
+        throw error;
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * Get media for a product in display order
+   */
+  async getProductMedia(productId: string): Promise<any[]> {
+    await this.ensureProductExists(productId);
+
+    const media = await this.db.productMedia.findMany({
+      where: { productId },
+      orderBy: { position: 'asc' },
+    });
+
+    return media.map(item => this.withUrls(item));
+  }
+
+  /**
+   * Update media alt text (Admin only)
+   */
+  async updateMedia(productId: string, mediaId: string, data: UpdateProductMediaInput): Promise<any> {
+    await this.getMediaForProduct(productId, mediaId);
+
+    const media = await this.db.productMedia.update({
+      where: { id: mediaId },
+      data: { altText: data.altText },
+    });
+
+    return this.withUrls(media);
+  }
+
+  /**
+   * Reorder a product's media. The given IDs are placed first, in order (Admin only)
+   */
+  async reorderMedia(productId: string, mediaIds: string[]): Promise<any[]> {
+    await this.ensureProductExists(productId);
+
+    const media = await this.db.productMedia.findMany({
+      where: { productId },
+      orderBy: { position: 'asc' },
+    });
+
+    const knownIds = new Set(media.map(item => item.id));
+    const unknownIds = mediaIds.filter(id => !knownIds.has(id));
+    if (unknownIds.length > 0) {
+      throw ApiError.badRequest(`Media not found for this product: ${unknownIds.join(', ')}`);
+    }
+
+    const orderedIds = Array.from(new Set(mediaIds));
+    const remainingIds = media.map(item => item.id).filter(id => !orderedIds.includes(id));
+
+    await this.db.$transaction(
+      [...orderedIds, ...remainingIds].map((id, position) =>
+        this.db.productMedia.update({
+          where: { id },
+          data: { position },
+        })
+      )
+    );
+
+    return this.getProductMedia(productId);
+  }
+
+  /**
+   * Delete a media item and its stored files (Admin only)
+   */
+  async deleteMedia(productId: string, mediaId: string): Promise<void> {
+    const media = await this.getMediaForProduct(productId, mediaId);
+
+    await this.db.productMedia.delete({
+      where: { id: mediaId },
+    });
+
+    await this.deleteFiles(media);
+  }
+
+  /**
+   * Delete the stored files of every media item of a product
+   */
+  async deleteAllProductFiles(productId: string): Promise<void> {
+    const media = await this.db.productMedia.findMany({
+      where: { productId },
+    });
+
+    for (const item of media) {
+      await this.deleteFiles(item);
+    }
+  }
+
+  /**
+   * Add public URLs for the original file and thumbnail
+   */
+  withUrls<T extends { storageKey: string; thumbnailKey: string | null }>(
+    media: T
+  ): T & { url: string; thumbnailUrl: string | null } {
+    return {
+      ...media,
+      url: this.storage.getUrl(media.storageKey),
+      thumbnailUrl: media.thumbnailKey ? this.storage.getUrl(media.thumbnailKey) : null,
+    };
+  }
+
+  /**
+   * Read image metadata and render a thumbnail that fits in a square of the configured size
+   */
+  private async processImage(file: UploadedImage): Promise<{ metadata: sharp.Metadata; thumbnail: Buffer }> {
+    try {
+      const image = sharp(file.buffer);
+      const metadata = await image.metadata();
+      const thumbnail = await image
+        .clone()
+        .rotate()
+        .resize(config.thumbnailSize, config.thumbnailSize, { fit: 'inside', withoutEnlargement: true })
+        .webp()
+        .toBuffer();
+
+      return { metadata, thumbnail };
+    } catch (error) {
+      throw ApiError.badRequest(`File "${file.originalname}" is not a valid image`);
+    }
+  }
+
+  private async deleteFiles(media: { storageKey: string; thumbnailKey: string | null }): Promise<void> {
+    await this.storage.delete(media.storageKey);
+    if (media.thumbnailKey) {
+      await this.storage.delete(media.thumbnailKey);
+    }
+  }
+
+  private async getMediaForProduct(productId: string, mediaId: string): Promise<any> {
+    const media = await this.db.productMedia.findFirst({
+      where: { id: mediaId, productId },
+    });
+
+    if (!media) {
+      throw ApiError.notFound('Product media not found');
+    }
+
+    return media;
+  }
+
+  private async ensureProductExists(productId: string): Promise<void> {
+    const product = await this.db.product.findUnique({
+      where: { id: productId },
+      select: { id: true },
+    });
+
+    if (!product) {
+      throw ApiError.notFound('Product not found');
+    }
+  }
+}
\ No newline at end of file
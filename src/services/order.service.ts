@@ -1,10 +1,22 @@
-import { PrismaClient, Prisma } from '@prisma/client';
+import { PrismaClient, Prisma, OrderStatus } from '@prisma/client';
 import { prisma } from '@/config/database';
 import { ApiError } from '@/utils/response';
 import { PaginationUtils } from '@/utils/pagination';
-import { PaginatedResponse } from '@/types';
+import { SortingUtils, SortDirection } from '@/utils/sorting';
+import { CursorPaginatedResponse, PaginatedResponse } from '@/types';
 import { PaymentService } from '@/utils/payment';
+import { PricingUtils } from '@/utils/pricing';
+import { CurrencyUtils } from '@/utils/currency';
+import { InventoryUtils } from '@/utils/inventory';
+import { PublicationUtils } from '@/utils/publication';
 import { CartService } from './cart.service';
+import { BundleService } from './bundle.service';
+import { DigitalService } from './digital.service';
+import { CurrencyService } from './currency.service';
+import { RestockService } from './restock.service';
+import { BackorderService } from './backorder.service';
+import { ReservationService } from './reservation.service';
+import { VariantService } from './variant.service';
 import { CreateOrderInput, PaginationInput, UpdateOrderStatusInput } from '@/utils/validation';
 import { config } from '@/config';
 
@@ -27,16 +39,33 @@ export interface OrderSummary {
 export class OrderService {
   private db: PrismaClient;
   private cartService: CartService;
+  private bundleService: BundleService;
+  private digitalService: DigitalService;
+  private currencyService: CurrencyService;
+  private restockService: RestockService;
+  private backorderService: BackorderService;
+  private reservationService: ReservationService;
+  private variantService: VariantService;
 
   constructor() {
     this.db = prisma;
     this.cartService = new CartService();
+    this.bundleService = new BundleService();
+    this.digitalService = new DigitalService();
+    this.currencyService = new CurrencyService();
+    this.restockService = new RestockService();
+    this.backorderService = new BackorderService();
+    this.reservationService = new ReservationService();
+    this.variantService = new VariantService();
   }
 
   /**
-   * Create a new order from cart
+   * Create a new order from cart, charged in the requested currency. Amounts
+   * are also kept in the base currency for reporting.
    */
-  async createOrder(userId: string, orderData: CreateOrderInput): Promise<OrderWithItems> {
+  async createOrder(userId: string, orderData: CreateOrderInput, currencyCode?: string): Promise<OrderWithItems> {
+    const currency = await this.currencyService.resolveCurrency(currencyCode);
+
     // Validate cart before checkout
     const { isValid, errors, cart } = await this.cartService.validateCartForCheckout(userId);
 
@@ -48,15 +77,22 @@ export class OrderService {
       throw ApiError.badRequest('Cannot create order from empty cart');
     }
 
-    // Calculate order total
-    const orderTotal = cart.items.reduce(
-      (total, item) => total + (Number(item.product.price) * item.quantity),
-      0
+    // Hold the cart's stock while the payment is processed
+    await this.reservationService.reserveCart(cart.id);
+
+    // Calculate order total (every line is priced at the same moment, so a
+    // sale ending mid-checkout can't make the lines disagree with the total)
+    const pricedAt = new Date();
+    const orderTotal = PricingUtils.calculateLineTotal(cart.items, pricedAt);
+    const chargedPrices = await this.currencyService.getUnitPrices(cart.items, currency, pricedAt);
+    const chargedAmount = CurrencyUtils.round(
+      cart.items.reduce((total, item, index) => total + chargedPrices[index]! * item.quantity, 0),
+      currency.code
     );
 
     // Process payment simulation
     const paymentResult = await PaymentService.processPayment(
-      orderTotal,
+      chargedAmount,
       orderData.paymentMethod || 'credit_card'
     );
 
@@ -64,34 +100,88 @@ export class OrderService {
       throw ApiError.badRequest(`Payment failed: ${paymentResult.error}`);
     }
 
+    // Digital lines are delivered with the order, so orders without anything to ship are complete
+    const isDigitalOnly = cart.items.every(item => DigitalService.isDigital(item.product.type));
+
     // Create order with transaction to ensure atomicity
     const order = await this.db.$transaction(async (tx) => {
+      // Stock is checked and taken while no other checkout can reserve or order it
+      await this.reservationService.lockStock(cart.items, tx);
+
       // Create order
       const newOrder = await tx.order.create({
         data: {
           userId,
           totalAmount: orderTotal,
-          status: 'PENDING',
+          currency: currency.code,
+          exchangeRate: currency.rate,
+          chargedAmount,
+          status: isDigitalOnly ? 'DELIVERED' : 'PENDING',
         },
       });
 
       // Create order items and update stock
       const orderItems: any[] = [];
+      const stockChangedIds: string[] = [];
       
-      for (const cartItem of cart.items) {
+      for (const [index, cartItem] of cart.items.entries()) {
         // Check stock availability again within transaction
         const product = await tx.product.findUnique({
           where: { id: cartItem.productId },
         });
 
-        if (!product || !product.isActive) {
+        if (!product || !PublicationUtils.isVisible(product, pricedAt)) {
           throw ApiError.badRequest(`Product ${cartItem.product.name} is no longer available`);
         }
 
-        if (cartItem.quantity > product.stock) {
-          throw ApiError.badRequest(
-            `Insufficient stock for ${product.name}. Available: ${product.stock}, Required: ${cartItem.quantity}`
-          );
+        const isDigital = DigitalService.isDigital(product.type);
+
+        // Stock reserved for other carts can't be sold to this one
+        const reserved = await this.reservationService.getReservedQuantities([product.id], cart.id, tx);
+        const reservedStock = reserved.products.get(product.id) ?? 0;
+
+        // Digital products are limited by their license keys (if any) when they are delivered below.
+        // Units beyond the unreserved stock on hand are backordered if the product's stock policy allows it.
+        const backorderedQuantity = isDigital
+          ? 0
+          : Math.max(cartItem.quantity - Math.max(product.stock - reservedStock, 0), 0);
+
+        if (backorderedQuantity > 0) {
+          const backordered = await this.backorderService.getBackorderedQuantities([product.id], tx);
+          const availableStock = InventoryUtils.orderableStock(product, backordered.get(product.id) ?? 0, reservedStock);
+
+          if (cartItem.quantity > availableStock) {
+            throw ApiError.badRequest(
+              `Insufficient stock for ${product.name}. Available: ${availableStock}, Required: ${cartItem.quantity}`
+            );
+          }
+        }
+
+        if (cartItem.variantId) {
+          const variant = await tx.productVariant.findUnique({
+            where: { id: cartItem.variantId },
+          });
+
+          if (!variant || !variant.isActive) {
+            throw ApiError.badRequest(`Selected variant of ${product.name} is no longer available`);
+          }
+
+          const availableVariantStock = Math.max(variant.stock - (reserved.variants.get(variant.id) ?? 0), 0);
+
+          if (cartItem.quantity > availableVariantStock) {
+            throw ApiError.badRequest(
+              `Insufficient stock for ${product.name} (${variant.sku}). Available: ${availableVariantStock}, Required: ${cartItem.quantity}`
+            );
+          }
+
+          await tx.productVariant.update({
+            where: { id: cartItem.variantId },
+            data: {
+              stock: {
+                decrement: cartItem.quantity,
+              },
+            },
+          });
         }
 
         // Create order item
@@ -99,8 +189,14 @@ export class OrderService {
           data: {
             orderId: newOrder.id,
             productId: cartItem.productId,
+            variantId: cartItem.variantId,
             quantity: cartItem.quantity,
-            price: cartItem.product.price,
+            price: PricingUtils.getUnitPrice(cartItem.product, cartItem.variant, pricedAt),
+            chargedPrice: chargedPrices[index]!,
+            backorderedQuantity,
+            expectedShipDate: backorderedQuantity > 0 && product.stockPolicy === 'PREORDER'
+              ? product.preorderShipDate
+              : null,
           },
           include: {
             product: {
@@ -110,23 +206,57 @@ export class OrderService {
                 price: true,
               },
             },
+            variant: {
+              select: {
+                id: true,
+                sku: true,
+              },
+            },
           },
         });
 
         orderItems.push(orderItem);
 
-        // Update product stock
+        if (isDigital) {
+          await this.digitalService.fulfillOrderItem(orderItem, product, tx);
+        }
+
+        // Bundles are sold from their components' stock
+        if (product.isBundle) {
+          const componentIds = await this.bundleService.takeComponentStock(
+            orderItem.id,
+            product.id,
+            cartItem.quantity,
+            tx,
+            cart.id
+          );
+          stockChangedIds.push(...componentIds);
+        }
+
+        // Update product stock (kept equal to the sum of variant stock for variant products,
+        // derived from component stock for bundles and from license keys for digital products)
+        // and the sales volume used for popularity sorting. Backordered units are taken
+        // from stock when it arrives.
         await tx.product.update({
           where: { id: cartItem.productId },
           data: {
-            stock: {
-              decrement: cartItem.quantity,
+            ...(!product.isBundle && !isDigital && {
+              stock: {
+                decrement: cartItem.quantity - backorderedQuantity,
+              },
+            }),
+            salesCount: {
+              increment: cartItem.quantity,
             },
           },
         });
+        stockChangedIds.push(cartItem.productId);
       }
 
-      // Clear the cart
+      await this.bundleService.syncBundleStock(stockChangedIds, tx);
+      await this.digitalService.syncLicenseKeyStock(stockChangedIds, tx);
+
+      // Clear the cart (releasing its reservations)
       await tx.cartItem.deleteMany({
         where: { cartId: cart.id },
       });
@@ -145,11 +275,50 @@ export class OrderService {
    */
   async getUserOrders(
     userId: string,
-    pagination: PaginationInput = {}
-  ): Promise<PaginatedResponse<OrderWithItems>> {
+    pagination: PaginationInput = {},
+    sort?: string
+  ): Promise<PaginatedResponse<OrderWithItems> | CursorPaginatedResponse<OrderWithItems>> {
     const { page, limit } = PaginationUtils.validateAndNormalizePagination(pagination);
     const offset = PaginationUtils.calculateOffset(page, limit);
 
+    // Cursor mode pages by sort values instead of offsets and skips the total count
+    if (pagination.cursor !== undefined) {
+      return PaginationUtils.paginateByCursor(
+        ({ orderBy, after, take }) => this.db.order.findMany({
+          where: after
+            ? {
+              AND: [
+                { userId },
+                SortingUtils.buildKeysetWhere<Prisma.OrderWhereInput>(orderBy, after, { status: Object.values(OrderStatus) }),
+              ],
+            }
+            : { userId },
+          include: {
+            items: {
+              include: {
+                product: {
+                  select: {
+                    id: true,
+                    name: true,
+                    price: true,
+                  },
+                },
+                variant: {
+                  select: {
+                    id: true,
+                    sku: true,
+                  },
+                },
+              },
+            },
+          },
+          orderBy,
+          take,
+        }),
+        { orderBy: this.buildOrderOrderBy(sort), limit, cursor: pagination.cursor }
+      );
+    }
+
     const [orders, total] = await Promise.all([
       this.db.order.findMany({
         where: { userId },
@@ -163,10 +332,16 @@ export class OrderService {
                   price: true,
                 },
               },
+              variant: {
+                select: {
+                  id: true,
+                  sku: true,
+                },
+              },
             },
           },
         },
-        orderBy: { createdAt: 'desc' },
+        orderBy: this.buildOrderOrderBy(sort),
         skip: offset,
         take: limit,
       }),
@@ -185,7 +360,8 @@ export class OrderService {
    */
   async getAllOrders(
     pagination: PaginationInput = {},
-    status?: string
+    status?: string,
+    sort?: string
   ): Promise<PaginatedResponse<OrderWithItems>> {
     const { page, limit } = PaginationUtils.validateAndNormalizePagination(pagination);
     const offset = PaginationUtils.calculateOffset(page, limit);
@@ -208,10 +384,16 @@ export class OrderService {
                   price: true,
                 },
               },
+              variant: {
+                select: {
+                  id: true,
+                  sku: true,
+                },
+              },
             },
           },
         },
-        orderBy: { createdAt: 'desc' },
+        orderBy: this.buildOrderOrderBy(sort),
         skip: offset,
         take: limit,
       }),
@@ -248,6 +430,12 @@ export class OrderService {
                 price: true,
               },
             },
+            variant: {
+              select: {
+                id: true,
+                sku: true,
+              },
+            },
           },
         },
       },
@@ -276,6 +464,16 @@ export class OrderService {
       );
     }
 
+    // Backordered and pre-ordered lines are released for fulfilment once their stock arrives
+    if (statusData.status === 'SHIPPED' && order.items.some(item => item.backorderedQuantity > 0)) {
+      throw ApiError.badRequest('Order has backordered items that are still waiting for stock');
+    }
+
+    // Cancelled orders can no longer be downloaded
+    if (statusData.status === 'CANCELLED') {
+      await this.digitalService.revokeDownloadLinks(orderId);
+    }
+
     const updatedOrder = await this.db.order.update({
       where: { id: orderId },
       data: {
@@ -292,6 +490,12 @@ export class OrderService {
                 price: true,
               },
             },
+            variant: {
+              select: {
+                id: true,
+                sku: true,
+              },
+            },
           },
         },
       },
@@ -310,6 +514,15 @@ export class OrderService {
       throw ApiError.badRequest('Can only cancel orders with PENDING status');
     }
 
+    // Downloads and license keys are handed out at checkout and can't be taken back
+    const digitalItemCount = await this.db.orderItem.count({
+      where: { orderId, product: { type: { not: 'PHYSICAL' } } },
+    });
+
+    if (digitalItemCount > 0) {
+      throw ApiError.badRequest('Orders with digital products cannot be cancelled. Please contact support.');
+    }
+
     // Check user's cancellation count to prevent abuse
     const user = await this.db.user.findUnique({
       where: { id: userId },
@@ -325,18 +538,50 @@ export class OrderService {
       );
     }
 
+    const restockedIds = new Set(order.items.map(item => item.productId));
+
     // Cancel order and restore stock
     const cancelledOrder = await this.db.$transaction(async (tx) => {
-      // Restore stock for each order item
+      // Bundle lines put their components back; bundle stock is derived from them
+      const restored = await this.bundleService.restoreComponentStock(
+        order.items.map(item => item.id),
+        tx
+      );
+      const bundleLineIds = new Set(restored.map(component => component.orderItemId));
+      restored.forEach(component => restockedIds.add(component.productId));
+
+      // Restore stock and sales volume for each order item; backordered units were never taken.
+      // Variant lines go back to the variant, and the product stock is resynced from its active variants.
       for (const item of order.items) {
         await tx.product.update({
           where: { id: item.productId },
           data: {
-            stock: {
-              increment: item.quantity,
+            ...(!bundleLineIds.has(item.id) && !item.variantId && {
+              stock: {
+                increment: item.quantity - item.backorderedQuantity,
+              },
+            }),
+            salesCount: {
+              decrement: item.quantity,
             },
           },
         });
+
+        if (item.variantId) {
+          await tx.productVariant.update({
+            where: { id: item.variantId },
+            data: {
+              stock: {
+                increment: item.quantity,
+              },
+            },
+          });
+        }
+      }
+
+      const variantProductIds = new Set(order.items.filter(item => item.variantId).map(item => item.productId));
+      for (const productId of variantProductIds) {
+        await this.variantService.syncProductStock(productId, tx);
       }
 
       // Update order status
@@ -356,11 +601,21 @@ export class OrderService {
                   price: true,
                 },
               },
+              variant: {
+                select: {
+                  id: true,
+                  sku: true,
+                },
+              },
             },
           },
         },
       });
 
+      // Returned stock goes to other customers' backorders first, now that this order no longer waits
+      await this.backorderService.releaseBackorders([...restockedIds], tx);
+      await this.bundleService.syncBundleStock([...restockedIds], tx);
+
       // Increment user's cancellation count
       await tx.user.update({
         where: { id: userId },
@@ -374,6 +629,8 @@ export class OrderService {
       return updatedOrder;
     });
 
+    this.restockService.queueNotifications([...restockedIds]);
+
     return cancelledOrder;
   }
 
@@ -431,6 +688,12 @@ export class OrderService {
                 price: true,
               },
             },
+            variant: {
+              select: {
+                id: true,
+                sku: true,
+              },
+            },
           },
         },
       },
@@ -470,6 +733,12 @@ export class OrderService {
                 price: true,
               },
             },
+            variant: {
+              select: {
+                id: true,
+                sku: true,
+              },
+            },
           },
         },
       },
@@ -477,6 +746,17 @@ export class OrderService {
     });
   }
 
+  /**
+   * Build the orderBy for order listings (newest first by default)
+   */
+  private buildOrderOrderBy(sort?: string): Array<Record<string, SortDirection>> {
+    return SortingUtils.buildOrderBy(
+      SortingUtils.parseSort(sort),
+      {},
+      [{ field: 'createdAt', direction: 'desc' }]
+    );
+  }
+
   /**
    * Check if status transition is valid
    */
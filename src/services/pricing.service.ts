@@ -0,0 +1,143 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { ApiError } from '@/utils/response';
+import { PricingUtils } from '@/utils/pricing';
+import { PaginationUtils } from '@/utils/pagination';
+import { PaginatedResponse } from '@/types';
+import { PaginationInput } from '@/utils/validation';
+
+/**
+ * The price fields of a product that are tracked in the price history
+ */
+export interface PriceSnapshot {
+  price: Prisma.Decimal | number;
+  salePrice: Prisma.Decimal | number | null;
+  saleStartsAt: Date | null;
+  saleEndsAt: Date | null;
+}
+
+export class PricingService {
+  private db: PrismaClient;
+
+  constructor() {
+    this.db = prisma;
+  }
+
+  /**
+   * Ensure a sale is cheaper than the regular price and ends after it starts
+   */
+  assertValidPricing(snapshot: PriceSnapshot): void {
+    if (snapshot.salePrice === null) {
+      if (snapshot.saleStartsAt || snapshot.saleEndsAt) {
+        throw ApiError.badRequest('Sale dates require a sale price');
+      }
+      return;
+    }
+
+    if (Number(snapshot.salePrice) >= Number(snapshot.price)) {
+      throw ApiError.badRequest('Sale price must be lower than the regular price');
+    }
+
+    if (snapshot.saleStartsAt && snapshot.saleEndsAt && snapshot.saleEndsAt <= snapshot.saleStartsAt) {
+      throw ApiError.badRequest('Sale end must be after the sale start');
+    }
+  }
+
+  /**
+   * Whether any tracked price field differs between two snapshots
+   */
+  hasPriceChanged(before: PriceSnapshot, after: PriceSnapshot): boolean {
+    const amount = (value: Prisma.Decimal | number | null) => (value === null ? null : Number(value));
+    const time = (value: Date | null) => value?.getTime() ?? null;
+
+    return amount(before.price) !== amount(after.price)
+      || amount(before.salePrice) !== amount(after.salePrice)
+      || time(before.saleStartsAt) !== time(after.saleStartsAt)
+      || time(before.saleEndsAt) !== time(after.saleEndsAt);
+  }
+
+  /**
+   * Record the prices of a product after a change, and update the price it
+   * is sorted by
+   */
+  async recordPriceChange(
+    productId: string,
+    snapshot: PriceSnapshot,
+    changedById: string | null,
+    tx: Prisma.TransactionClient
+  ): Promise<void> {
+    await tx.priceHistory.create({
+      data: {
+        productId,
+        price: snapshot.price,
+        salePrice: snapshot.salePrice,
+        saleStartsAt: snapshot.saleStartsAt,
+        saleEndsAt: snapshot.saleEndsAt,
+        changedById,
+      },
+    });
+
+    await tx.product.update({
+      where: { id: productId },
+      data: { sortPrice: PricingUtils.getEffectivePrice(snapshot) },
+    });
+  }
+
+  /**
+   * Update the sort price of products whose sale started or ended since it
+   * was last computed
+   */
+  async refreshSortPrices(now: Date = new Date()): Promise<{ updated: number }> {
+    const effectivePrice = Prisma.sql`CASE
+      WHEN "salePrice" IS NOT NULL
+        AND ("saleStartsAt" IS NULL OR "saleStartsAt" <= ${now})
+        AND ("saleEndsAt" IS NULL OR "saleEndsAt" > ${now})
+      THEN "salePrice" ELSE price END`;
+
+    const updated = await this.db.$executeRaw`
+      UPDATE products SET "sortPrice" = ${effectivePrice}
+      WHERE "sortPrice" IS DISTINCT FROM ${effectivePrice}
+    `;
+
+    return { updated };
+  }
+
+  /**
+   * Get the price history of a product, newest change first (Admin only)
+   */
+  async getPriceHistory(
+    productId: string,
+    pagination: PaginationInput = {}
+  ): Promise<PaginatedResponse<any>> {
+    const product = await this.db.product.findUnique({
+      where: { id: productId },
+      select: { id: true },
+    });
+
+    if (!product) {
+      throw ApiError.notFound('Product not found');
+    }
+
+    const { page, limit } = PaginationUtils.validateAndNormalizePagination(pagination);
+    const offset = PaginationUtils.calculateOffset(page, limit);
+
+    const [entries, total] = await Promise.all([
+      this.db.priceHistory.findMany({
+        where: { productId },
+        include: {
+          changedBy: { select: { id: true, name: true, email: true } },
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+        skip: offset,
+        take: limit,
+      }),
+      this.db.priceHistory.count({ where: { productId } }),
+    ]);
+
+    return PaginationUtils.createPaginatedResponse(entries, {
+      page,
+      limit,
+      total,
+    });
+  }
+}
\ No newline at end of file
@@ -1,193 +1,471 @@
 import { PrismaClient, Prisma } from '@prisma/client';
 import { prisma } from '@/config/database';
+import { config } from '@/config';
 import { ApiError } from '@/utils/response';
 import { PaginationUtils } from '@/utils/pagination';
-import { PaginatedResponse } from '@/types';
+import { PricingUtils } from '@/utils/pricing';
+import { InventoryUtils } from '@/utils/inventory';
+import { PublicationUtils } from '@/utils/publication';
+import { SortingUtils, SortKey, SortDirection } from '@/utils/sorting';
+import { CursorPaginatedResponse, PaginatedResponse } from '@/types';
 import { CreateProductInput, UpdateProductInput, ProductFilterInput, PaginationInput } from '@/utils/validation';
+import { CategoryService } from './category.service';
+import { MediaService } from './media.service';
+import { SearchService } from './search.service';
+import { FacetService, ProductFacets } from './facet.service';
+import { SlugService } from './slug.service';
+import { AttributeService } from './attribute.service';
+import { PricingService, PriceSnapshot } from './pricing.service';
+import { BundleService } from './bundle.service';
+import { DigitalService } from './digital.service';
+import { TranslationService } from './translation.service';
+import { RestockService } from './restock.service';
+import { BackorderService } from './backorder.service';
+import { PublicationService } from './publication.service';
+import { ReservationService } from './reservation.service';
 
 export class ProductService {
+  private static readonly RELEVANCE_ORDER: Array<Record<string, SortDirection>> = [
+    { searchRank: 'desc' },
+    { id: 'asc' },
+  ];
+
   private db: PrismaClient;
+  private categoryService: CategoryService;
+  private mediaService: MediaService;
+  private searchService: SearchService;
+  private facetService: FacetService;
+  private slugService: SlugService;
+  private attributeService: AttributeService;
+  private pricingService: PricingService;
+  private bundleService: BundleService;
+  private digitalService: DigitalService;
+  private translationService: TranslationService;
+  private restockService: RestockService;
+  private backorderService: BackorderService;
+  private publicationService: PublicationService;
+  private reservationService: ReservationService;
 
   constructor() {
     this.db = prisma;
+    this.categoryService = new CategoryService();
+    this.mediaService = new MediaService();
+    this.searchService = new SearchService();
+    this.facetService = new FacetService();
+    this.slugService = new SlugService();
+    this.attributeService = new AttributeService();
+    this.pricingService = new PricingService();
+    this.bundleService = new BundleService();
+    this.digitalService = new DigitalService();
+    this.translationService = new TranslationService();
+    this.restockService = new RestockService();
+    this.backorderService = new BackorderService();
+    this.publicationService = new PublicationService();
+    this.reservationService = new ReservationService();
   }
 
   /**
    * Create a new product (Admin only)
    */
-  async createProduct(data: CreateProductInput): Promise<any> {
-    return this.db.product.create({
-      data: {
-        name: data.name,
-        description: data.description,
-        price: data.price,
-        stock: data.stock,
-      },
+  async createProduct(data: CreateProductInput, changedById: string | null = null): Promise<any> {
+    if (data.categoryIds?.length) {
+      await this.categoryService.assertCategoriesExist(data.categoryIds);
+    }
+
+    if (data.slug) {
+      await this.slugService.assertSlugAvailable(data.slug);
+    }
+
+    const prices: PriceSnapshot = {
+      price: data.price,
+      salePrice: data.salePrice ?? null,
+      saleStartsAt: data.saleStartsAt ?? null,
+      saleEndsAt: data.saleEndsAt ?? null,
+    };
+
+    this.pricingService.assertValidPricing(prices);
+
+    this.backorderService.assertValidPolicy(
+      { stockPolicy: data.stockPolicy ?? 'STANDARD', preorderShipDate: data.preorderShipDate ?? null },
+      { isBundle: false, type: data.type ?? 'PHYSICAL' },
+      false
+    );
+
+    this.publicationService.assertValidSchedule({
+      status: data.status ?? 'PUBLISHED',
+      publishAt: data.publishAt ?? null,
+      unpublishAt: data.unpublishAt ?? null,
+    });
+
+    const slug = data.slug ?? await this.slugService.generateUniqueSlug(data.name);
+
+    const product = await this.db.$transaction(async (tx) => {
+      const created = await tx.product.create({
+        data: {
+          sku: data.sku,
+          slug,
+          name: data.name,
+          description: data.description,
+          ...prices,
+          // License key products count their keys, and have none yet
+          stock: data.type === 'LICENSE_KEY' ? 0 : data.stock,
+          type: data.type,
+          stockPolicy: data.stockPolicy,
+          backorderLimit: data.backorderLimit,
+          preorderShipDate: data.preorderShipDate,
+          status: data.status,
+          publishAt: data.publishAt,
+          unpublishAt: data.unpublishAt,
+          ...(data.categoryIds && {
+            categories: {
+              connect: data.categoryIds.map(id => ({ id })),
+            },
+          }),
+        },
+        include: {
+          categories: true,
+        },
+      });
+
+      await this.pricingService.recordPriceChange(created.id, prices, changedById, tx);
+
+      return created;
     });
+
+    await this.searchService.refreshProduct(product.id);
+
+    return PricingUtils.withEffectivePrice(product);
   }
 
   /**
-   * Get all products with pagination and filtering
+   * Get all products with pagination and filtering, shown and searched in
+   * the requested locale (falling back to the default locale per product)
    */
   async getProducts(
     pagination: PaginationInput = {},
     filters: ProductFilterInput = {}
-  ): Promise<PaginatedResponse<any>> {
+  ): Promise<(PaginatedResponse<any> | CursorPaginatedResponse<any>) & { facets?: ProductFacets; searchTruncated?: boolean }> {
     const { page, limit } = PaginationUtils.validateAndNormalizePagination(pagination);
     const offset = PaginationUtils.calculateOffset(page, limit);
+    const locale = filters.locale ?? config.defaultLocale;
 
-    // Build where clause for filtering
-    const where: any = {
-      isActive: true, // Only show active products
-    };
-
-    // Add search filter
-    if (filters.search) {
-      where.OR = [
-        { name: { contains: filters.search, mode: 'insensitive' } },
-        { description: { contains: filters.search, mode: 'insensitive' } },
-      ];
-    }
+    // Rank full-text matches first so results can be ordered by relevance
+    const searchMatches = filters.search
+      ? await this.searchService.rankMatches(filters.search, locale)
+      : undefined;
+    const searchRanks = searchMatches?.ranks;
 
-    // Add price filters
-    if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
-      where.price = {};
-      if (filters.minPrice !== undefined) {
-        where.price.gte = filters.minPrice;
-      }
-      if (filters.maxPrice !== undefined) {
-        where.price.lte = filters.maxPrice;
-      }
-    }
-
-    // Add stock filter
-    if (filters.inStock !== undefined) {
-      if (filters.inStock) {
-        where.stock = { gt: 0 };
-      } else {
-        where.stock = { lte: 0 };
-      }
+    // Build where clause for filtering
+    const where = await this.buildProductWhere(filters, false, searchRanks);
+
+    const sort = SortingUtils.parseSort(filters.sort);
+
+    // Cursor mode pages by sort values instead of offsets and skips the total count
+    if (pagination.cursor !== undefined) {
+      const [result, facets] = await Promise.all([
+        this.findProductCursorPage(where, limit, pagination.cursor, sort, filters.search, searchRanks, locale),
+        filters.facets ? this.facetService.getProductFacets(where) : undefined,
+      ]);
+
+      return {
+        ...result,
+        data: await this.translationService.localizeProducts(
+          await this.reservationService.withAvailableStock(result.data.map(product => PricingUtils.withEffectivePrice(product))),
+          locale
+        ),
+        ...(facets && { facets }),
+        ...(searchMatches && { searchTruncated: searchMatches.truncated }),
+      };
     }
 
-    // Execute queries
-    const [products, total] = await Promise.all([
-      this.db.product.findMany({
-        where,
-        orderBy: { createdAt: 'desc' },
-        skip: offset,
-        take: limit,
-      }),
-      this.db.product.count({ where }),
+    // Execute queries (facets are counted against the same filters)
+    const [{ products, total }, facets] = await Promise.all([
+      this.findProductPage(where, offset, limit, sort, filters.search, searchRanks, locale),
+      filters.facets ? this.facetService.getProductFacets(where) : undefined,
     ]);
+    const localized = await this.translationService.localizeProducts(
+      await this.reservationService.withAvailableStock(products.map(product => PricingUtils.withEffectivePrice(product))),
+      locale
+    );
 
-    return PaginationUtils.createPaginatedResponse(products, {
-      page,
-      limit,
-      total,
-    });
+    return {
+      ...PaginationUtils.createPaginatedResponse(localized, {
+        page,
+        limit,
+        total,
+      }),
+      ...(facets && { facets }),
+      ...(searchMatches && { searchTruncated: searchMatches.truncated }),
+    };
   }
 
   /**
-   * Get all products for admin (includes inactive)
+   * Get all products for admin (includes inactive, draft, scheduled and archived)
    */
   async getProductsForAdmin(
     pagination: PaginationInput = {},
     filters: ProductFilterInput = {}
-  ): Promise<PaginatedResponse<any>> {
+  ): Promise<PaginatedResponse<any> & { facets?: ProductFacets; searchTruncated?: boolean }> {
     const { page, limit } = PaginationUtils.validateAndNormalizePagination(pagination);
     const offset = PaginationUtils.calculateOffset(page, limit);
+    const locale = filters.locale ?? config.defaultLocale;
 
-    // Build where clause for filtering (without isActive filter for admin)
-    const where: any = {};
+    // Rank full-text matches first so results can be ordered by relevance
+    const searchMatches = filters.search
+      ? await this.searchService.rankMatches(filters.search, locale)
+      : undefined;
+    const searchRanks = searchMatches?.ranks;
 
-    // Add search filter
-    if (filters.search) {
-      where.OR = [
-        { name: { contains: filters.search, mode: 'insensitive' } },
-        { description: { contains: filters.search, mode: 'insensitive' } },
-      ];
-    }
+    // Build where clause for filtering (without visibility filter for admin)
+    const where = await this.buildProductWhere(filters, true, searchRanks);
 
-    // Add price filters
-    if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
-      where.price = {};
-      if (filters.minPrice !== undefined) {
-        where.price.gte = filters.minPrice;
-      }
-      if (filters.maxPrice !== undefined) {
-        where.price.lte = filters.maxPrice;
-      }
-    }
+    const sort = SortingUtils.parseSort(filters.sort);
 
-    // Add stock filter
-    if (filters.inStock !== undefined) {
-      if (filters.inStock) {
-        where.stock = { gt: 0 };
-      } else {
-        where.stock = { lte: 0 };
-      }
-    }
-
-    // Execute queries
-    const [products, total] = await Promise.all([
-      this.db.product.findMany({
-        where,
-        orderBy: { createdAt: 'desc' },
-        skip: offset,
-        take: limit,
-      }),
-      this.db.product.count({ where }),
+    // Execute queries (facets are counted against the same filters)
+    const [{ products, total }, facets] = await Promise.all([
+      this.findProductPage(where, offset, limit, sort, filters.search, searchRanks, locale),
+      filters.facets ? this.facetService.getProductFacets(where) : undefined,
     ]);
+    const localized = await this.translationService.localizeProducts(
+      await this.reservationService.withAvailableStock(products.map(product => PricingUtils.withEffectivePrice(product))),
+      locale
+    );
 
-    return PaginationUtils.createPaginatedResponse(products, {
-      page,
-      limit,
-      total,
-    });
+    return {
+      ...PaginationUtils.createPaginatedResponse(localized, {
+        page,
+        limit,
+        total,
+      }),
+      ...(facets && { facets }),
+      ...(searchMatches && { searchTruncated: searchMatches.truncated }),
+    };
   }
 
   /**
-   * Get product by ID
+   * Get product by ID, with its content in the given locale if translated
    */
-  async getProductById(id: string, includeInactive = false): Promise<any> {
-    const where: any = { id };
-    
-    if (!includeInactive) {
-      where.isActive = true;
-    }
+  async getProductById(id: string, includeInactive = false, locale: string = config.defaultLocale): Promise<any> {
+    const where: any = {
+      id,
+      ...(!includeInactive && PublicationUtils.visibleWhere()),
+    };
 
     const product = await this.db.product.findFirst({
       where,
+      include: {
+        categories: true,
+        options: {
+          include: {
+            values: {
+              orderBy: { position: 'asc' },
+            },
+          },
+          orderBy: { position: 'asc' },
+        },
+        variants: {
+          where: { isActive: true },
+          include: { optionValues: true },
+        },
+        media: {
+          orderBy: { position: 'asc' },
+        },
+        attributeValues: {
+          include: { attribute: true },
+        },
+        bundleComponents: {
+          include: {
+            component: {
+              select: { id: true, name: true, slug: true, price: true, stock: true, isActive: true },
+            },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
     });
 
     if (!product) {
       throw ApiError.notFound('Product not found');
     }
 
-    return product;
+    const { attributeValues, ...details } = product;
+    const [available] = await this.reservationService.withAvailableStock([PricingUtils.withEffectivePrice(details)]);
+
+    return this.translationService.localizeProduct({
+      ...available!,
+      media: product.media.map(item => this.mediaService.withUrls(item)),
+      attributes: this.attributeService.toProductAttributes(attributeValues),
+    }, locale);
+  }
+
+  /**
+   * Get product by slug. Former slugs of renamed products resolve to a
+   * redirect to the current slug instead of the product.
+   */
+  async getProductBySlug(
+    slug: string,
+    includeInactive = false,
+    locale: string = config.defaultLocale
+  ): Promise<{ product: any; redirectTo?: undefined } | { product?: undefined; redirectTo: string }> {
+    const resolution = await this.slugService.resolveSlug(slug);
+
+    if (!resolution) {
+      throw ApiError.notFound('Product not found');
+    }
+
+    const product = await this.getProductById(resolution.productId, includeInactive, locale);
+
+    return resolution.redirectTo ? { redirectTo: resolution.redirectTo } : { product };
   }
 
   /**
    * Update product (Admin only)
    */
-  async updateProduct(id: string, data: UpdateProductInput): Promise<any> {
+  async updateProduct(id: string, data: UpdateProductInput, changedById: string | null = null): Promise<any> {
     // Check if product exists
-    await this.getProductById(id, true); // Include inactive for admin operations
+    const existingProduct = await this.getProductById(id, true); // Include inactive for admin operations
 
     // Validate stock if provided
     if (data.stock !== undefined && data.stock < 0) {
       throw ApiError.badRequest('Stock cannot be negative');
     }
 
+    if (data.stock !== undefined && await this.hasVariants([id])) {
+      throw ApiError.badRequest('Stock for products with variants is managed per variant');
+    }
+
+    if (data.stock !== undefined && existingProduct.isBundle) {
+      throw ApiError.badRequest('Stock for bundles is derived from their components');
+    }
+
+    const typeChanged = data.type !== undefined && data.type !== existingProduct.type;
+
+    if (data.stock !== undefined && (data.type ?? existingProduct.type) === 'LICENSE_KEY') {
+      throw ApiError.badRequest('Stock for license key products is the number of unassigned keys');
+    }
+
+    if (typeChanged && DigitalService.isDigital(data.type!)) {
+      await this.assertCanBeDigital(existingProduct);
+    }
+
+    if (typeChanged || data.stockPolicy !== undefined || data.preorderShipDate !== undefined) {
+      this.backorderService.assertValidPolicy(
+        {
+          stockPolicy: data.stockPolicy ?? existingProduct.stockPolicy,
+          preorderShipDate: data.preorderShipDate !== undefined ? data.preorderShipDate : existingProduct.preorderShipDate,
+        },
+        { isBundle: existingProduct.isBundle, type: data.type ?? existingProduct.type },
+        await this.hasVariants([id])
+      );
+    }
+
+    if (data.status !== undefined || data.publishAt !== undefined || data.unpublishAt !== undefined) {
+      this.publicationService.assertValidSchedule({
+        status: data.status ?? existingProduct.status,
+        publishAt: data.publishAt !== undefined ? data.publishAt : existingProduct.publishAt,
+        unpublishAt: data.unpublishAt !== undefined ? data.unpublishAt : existingProduct.unpublishAt,
+      });
+    }
+
+    if (data.price !== undefined && existingProduct.bundleDiscount !== null) {
+      throw ApiError.badRequest('The price of a discounted bundle is derived from its components');
+    }
+
     // Validate price if provided
     if (data.price !== undefined && data.price <= 0) {
       throw ApiError.badRequest('Price must be greater than 0');
     }
 
-    return this.db.product.update({
-      where: { id },
-      data,
+    const { categoryIds, ...productData } = data;
+
+    // Removing the sale price also removes its schedule
+    const saleRemoved = data.salePrice === null;
+    const previousPrices: PriceSnapshot = {
+      price: existingProduct.price,
+      salePrice: existingProduct.salePrice,
+      saleStartsAt: existingProduct.saleStartsAt,
+      saleEndsAt: existingProduct.saleEndsAt,
+    };
+    const prices: PriceSnapshot = {
+      price: data.price ?? previousPrices.price,
+      salePrice: data.salePrice !== undefined ? data.salePrice : previousPrices.salePrice,
+      saleStartsAt: saleRemoved ? null : data.saleStartsAt !== undefined ? data.saleStartsAt : previousPrices.saleStartsAt,
+      saleEndsAt: saleRemoved ? null : data.saleEndsAt !== undefined ? data.saleEndsAt : previousPrices.saleEndsAt,
+    };
+    const pricesChanged = this.pricingService.hasPriceChanged(previousPrices, prices);
+
+    if (pricesChanged) {
+      this.pricingService.assertValidPricing(prices);
+    }
+
+    if (categoryIds?.length) {
+      await this.categoryService.assertCategoriesExist(categoryIds);
+    }
+
+    // Slugs only change when set explicitly, so renaming a product keeps its URL
+    if (data.slug) {
+      await this.slugService.assertSlugAvailable(data.slug, id);
+    }
+
+    const product = await this.db.$transaction(async (tx) => {
+      if (data.slug) {
+        await this.slugService.changeSlug(id, existingProduct.slug, data.slug, tx);
+      }
+
+      const updated = await tx.product.update({
+        where: { id },
+        data: {
+          ...productData,
+          ...prices,
+          ...(categoryIds && {
+            categories: {
+              set: categoryIds.map(categoryId => ({ id: categoryId })),
+            },
+          }),
+        },
+        include: {
+          categories: true,
+        },
+      });
+
+      if (pricesChanged) {
+        await this.pricingService.recordPriceChange(id, prices, changedById, tx);
+      }
+
+      if (typeChanged) {
+        await this.digitalService.syncLicenseKeyStock([id], tx);
+      }
+
+      // Arriving stock goes to waiting backorders first; bundles containing
+      // this product follow what is left, and its price
+      if (data.stock !== undefined) {
+        await this.backorderService.releaseBackorders([id], tx);
+        await this.bundleService.syncBundleStock([id], tx);
+      }
+
+      if (Number(prices.price) !== Number(previousPrices.price)) {
+        await this.bundleService.syncBundlePrices([id], changedById, tx);
+      }
+
+      return updated;
     });
+
+    if (data.name !== undefined || data.description !== undefined) {
+      await this.searchService.refreshProduct(id);
+    }
+
+    if (data.stock !== undefined) {
+      this.restockService.queueNotifications([id]);
+    }
+
+    return PricingUtils.withEffectivePrice(product);
+  }
+
+  /**
+   * Get the price history of a product (Admin only)
+   */
+  async getPriceHistory(id: string, pagination: PaginationInput = {}): Promise<PaginatedResponse<any>> {
+    return this.pricingService.getPriceHistory(id, pagination);
   }
 
   /**
@@ -197,9 +475,16 @@ export class ProductService {
     // Check if product exists
     await this.getProductById(id, true); // Include inactive for admin operations
 
-    return this.db.product.update({
-      where: { id },
-      data: { isActive: false },
+    return this.db.$transaction(async (tx) => {
+      const product = await tx.product.update({
+        where: { id },
+        data: { isActive: false },
+      });
+
+      // Bundles can't be sold without this component
+      await this.bundleService.syncBundleStock([id], tx);
+
+      return product;
     });
   }
 
@@ -210,12 +495,18 @@ export class ProductService {
     // Check if product exists
     await this.getProductById(id, true);
 
-    // Check if product has any order items
-    const orderItemsCount = await this.db.orderItem.count({
-      where: { productId: id },
-    });
+    // Check if product has any order items, directly or as part of a bundle
+    const [orderItemsCount, bundledOrderItemsCount, bundleCount] = await Promise.all([
+      this.db.orderItem.count({ where: { productId: id } }),
+      this.db.orderItemComponent.count({ where: { productId: id } }),
+      this.db.bundleComponent.count({ where: { componentId: id } }),
+    ]);
 
-    if (orderItemsCount > 0) {
+    if (bundleCount > 0) {
+      throw ApiError.badRequest('Cannot delete a product that is part of a bundle. Remove it from its bundles first.');
+    }
+
+    if (orderItemsCount > 0 || bundledOrderItemsCount > 0) {
       throw ApiError.badRequest(
         'Cannot delete product with existing order history. Use soft delete instead.'
       );
@@ -226,6 +517,10 @@ export class ProductService {
       where: { productId: id },
     });
 
+    // Remove stored image and download files (their records cascade with the product)
+    await this.mediaService.deleteAllProductFiles(id);
+    await this.digitalService.deleteAllProductFiles(id);
+
     // Delete the product
     await this.db.product.delete({
       where: { id },
@@ -249,9 +544,15 @@ export class ProductService {
       throw ApiError.badRequest('Product is already active');
     }
 
-    return this.db.product.update({
-      where: { id },
-      data: { isActive: true },
+    return this.db.$transaction(async (tx) => {
+      const restored = await tx.product.update({
+        where: { id },
+        data: { isActive: true },
+      });
+
+      await this.bundleService.syncBundleStock([id], tx);
+
+      return restored;
     });
   }
 
@@ -260,6 +561,7 @@ export class ProductService {
    */
   async updateStock(id: string, quantity: number, operation: 'increase' | 'decrease'): Promise<any> {
     const product = await this.getProductById(id);
+    await this.assertStockIsEditable([id]);
 
     let newStock: number;
     if (operation === 'increase') {
@@ -271,10 +573,26 @@ export class ProductService {
       }
     }
 
-    return this.db.product.update({
-      where: { id },
-      data: { stock: newStock },
+    const updated = await this.db.$transaction(async (tx) => {
+      await tx.product.update({
+        where: { id },
+        data: { stock: newStock },
+      });
+
+      if (operation === 'increase') {
+        await this.backorderService.releaseBackorders([id], tx);
+      }
+
+      await this.bundleService.syncBundleStock([id], tx);
+
+      return tx.product.findUniqueOrThrow({ where: { id } });
     });
+
+    if (operation === 'increase') {
+      this.restockService.queueNotifications([id]);
+    }
+
+    return updated;
   }
 
   /**
@@ -293,6 +611,7 @@ export class ProductService {
       where: {
         isActive: true,
         stock: { lte: threshold },
+        type: { not: 'DOWNLOAD' },
       },
       orderBy: { stock: 'asc' },
     });
@@ -315,13 +634,14 @@ export class ProductService {
       this.db.product.count({ 
         where: { 
           isActive: true, 
-          stock: { lte: 10, gt: 0 } 
+          stock: { lte: 10, gt: 0 },
+          type: { not: 'DOWNLOAD' },
         } 
       }),
       this.db.product.count({ 
         where: { 
           isActive: true, 
-          stock: 0 
+          ...InventoryUtils.outOfStockWhere(),
         } 
       }),
     ]);
@@ -339,6 +659,9 @@ export class ProductService {
    * Bulk update product stocks (Admin only)
    */
   async bulkUpdateStock(updates: Array<{ id: string; stock: number }>): Promise<void> {
+    const productIds = updates.map(update => update.id);
+    await this.assertStockIsEditable(productIds);
+
     await this.db.$transaction(async (tx) => {
       for (const update of updates) {
         if (update.stock < 0) {
@@ -350,6 +673,300 @@ export class ProductService {
           data: { stock: update.stock },
         });
       }
+
+      await this.backorderService.releaseBackorders(productIds, tx);
+      await this.bundleService.syncBundleStock(productIds, tx);
+    });
+
+    this.restockService.queueNotifications(productIds);
+  }
+
+  /**
+   * Rebuild the full-text search index for all products (Admin only)
+   */
+  async reindexSearch(): Promise<{ reindexed: number }> {
+    const reindexed = await this.searchService.reindexAll();
+
+    return { reindexed };
+  }
+
+  /**
+   * Publish scheduled products and archive expired ones now (Admin only)
+   */
+  async applyPublicationSchedule(): Promise<{ published: number; archived: number }> {
+    return this.publicationService.applySchedule();
+  }
+
+  /**
+   * Stock can only be set directly on products that don't derive it from
+   * variants, bundle components or license keys
+   */
+  private async assertStockIsEditable(productIds: string[]): Promise<void> {
+    if (await this.hasVariants(productIds)) {
+      throw ApiError.badRequest('Stock for products with variants is managed per variant');
+    }
+
+    const bundleCount = await this.db.product.count({
+      where: { id: { in: productIds }, isBundle: true },
+    });
+
+    if (bundleCount > 0) {
+      throw ApiError.badRequest('Stock for bundles is derived from their components');
+    }
+
+    const licenseKeyProductCount = await this.db.product.count({
+      where: { id: { in: productIds }, type: 'LICENSE_KEY' },
+    });
+
+    if (licenseKeyProductCount > 0) {
+      throw ApiError.badRequest('Stock for license key products is the number of unassigned keys');
+    }
+  }
+
+  /**
+   * Digital products are sold as a whole: they can't have variants or take part in bundles
+   */
+  private async assertCanBeDigital(product: { id: string; isBundle: boolean }): Promise<void> {
+    if (await this.hasVariants([product.id])) {
+      throw ApiError.badRequest('Products with variants cannot be digital');
+    }
+
+    const bundleCount = await this.db.bundleComponent.count({
+      where: { componentId: product.id },
+    });
+
+    if (product.isBundle || bundleCount > 0) {
+      throw ApiError.badRequest('Bundles and bundle components cannot be digital');
+    }
+  }
+
+  /**
+   * Check whether any of the given products is sold through variants
+   */
+  private async hasVariants(productIds: string[]): Promise<boolean> {
+    const count = await this.db.productVariant.count({
+      where: { productId: { in: productIds } },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Fetch one page of products. Search results are ordered by relevance
+   * unless an explicit sort is requested, and carry highlighted snippets.
+   */
+  private async findProductPage(
+    where: any,
+    offset: number,
+    limit: number,
+    sort: SortKey[],
+    search?: string,
+    searchRanks?: Map<string, number>,
+    locale: string = config.defaultLocale
+  ): Promise<{ products: any[]; total: number }> {
+    if (!search || !searchRanks) {
+      const [products, total] = await Promise.all([
+        this.db.product.findMany({
+          where,
+          orderBy: this.buildProductOrderBy(sort),
+          skip: offset,
+          take: limit,
+        }),
+        this.db.product.count({ where }),
+      ]);
+
+      return { products, total };
+    }
+
+    const rankOf = (id: string) => searchRanks.get(id) ?? 0;
+    let pageIds: string[];
+    let total: number;
+
+    if (sort.length > 0) {
+      const [page, count] = await Promise.all([
+        this.db.product.findMany({
+          where,
+          select: { id: true },
+          orderBy: this.buildProductOrderBy(sort),
+          skip: offset,
+          take: limit,
+        }),
+        this.db.product.count({ where }),
+      ]);
+
+      pageIds = page.map(product => product.id);
+      total = count;
+    } else {
+      // Apply the remaining filters, then order the surviving matches by rank
+      const matching = await this.db.product.findMany({
+        where,
+        select: { id: true },
+      });
+
+      const orderedIds = matching
+        .map(product => ({ id: product.id, searchRank: rankOf(product.id) }))
+        .sort((a, b) => SortingUtils.compareRows(a, b, ProductService.RELEVANCE_ORDER))
+        .map(row => row.id);
+
+      pageIds = orderedIds.slice(offset, offset + limit);
+      total = orderedIds.length;
+    }
+
+    const products = await this.findProductsInOrder(pageIds);
+
+    return {
+      products: await this.withSearchDetails(products, search, searchRanks, locale),
+      total,
+    };
+  }
+
+  /**
+   * Fetch one page of products in cursor mode, ordered like findProductPage
+   */
+  private async findProductCursorPage(
+    where: any,
+    limit: number,
+    cursor: string,
+    sort: SortKey[],
+    search?: string,
+    searchRanks?: Map<string, number>,
+    locale: string = config.defaultLocale
+  ): Promise<CursorPaginatedResponse<any>> {
+    if (!search || !searchRanks || sort.length > 0) {
+      const page = await PaginationUtils.paginateByCursor(
+        ({ orderBy, after, take }) => this.db.product.findMany({
+          where: after ? { AND: [where, SortingUtils.buildKeysetWhere<Prisma.ProductWhereInput>(orderBy, after)] } : where,
+          orderBy,
+          take,
+        }),
+        { orderBy: this.buildProductOrderBy(sort), limit, cursor }
+      );
+
+      return search && searchRanks
+        ? { ...page, data: await this.withSearchDetails(page.data, search, searchRanks, locale) }
+        : page;
+    }
+
+    // Relevance is only known in memory, so walk the ranked matches there
+    const matching = await this.db.product.findMany({
+      where,
+      select: { id: true },
     });
+    const ranked = matching.map(product => ({
+      id: product.id,
+      searchRank: searchRanks.get(product.id) ?? 0,
+    }));
+
+    const page = await PaginationUtils.paginateByCursor(
+      async ({ orderBy, after, take }) => ranked
+        .filter(row => !after || SortingUtils.compareRows(row, after, orderBy) > 0)
+        .sort((a, b) => SortingUtils.compareRows(a, b, orderBy))
+        .slice(0, take),
+      { orderBy: ProductService.RELEVANCE_ORDER, limit, cursor }
+    );
+
+    const products = await this.findProductsInOrder(page.data.map(row => row.id));
+
+    return { ...page, data: await this.withSearchDetails(products, search, searchRanks, locale) };
+  }
+
+  /**
+   * Fetch products by ID, keeping the order of the given IDs
+   */
+  private async findProductsInOrder(ids: string[]): Promise<any[]> {
+    const products = await this.db.product.findMany({
+      where: { id: { in: ids } },
+    });
+
+    const productsById = new Map(products.map(product => [product.id, product]));
+
+    return ids
+      .filter(id => productsById.has(id))
+      .map(id => productsById.get(id)!);
+  }
+
+  /**
+   * Add the relevance score and highlighted snippets (in the searched locale) to search results
+   */
+  private async withSearchDetails(
+    products: any[],
+    search: string,
+    searchRanks: Map<string, number>,
+    locale: string = config.defaultLocale
+  ): Promise<any[]> {
+    const highlights = await this.searchService.getHighlights(products.map(product => product.id), search, locale);
+
+    return products.map(product => ({
+      ...product,
+      searchRank: searchRanks.get(product.id) ?? 0,
+      highlights: highlights.get(product.id) ?? null,
+    }));
+  }
+
+  /**
+   * Map public sort keys to product columns (newest first by default).
+   * Price sorts on the effective price, so running sales count.
+   */
+  private buildProductOrderBy(sort: SortKey[]): Array<Record<string, SortDirection>> {
+    return SortingUtils.buildOrderBy(
+      sort,
+      { price: 'sortPrice', popularity: 'salesCount', rating: 'averageRating' },
+      [{ field: 'createdAt', direction: 'desc' }]
+    );
+  }
+
+  /**
+   * Build the Prisma where clause shared by the product listings
+   */
+  private async buildProductWhere(
+    filters: ProductFilterInput,
+    includeInactive: boolean,
+    searchRanks?: Map<string, number>
+  ): Promise<any> {
+    const where: any = {};
+    const conditions: any[] = [];
+
+    if (!includeInactive) {
+      conditions.push(PublicationUtils.visibleWhere()); // Only show products live in the storefront
+    } else if (filters.status) {
+      where.status = filters.status;
+    }
+
+    // Add search filter (matches are ranked by SearchService)
+    if (searchRanks) {
+      where.id = { in: Array.from(searchRanks.keys()) };
+    }
+
+    // Add price filters (on the effective price, so running sales count)
+    if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+      conditions.push(PricingUtils.effectivePriceWhere({ gte: filters.minPrice, lte: filters.maxPrice }));
+    }
+
+    // Add stock filter (products whose stock is entirely held by cart reservations count as sold out)
+    if (filters.inStock !== undefined) {
+      const fullyReservedIds = await this.reservationService.getFullyReservedProductIds();
+      conditions.push(filters.inStock
+        ? InventoryUtils.inStockWhere(fullyReservedIds)
+        : InventoryUtils.outOfStockWhere(fullyReservedIds));
+    }
+
+    // Add category filter (includes products in any subcategory)
+    if (filters.categoryId) {
+      const categoryIds = await this.categoryService.getDescendantIds(filters.categoryId);
+      where.categories = {
+        some: { id: { in: categoryIds } },
+      };
+    }
+
+    // Add attribute filters (each attribute must match)
+    if (filters.attr) {
+      conditions.push(...await this.attributeService.buildFilterConditions(filters.attr));
+    }
+
+    if (conditions.length > 0) {
+      where.AND = conditions;
+    }
+
+    return where;
   }
 }
\ No newline at end of file
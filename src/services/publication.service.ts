@@ -0,0 +1,62 @@
+import { PrismaClient, PublicationStatus } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { ApiError } from '@/utils/response';
+
+export interface PublicationSchedule {
+  status: PublicationStatus;
+  publishAt: Date | null;
+  unpublishAt: Date | null;
+}
+
+export class PublicationService {
+  private db: PrismaClient;
+
+  constructor() {
+    this.db = prisma;
+  }
+
+  /**
+   * Check a product's publication status and window before saving them
+   */
+  assertValidSchedule(schedule: PublicationSchedule, now: Date = new Date()): void {
+    if (schedule.status === 'SCHEDULED' && !schedule.publishAt) {
+      throw ApiError.badRequest('Scheduled products need a publish time');
+    }
+
+    if (schedule.publishAt && schedule.unpublishAt && schedule.unpublishAt <= schedule.publishAt) {
+      throw ApiError.badRequest('Unpublish time must be after the publish time');
+    }
+
+    const goesLive = schedule.status === 'SCHEDULED' || schedule.status === 'PUBLISHED';
+
+    if (goesLive && schedule.unpublishAt && schedule.unpublishAt <= now) {
+      throw ApiError.badRequest('Unpublish time must be in the future');
+    }
+  }
+
+  /**
+   * Bring stored statuses in line with the publication windows: products
+   * past their unpublish time are archived, scheduled products past their
+   * publish time are published
+   */
+  async applySchedule(now: Date = new Date()): Promise<{ published: number; archived: number }> {
+    const [archived, published] = await this.db.$transaction([
+      this.db.product.updateMany({
+        where: {
+          status: { in: ['SCHEDULED', 'PUBLISHED'] },
+          unpublishAt: { lte: now },
+        },
+        data: { status: 'ARCHIVED' },
+      }),
+      this.db.product.updateMany({
+        where: {
+          status: 'SCHEDULED',
+          publishAt: { lte: now },
+        },
+        data: { status: 'PUBLISHED' },
+      }),
+    ]);
+
+    return { published: published.count, archived: archived.count };
+  }
+}
\ No newline at end of file
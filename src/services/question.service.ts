@@ -0,0 +1,369 @@
+import { PrismaClient, QuestionStatus } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { config } from '@/config';
+import { ApiError } from '@/utils/response';
+import { PublicationUtils } from '@/utils/publication';
+import { PaginationUtils } from '@/utils/pagination';
+import { PaginatedResponse } from '@/types';
+import {
+  CreateQuestionInput,
+  CreateAnswerInput,
+  ModerateQuestionInput,
+  PaginationInput,
+} from '@/utils/validation';
+
+const QNA_AUTHOR_SELECT = {
+  id: true,
+  name: true,
+} as const;
+
+/**
+ * Store answers first, then the most helpful
+ */
+const ANSWER_ORDER = [
+  { isOfficial: 'desc' },
+  { upvoteCount: 'desc' },
+  { createdAt: 'asc' },
+  { id: 'asc' },
+] as const;
+
+export class QuestionService {
+  private db: PrismaClient;
+
+  constructor() {
+    this.db = prisma;
+  }
+
+  /**
+   * Get the published questions of a product with their answers, newest first
+   */
+  async getProductQuestions(
+    productId: string,
+    pagination: PaginationInput = {}
+  ): Promise<PaginatedResponse<any>> {
+    await this.ensureProductIsVisible(productId);
+
+    const { page, limit } = PaginationUtils.validateAndNormalizePagination(pagination);
+    const offset = PaginationUtils.calculateOffset(page, limit);
+    const where = { productId, status: QuestionStatus.PUBLISHED };
+
+    const [questions, total] = await Promise.all([
+      this.db.productQuestion.findMany({
+        where,
+        include: {
+          user: { select: QNA_AUTHOR_SELECT },
+          answers: {
+            include: { user: { select: QNA_AUTHOR_SELECT } },
+            orderBy: [...ANSWER_ORDER],
+          },
+        },
+        orderBy: [{ publishedAt: 'desc' }, { id: 'asc' }],
+        skip: offset,
+        take: limit,
+      }),
+      this.db.productQuestion.count({ where }),
+    ]);
+
+    return PaginationUtils.createPaginatedResponse(questions, {
+      page,
+      limit,
+      total,
+    });
+  }
+
+  /**
+   * Get the questions asked by a user, including those awaiting moderation
+   */
+  async getUserQuestions(userId: string): Promise<any[]> {
+    return this.db.productQuestion.findMany({
+      where: { userId },
+      include: {
+        product: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        answers: {
+          include: { user: { select: QNA_AUTHOR_SELECT } },
+          orderBy: [...ANSWER_ORDER],
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Ask a question about a product. Questions are published once a
+   * moderator approves them or they get their first answer.
+   */
+  async askQuestion(userId: string, productId: string, data: CreateQuestionInput): Promise<any> {
+    const product = await this.db.product.findFirst({
+      where: { id: productId, ...PublicationUtils.visibleWhere() },
+      select: { id: true },
+    });
+
+    if (!product) {
+      throw ApiError.notFound('Product not found');
+    }
+
+    return this.db.productQuestion.create({
+      data: {
+        productId,
+        userId,
+        body: data.body,
+      },
+    });
+  }
+
+  /**
+   * Delete a question with its answers. Users may delete their own questions, admins any question.
+   */
+  async deleteQuestion(questionId: string, user: { id: string; role: string }): Promise<void> {
+    const question = await this.getQuestionById(questionId);
+
+    if (user.role !== 'ADMIN' && question.userId !== user.id) {
+      throw ApiError.notFound('Question not found');
+    }
+
+    await this.db.productQuestion.delete({
+      where: { id: questionId },
+    });
+  }
+
+  /**
+   * Answer a question. Admins answer for the store and publish the question;
+   * when buyer answers are enabled, customers who received the product may
+   * answer published questions.
+   */
+  async answerQuestion(questionId: string, user: { id: string; role: string }, data: CreateAnswerInput): Promise<any> {
+    const question = await this.getQuestionById(questionId);
+    const isOfficial = user.role === 'ADMIN';
+
+    if (!isOfficial && question.status !== QuestionStatus.PUBLISHED) {
+      throw ApiError.notFound('Question not found');
+    }
+
+    const isVerifiedBuyer = await this.hasReceivedProduct(user.id, question.productId);
+
+    if (!isOfficial && !(config.allowBuyerAnswers && isVerifiedBuyer)) {
+      throw ApiError.forbidden('Only the store or customers who received this product can answer');
+    }
+
+    return this.db.$transaction(async (tx) => {
+      const answer = await tx.productAnswer.create({
+        data: {
+          questionId,
+          userId: user.id,
+          body: data.body,
+          isOfficial,
+          isVerifiedBuyer,
+        },
+        include: { user: { select: QNA_AUTHOR_SELECT } },
+      });
+
+      await tx.productQuestion.update({
+        where: { id: questionId },
+        data: {
+          answerCount: { increment: 1 },
+          ...(question.status === QuestionStatus.PENDING && {
+            status: QuestionStatus.PUBLISHED,
+            publishedAt: new Date(),
+          }),
+        },
+      });
+
+      return answer;
+    });
+  }
+
+  /**
+   * Delete an answer. Users may delete their own answers, admins any answer.
+   */
+  async deleteAnswer(answerId: string, user: { id: string; role: string }): Promise<void> {
+    const answer = await this.db.productAnswer.findUnique({
+      where: { id: answerId },
+    });
+
+    if (!answer || (user.role !== 'ADMIN' && answer.userId !== user.id)) {
+      throw ApiError.notFound('Answer not found');
+    }
+
+    await this.db.$transaction([
+      this.db.productAnswer.delete({
+        where: { id: answerId },
+      }),
+      this.db.productQuestion.update({
+        where: { id: answer.questionId },
+        data: { answerCount: { decrement: 1 } },
+      }),
+    ]);
+  }
+
+  /**
+   * Upvote a helpful answer to a published question, once per user
+   */
+  async upvoteAnswer(answerId: string, userId: string): Promise<{ upvoteCount: number }> {
+    const answer = await this.getPublishedAnswer(answerId);
+
+    if (answer.userId === userId) {
+      throw ApiError.badRequest('You cannot upvote your own answer');
+    }
+
+    const existingVote = await this.db.answerVote.findUnique({
+      where: {
+        answerId_userId: { answerId, userId },
+      },
+    });
+
+    if (existingVote) {
+      throw ApiError.conflict('You have already upvoted this answer');
+    }
+
+    const [, updatedAnswer] = await this.db.$transaction([
+      this.db.answerVote.create({
+        data: { answerId, userId },
+      }),
+      this.db.productAnswer.update({
+        where: { id: answerId },
+        data: { upvoteCount: { increment: 1 } },
+        select: { upvoteCount: true },
+      }),
+    ]);
+
+    return updatedAnswer;
+  }
+
+  /**
+   * Take back an upvote
+   */
+  async removeUpvote(answerId: string, userId: string): Promise<{ upvoteCount: number }> {
+    const vote = await this.db.answerVote.findUnique({
+      where: {
+        answerId_userId: { answerId, userId },
+      },
+    });
+
+    if (!vote) {
+      throw ApiError.notFound('Upvote not found');
+    }
+
+    const [, updatedAnswer] = await this.db.$transaction([
+      this.db.answerVote.delete({
+        where: { id: vote.id },
+      }),
+      this.db.productAnswer.update({
+        where: { id: answerId },
+        data: { upvoteCount: { decrement: 1 } },
+        select: { upvoteCount: true },
+      }),
+    ]);
+
+    return updatedAnswer;
+  }
+
+  /**
+   * Get questions for moderation, oldest first (Admin only)
+   */
+  async getQuestionsForModeration(
+    pagination: PaginationInput = {},
+    status?: QuestionStatus
+  ): Promise<PaginatedResponse<any>> {
+    const { page, limit } = PaginationUtils.validateAndNormalizePagination(pagination);
+    const offset = PaginationUtils.calculateOffset(page, limit);
+    const where = status ? { status } : {};
+
+    const [questions, total] = await Promise.all([
+      this.db.productQuestion.findMany({
+        where,
+        include: {
+          user: { select: { ...QNA_AUTHOR_SELECT, email: true } },
+          product: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        skip: offset,
+        take: limit,
+      }),
+      this.db.productQuestion.count({ where }),
+    ]);
+
+    return PaginationUtils.createPaginatedResponse(questions, {
+      page,
+      limit,
+      total,
+    });
+  }
+
+  /**
+   * Publish or hide a question (Admin only)
+   */
+  async moderateQuestion(questionId: string, data: ModerateQuestionInput): Promise<any> {
+    const question = await this.getQuestionById(questionId);
+
+    return this.db.productQuestion.update({
+      where: { id: questionId },
+      data: {
+        status: data.status,
+        ...(data.status === QuestionStatus.PUBLISHED && !question.publishedAt && { publishedAt: new Date() }),
+      },
+    });
+  }
+
+  private async hasReceivedProduct(userId: string, productId: string): Promise<boolean> {
+    const purchase = await this.db.orderItem.findFirst({
+      where: {
+        productId,
+        order: {
+          userId,
+          status: 'DELIVERED',
+        },
+      },
+      select: { id: true },
+    });
+
+    return purchase !== null;
+  }
+
+  private async getPublishedAnswer(answerId: string): Promise<any> {
+    const answer = await this.db.productAnswer.findFirst({
+      where: {
+        id: answerId,
+        question: { status: QuestionStatus.PUBLISHED },
+      },
+    });
+
+    if (!answer) {
+      throw ApiError.notFound('Answer not found');
+    }
+
+    return answer;
+  }
+
+  private async getQuestionById(questionId: string): Promise<any> {
+    const question = await this.db.productQuestion.findUnique({
+      where: { id: questionId },
+    });
+
+    if (!question) {
+      throw ApiError.notFound('Question not found');
+    }
+
+    return question;
+  }
+
+  private async ensureProductIsVisible(productId: string): Promise<void> {
+    const product = await this.db.product.findFirst({
+      where: { id: productId, ...PublicationUtils.visibleWhere() },
+      select: { id: true },
+    });
+
+    if (!product) {
+      throw ApiError.notFound('Product not found');
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,241 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { ApiError } from '@/utils/response';
+import { PricingUtils } from '@/utils/pricing';
+import { InventoryUtils } from '@/utils/inventory';
+import { PublicationUtils } from '@/utils/publication';
+
+export type RelatedProductReason = 'bought_together' | 'similar_price';
+
+export type RecommendationReason = 'personalized' | 'popular';
+
+export class RecommendationService {
+  /**
+   * Co-purchased products stored per product by the refresh job
+   */
+  static readonly MAX_RELATED_PER_PRODUCT = 20;
+
+  /**
+   * Price band of the fallback, relative to the product's price
+   */
+  static readonly SIMILAR_PRICE_RANGE = 0.25;
+
+  /**
+   * How strongly each customer signal counts towards a recommendation;
+   * current intent weighs more than past purchases
+   */
+  static readonly SIGNAL_WEIGHTS = {
+    purchased: 1,
+    wishlisted: 2,
+    inCart: 3,
+  } as const;
+
+  private db: PrismaClient;
+
+  constructor() {
+    this.db = prisma;
+  }
+
+  /**
+   * Get products frequently bought together with a product, topped up with
+   * popular products in a similar price range. Only reads precomputed pairs.
+   */
+  async getRelatedProducts(productId: string, limit: number): Promise<any[]> {
+    const product = await this.db.product.findFirst({
+      where: { id: productId, ...PublicationUtils.visibleWhere() },
+      select: { id: true, price: true },
+    });
+
+    if (!product) {
+      throw ApiError.notFound('Product not found');
+    }
+
+    const pairs = await this.db.relatedProduct.findMany({
+      where: {
+        productId,
+        relatedProduct: PublicationUtils.visibleWhere(),
+      },
+      include: { relatedProduct: true },
+      orderBy: [{ score: 'desc' }, { relatedProductId: 'asc' }],
+      take: limit,
+    });
+
+    const related = pairs.map(pair => ({
+      ...PricingUtils.withEffectivePrice(pair.relatedProduct),
+      reason: 'bought_together' as RelatedProductReason,
+      coPurchaseCount: pair.score,
+    }));
+
+    if (related.length < limit) {
+      const price = Number(product.price);
+      const range = RecommendationService.SIMILAR_PRICE_RANGE;
+
+      const similar = await this.db.product.findMany({
+        where: {
+          id: { notIn: [productId, ...related.map(item => item.id)] },
+          AND: [PublicationUtils.visibleWhere(), InventoryUtils.inStockWhere()],
+          price: { gte: price * (1 - range), lte: price * (1 + range) },
+        },
+        orderBy: [{ salesCount: 'desc' }, { id: 'asc' }],
+        take: limit - related.length,
+      });
+
+      related.push(...similar.map(item => ({
+        ...PricingUtils.withEffectivePrice(item),
+        reason: 'similar_price' as RelatedProductReason,
+        coPurchaseCount: 0,
+      })));
+    }
+
+    return related;
+  }
+
+  /**
+   * Rank active, in-stock products for a customer with the item-to-item model:
+   * products similar to what they bought, wishlisted or have in their cart
+   * score higher. Products they already bought, wishlisted or have in their
+   * cart are left out. Customers without signals get popular products.
+   */
+  async getRecommendations(userId: string, limit: number): Promise<any[]> {
+    const [purchased, wishlisted, inCart] = await Promise.all([
+      this.db.orderItem.findMany({
+        where: { order: { userId, status: { not: 'CANCELLED' } } },
+        select: { productId: true },
+        distinct: ['productId'],
+      }),
+      this.db.wishlistItem.findMany({
+        where: { wishlist: { userId } },
+        select: { productId: true },
+        distinct: ['productId'],
+      }),
+      this.db.cartItem.findMany({
+        where: { cart: { userId } },
+        select: { productId: true },
+        distinct: ['productId'],
+      }),
+    ]);
+
+    const weights = RecommendationService.SIGNAL_WEIGHTS;
+    const seedWeights = new Map<string, number>();
+    const addSeeds = (items: Array<{ productId: string }>, weight: number) => {
+      for (const { productId } of items) {
+        seedWeights.set(productId, (seedWeights.get(productId) ?? 0) + weight);
+      }
+    };
+
+    addSeeds(purchased, weights.purchased);
+    addSeeds(wishlisted, weights.wishlisted);
+    addSeeds(inCart, weights.inCart);
+
+    const seedIds = [...seedWeights.keys()];
+    const scores = new Map<string, number>();
+
+    if (seedIds.length > 0) {
+      const pairs = await this.db.relatedProduct.findMany({
+        where: {
+          productId: { in: seedIds },
+          relatedProductId: { notIn: seedIds },
+        },
+        select: { productId: true, relatedProductId: true, similarity: true },
+      });
+
+      for (const pair of pairs) {
+        const score = (scores.get(pair.relatedProductId) ?? 0) + seedWeights.get(pair.productId)! * pair.similarity;
+        scores.set(pair.relatedProductId, score);
+      }
+    }
+
+    const candidates = await this.db.product.findMany({
+      where: {
+        id: { in: [...scores.keys()] },
+        AND: [PublicationUtils.visibleWhere(), InventoryUtils.inStockWhere()],
+      },
+    });
+
+    const recommended = candidates
+      .sort((a, b) => scores.get(b.id)! - scores.get(a.id)! || b.salesCount - a.salesCount)
+      .slice(0, limit)
+      .map(product => ({
+        ...PricingUtils.withEffectivePrice(product),
+        reason: 'personalized' as RecommendationReason,
+        score: Math.round(scores.get(product.id)! * 1000) / 1000,
+      }));
+
+    if (recommended.length < limit) {
+      const popular = await this.db.product.findMany({
+        where: {
+          id: { notIn: [...seedIds, ...recommended.map(item => item.id)] },
+          AND: [PublicationUtils.visibleWhere(), InventoryUtils.inStockWhere()],
+        },
+        orderBy: [{ salesCount: 'desc' }, { id: 'asc' }],
+        take: limit - recommended.length,
+      });
+
+      recommended.push(...popular.map(product => ({
+        ...PricingUtils.withEffectivePrice(product),
+        reason: 'popular' as RecommendationReason,
+        score: 0,
+      })));
+    }
+
+    return recommended;
+  }
+
+  /**
+   * Recompute "frequently bought together" pairs from the order items of
+   * non-cancelled orders, keeping the strongest pairs per product. Each pair
+   * also gets the cosine similarity of the two products' order sets, which
+   * personalized recommendations are built from.
+   */
+  async refreshRelatedProducts(): Promise<{ products: number; pairs: number }> {
+    const rows = await this.db.$queryRaw<Array<{
+      productId: string;
+      relatedProductId: string;
+      score: number;
+      similarity: number;
+    }>>`
+      WITH purchases AS (
+        SELECT DISTINCT i."orderId", i."productId"
+        FROM order_items i
+        JOIN orders o ON o.id = i."orderId"
+        WHERE o.status <> 'CANCELLED'
+      ),
+      product_orders AS (
+        SELECT "productId", COUNT(*) AS orders
+        FROM purchases
+        GROUP BY "productId"
+      )
+      SELECT "productId", "relatedProductId", score, similarity
+      FROM (
+        SELECT a."productId", b."productId" AS "relatedProductId",
+          COUNT(*)::int AS score,
+          (COUNT(*) / SQRT(MAX(pa.orders) * MAX(pb.orders)))::float8 AS similarity,
+          ROW_NUMBER() OVER (
+            PARTITION BY a."productId"
+            ORDER BY COUNT(*) DESC, b."productId"
+          ) AS position
+        FROM purchases a
+        JOIN purchases b ON b."orderId" = a."orderId" AND b."productId" <> a."productId"
+        JOIN product_orders pa ON pa."productId" = a."productId"
+        JOIN product_orders pb ON pb."productId" = b."productId"
+        GROUP BY a."productId", b."productId"
+      ) pairs
+      WHERE position <= ${RecommendationService.MAX_RELATED_PER_PRODUCT}
+    `;
+
+    const computedAt = new Date();
+
+    // Swap the whole set at once so readers never see a half-built cache
+    await this.db.$transaction([
+      this.db.relatedProduct.deleteMany(),
+      this.db.relatedProduct.createMany({
+        data: rows.map(row => ({ ...row, computedAt })),
+      }),
+    ] as Prisma.PrismaPromise<unknown>[]);
+
+    return {
+      products: new Set(rows.map(row => row.productId)).size,
+      pairs: rows.length,
+    };
+  }
+}
\ No newline at end of file
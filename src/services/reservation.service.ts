@@ -0,0 +1,288 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { config } from '@/config';
+
+export interface ReservedStock {
+  products: Map<string, number>;
+  variants: Map<string, number>;
+}
+
+export class ReservationService {
+  private db: PrismaClient;
+
+  constructor() {
+    this.db = prisma;
+  }
+
+  /**
+   * Units held by unexpired reservations per product and per variant.
+   * Reservations of the given cart are left out, since they hold stock for
+   * that cart's own owner.
+   *
+   * A bundle line holds its components, so components also count the units
+   * held through bundles, and a bundle counts as reserved whatever part of
+   * its stock the components can no longer make up.
+   */
+  async getReservedQuantities(
+    productIds: string[],
+    excludeCartId?: string,
+    tx: Prisma.TransactionClient = this.db
+  ): Promise<ReservedStock> {
+    if (productIds.length === 0) {
+      return { products: new Map(), variants: new Map() };
+    }
+
+    const active: Prisma.StockReservationWhereInput = {
+      expiresAt: { gt: new Date() },
+      ...(excludeCartId && { cartItem: { cartId: { not: excludeCartId } } }),
+    };
+
+    const bundles = await tx.product.findMany({
+      where: { id: { in: productIds }, isBundle: true },
+      select: {
+        id: true,
+        stock: true,
+        bundleComponents: {
+          select: {
+            componentId: true,
+            quantity: true,
+            component: { select: { stock: true, isActive: true } },
+          },
+        },
+      },
+    });
+    const componentIds = bundles.flatMap(bundle => bundle.bundleComponents.map(({ componentId }) => componentId));
+    const held = await this.getHeldStock(Array.from(new Set([...productIds, ...componentIds])), active, tx);
+
+    const products = new Map(productIds.map(id => [id, held.get(id) ?? 0]));
+    for (const bundle of bundles) {
+      const sets = bundle.bundleComponents.map(({ componentId, quantity, component }) =>
+        component.isActive
+          ? Math.floor(Math.max(component.stock - (held.get(componentId) ?? 0), 0) / quantity)
+          : 0
+      );
+      const availableSets = sets.length > 0 ? Math.min(...sets) : 0;
+
+      products.set(bundle.id, Math.max(bundle.stock - availableSets, 0));
+    }
+
+    const variantTotals = await tx.stockReservation.groupBy({
+      by: ['variantId'],
+      where: { ...active, productId: { in: productIds }, variantId: { not: null } },
+      _sum: { quantity: true },
+    });
+
+    return {
+      products,
+      variants: new Map(variantTotals.map(total => [total.variantId!, total._sum.quantity ?? 0])),
+    };
+  }
+
+  /**
+   * Units of each product held by the matching reservations, both directly
+   * and as components of reserved bundles
+   */
+  private async getHeldStock(
+    productIds: string[],
+    where: Prisma.StockReservationWhereInput,
+    tx: Prisma.TransactionClient
+  ): Promise<Map<string, number>> {
+    const direct = await tx.stockReservation.groupBy({
+      by: ['productId'],
+      where: { ...where, productId: { in: productIds } },
+      _sum: { quantity: true },
+    });
+    const throughBundles = await tx.stockReservation.findMany({
+      where: {
+        ...where,
+        product: { bundleComponents: { some: { componentId: { in: productIds } } } },
+      },
+      select: {
+        quantity: true,
+        product: {
+          select: { bundleComponents: { select: { componentId: true, quantity: true } } },
+        },
+      },
+    });
+
+    const held = new Map(direct.map(total => [total.productId, total._sum.quantity ?? 0]));
+    for (const reservation of throughBundles) {
+      for (const { componentId, quantity } of reservation.product.bundleComponents) {
+        held.set(componentId, (held.get(componentId) ?? 0) + reservation.quantity * quantity);
+      }
+    }
+
+    return held;
+  }
+
+  /**
+   * Lock the product and variant rows of cart lines until the transaction
+   * ends, so concurrent checkouts of the same stock check and hold it one
+   * after the other. Bundle components are locked along with their bundles.
+   * Rows are locked in ID order to avoid deadlocks.
+   */
+  async lockStock(
+    items: Array<{ productId: string; variantId: string | null }>,
+    tx: Prisma.TransactionClient
+  ): Promise<void> {
+    const components = await tx.bundleComponent.findMany({
+      where: { bundleId: { in: items.map(item => item.productId) } },
+      select: { componentId: true },
+    });
+    const productIds = Array.from(
+      new Set([...items.map(item => item.productId), ...components.map(({ componentId }) => componentId)])
+    ).sort();
+    const variantIds = Array.from(new Set(items.flatMap(item => (item.variantId ? [item.variantId] : [])))).sort();
+
+    if (productIds.length > 0) {
+      await tx.$queryRaw`SELECT id FROM products WHERE id IN (${Prisma.join(productIds)}) ORDER BY id FOR UPDATE`;
+    }
+
+    if (variantIds.length > 0) {
+      await tx.$queryRaw`SELECT id FROM product_variants WHERE id IN (${Prisma.join(variantIds)}) ORDER BY id FOR UPDATE`;
+    }
+  }
+
+  /**
+   * Hold the stock of every line of a cart for the reservation TTL, or
+   * extend the holds it already has. A line holds what it can take from the
+   * stock on hand that isn't held elsewhere; backordered units and downloads
+   * need no hold. Returns when the holds expire.
+   */
+  async reserveCart(cartId: string, now: Date = new Date()): Promise<Date> {
+    const expiresAt = new Date(now.getTime() + config.stockReservationTtlMinutes * 60 * 1000);
+
+    await this.db.$transaction(async (tx) => {
+      await this.lockStock(
+        await tx.cartItem.findMany({
+          where: { cartId },
+          select: { productId: true, variantId: true },
+        }),
+        tx
+      );
+
+      // Stock and other carts' holds are read after the lock, so they are current
+      const items = await tx.cartItem.findMany({
+        where: { cartId },
+        include: {
+          product: true,
+          variant: true,
+        },
+      });
+
+      // Lines are held one by one, so a line sees what the lines before it hold
+      // (a bundle and one of its components can draw on the same stock)
+      await tx.stockReservation.deleteMany({
+        where: { cartItem: { cartId } },
+      });
+
+      for (const item of items) {
+        const reserved = await this.getReservedQuantities([item.productId], undefined, tx);
+        const unheldStock = item.variant
+          ? item.variant.stock - (reserved.variants.get(item.variant.id) ?? 0)
+          : item.product.stock - (reserved.products.get(item.productId) ?? 0);
+        const quantity = item.product.type === 'DOWNLOAD' ? 0 : Math.min(item.quantity, Math.max(unheldStock, 0));
+
+        if (quantity === 0) {
+          continue;
+        }
+
+        await tx.stockReservation.create({
+          data: {
+            cartItemId: item.id,
+            productId: item.productId,
+            variantId: item.variantId,
+            quantity,
+            expiresAt,
+          },
+        });
+      }
+    });
+
+    return expiresAt;
+  }
+
+  /**
+   * Shrink the hold of a cart line to its new, lower quantity
+   */
+  async limitToQuantity(cartItemId: string, quantity: number): Promise<void> {
+    await this.db.stockReservation.updateMany({
+      where: {
+        cartItemId,
+        quantity: { gt: quantity },
+      },
+      data: { quantity },
+    });
+  }
+
+  /**
+   * Products whose stock on hand is entirely held by reservations, so
+   * listings show them as out of stock
+   */
+  async getFullyReservedProductIds(): Promise<string[]> {
+    const totals = await this.db.stockReservation.groupBy({
+      by: ['productId'],
+      where: { expiresAt: { gt: new Date() } },
+    });
+
+    if (totals.length === 0) {
+      return [];
+    }
+
+    // Reserved products, the components of reserved bundles, and the bundles
+    // sharing stock with either
+    const reservedIds = totals.map(total => total.productId);
+    const products = await this.db.product.findMany({
+      where: {
+        OR: [
+          { id: { in: reservedIds } },
+          { bundledIn: { some: { bundleId: { in: reservedIds } } } },
+          { bundleComponents: { some: { componentId: { in: reservedIds } } } },
+          { bundleComponents: { some: { component: { bundledIn: { some: { bundleId: { in: reservedIds } } } } } } },
+        ],
+      },
+      select: { id: true, stock: true },
+    });
+    const reserved = await this.getReservedQuantities(products.map(product => product.id));
+
+    return products
+      .filter(product => {
+        const held = reserved.products.get(product.id) ?? 0;
+        return held > 0 && held >= product.stock;
+      })
+      .map(product => product.id);
+  }
+
+  /**
+   * Add the stock that isn't held by reservations to products (and their
+   * variants, when included)
+   */
+  async withAvailableStock<T extends { id: string; stock: number; [key: string]: any }>(
+    products: T[]
+  ): Promise<Array<T & { availableStock: number }>> {
+    const reserved = await this.getReservedQuantities(products.map(product => product.id));
+
+    return products.map(product => ({
+      ...product,
+      availableStock: Math.max(product.stock - (reserved.products.get(product.id) ?? 0), 0),
+      ...(Array.isArray(product.variants) && {
+        variants: product.variants.map((variant: any) => ({
+          ...variant,
+          availableStock: Math.max(variant.stock - (reserved.variants.get(variant.id) ?? 0), 0),
+        })),
+      }),
+    }));
+  }
+
+  /**
+   * Delete expired reservations. Expired holds already stop counting when
+   * they expire; this only clears them out.
+   */
+  async releaseExpired(now: Date = new Date()): Promise<{ released: number }> {
+    const { count } = await this.db.stockReservation.deleteMany({
+      where: { expiresAt: { lte: now } },
+    });
+
+    return { released: count };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,157 @@
+import { PrismaClient } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { ApiError } from '@/utils/response';
+import { InventoryUtils } from '@/utils/inventory';
+import { PublicationUtils } from '@/utils/publication';
+import { getNotificationChannel } from '@/utils/notification';
+
+export class RestockService {
+  private db: PrismaClient;
+
+  constructor() {
+    this.db = prisma;
+  }
+
+  /**
+   * Get the products a customer is waiting for
+   */
+  async getUserSubscriptions(userId: string): Promise<any[]> {
+    return this.db.stockSubscription.findMany({
+      where: { userId },
+      include: {
+        product: {
+          select: {
+            id: true,
+            name: true,
+            slug: true,
+            stock: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Ask to be notified once a sold-out product is back in stock
+   */
+  async subscribe(userId: string, productId: string): Promise<any> {
+    const product = await this.db.product.findFirst({
+      where: { id: productId, ...PublicationUtils.visibleWhere() },
+      select: { id: true },
+    });
+
+    if (!product) {
+      throw ApiError.notFound('Product not found');
+    }
+
+    const soldOut = await this.db.product.count({
+      where: { id: productId, ...InventoryUtils.outOfStockWhere() },
+    });
+
+    if (soldOut === 0) {
+      throw ApiError.badRequest('Product is in stock');
+    }
+
+    const existingSubscription = await this.db.stockSubscription.findUnique({
+      where: {
+        productId_userId: { productId, userId },
+      },
+    });
+
+    if (existingSubscription) {
+      throw ApiError.conflict('You will already be notified when this product is back in stock');
+    }
+
+    return this.db.stockSubscription.create({
+      data: { productId, userId },
+    });
+  }
+
+  /**
+   * Stop waiting for a product
+   */
+  async unsubscribe(userId: string, productId: string): Promise<void> {
+    const { count } = await this.db.stockSubscription.deleteMany({
+      where: { productId, userId },
+    });
+
+    if (count === 0) {
+      throw ApiError.notFound('Subscription not found');
+    }
+  }
+
+  /**
+   * Notify the customers waiting for the given products, or bundles
+   * containing them, that are in stock again. Subscriptions are only taken
+   * out on sold-out products, so any subscription on a product with stock
+   * means it went from zero to positive. Each subscription is removed
+   * before its notification is sent, so overlapping calls can't notify a
+   * customer twice; failed ones are put back and retried on the next restock.
+   */
+  async notifySubscribers(productIds: string[]): Promise<{ notified: number }> {
+    if (productIds.length === 0) {
+      return { notified: 0 };
+    }
+
+    const subscriptions = await this.db.stockSubscription.findMany({
+      where: {
+        product: {
+          stock: { gt: 0 },
+          OR: [
+            { id: { in: productIds } },
+            { bundleComponents: { some: { componentId: { in: productIds } } } },
+          ],
+          AND: [PublicationUtils.visibleWhere()],
+        },
+      },
+      include: {
+        user: { select: { id: true, email: true, name: true } },
+        product: { select: { id: true, name: true, slug: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const channel = getNotificationChannel();
+    let notified = 0;
+
+    for (const { id, productId, userId, createdAt, user, product } of subscriptions) {
+      const { count } = await this.db.stockSubscription.deleteMany({ where: { id } });
+
+      // Claimed by another call
+      if (count === 0) {
+        continue;
+      }
+
+      try {
+        await channel.send({
+          type: 'BACK_IN_STOCK',
+          recipient: user,
+          subject: `${product.name} is back in stock`,
+          message: `Hi ${user.name}, ${product.name} is available again.`,
+          data: { productId: product.id, slug: product.slug },
+        });
+      } catch (error) {
+        console.error(`Failed to send back-in-stock notification ${id}:`, error);
+        await this.db.stockSubscription.createMany({
+          data: [{ id, productId, userId, createdAt }],
+          skipDuplicates: true,
+        });
+        continue;
+      }
+
+      notified++;
+    }
+
+    return { notified };
+  }
+
+  /**
+   * Notify subscribers without holding up or failing the stock change
+   */
+  queueNotifications(productIds: string[]): void {
+    this.notifySubscribers(productIds).catch(error => {
+      console.error('Failed to send back-in-stock notifications:', error);
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,283 @@
+import { PrismaClient, Prisma, ReviewStatus } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { ApiError } from '@/utils/response';
+import { PublicationUtils } from '@/utils/publication';
+import { PaginationUtils } from '@/utils/pagination';
+import { PaginatedResponse } from '@/types';
+import {
+  CreateReviewInput,
+  UpdateReviewInput,
+  ModerateReviewInput,
+  PaginationInput,
+} from '@/utils/validation';
+
+const REVIEW_AUTHOR_SELECT = {
+  id: true,
+  name: true,
+} as const;
+
+export class ReviewService {
+  private db: PrismaClient;
+
+  constructor() {
+    this.db = prisma;
+  }
+
+  /**
+   * Get approved reviews for a product, newest first
+   */
+  async getProductReviews(
+    productId: string,
+    pagination: PaginationInput = {}
+  ): Promise<PaginatedResponse<any>> {
+    await this.ensureProductExists(productId);
+
+    const { page, limit } = PaginationUtils.validateAndNormalizePagination(pagination);
+    const offset = PaginationUtils.calculateOffset(page, limit);
+    const where = { productId, status: ReviewStatus.APPROVED };
+
+    const [reviews, total] = await Promise.all([
+      this.db.review.findMany({
+        where,
+        include: {
+          user: { select: REVIEW_AUTHOR_SELECT },
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+        skip: offset,
+        take: limit,
+      }),
+      this.db.review.count({ where }),
+    ]);
+
+    return PaginationUtils.createPaginatedResponse(reviews, {
+      page,
+      limit,
+      total,
+    });
+  }
+
+  /**
+   * Get the reviews written by a customer, including those awaiting moderation
+   */
+  async getUserReviews(userId: string): Promise<any[]> {
+    return this.db.review.findMany({
+      where: { userId },
+      include: {
+        product: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Review a product. Only customers with a delivered order containing the
+   * product may review it, once. New reviews await moderation.
+   */
+  async createReview(userId: string, productId: string, data: CreateReviewInput): Promise<any> {
+    const product = await this.db.product.findFirst({
+      where: { id: productId, ...PublicationUtils.visibleWhere() },
+      select: { id: true },
+    });
+
+    if (!product) {
+      throw ApiError.notFound('Product not found');
+    }
+
+    const purchase = await this.db.orderItem.findFirst({
+      where: {
+        productId,
+        order: {
+          userId,
+          status: 'DELIVERED',
+        },
+      },
+      select: { id: true },
+    });
+
+    if (!purchase) {
+      throw ApiError.forbidden('Only customers who received this product can review it');
+    }
+
+    const existingReview = await this.db.review.findUnique({
+      where: {
+        productId_userId: { productId, userId },
+      },
+    });
+
+    if (existingReview) {
+      throw ApiError.conflict('You have already reviewed this product');
+    }
+
+    return this.db.review.create({
+      data: {
+        productId,
+        userId,
+        rating: data.rating,
+        title: data.title ?? null,
+        body: data.body ?? null,
+      },
+    });
+  }
+
+  /**
+   * Edit a review. Edited reviews go back to moderation.
+   */
+  async updateReview(reviewId: string, userId: string, data: UpdateReviewInput): Promise<any> {
+    const review = await this.getOwnReview(reviewId, userId);
+
+    return this.db.$transaction(async (tx) => {
+      const updatedReview = await tx.review.update({
+        where: { id: reviewId },
+        data: {
+          ...data,
+          status: ReviewStatus.PENDING,
+          moderatedAt: null,
+        },
+      });
+
+      if (review.status === ReviewStatus.APPROVED) {
+        await this.refreshProductRating(review.productId, tx);
+      }
+
+      return updatedReview;
+    });
+  }
+
+  /**
+   * Delete a review. Customers may delete their own reviews, admins any review.
+   */
+  async deleteReview(reviewId: string, user: { id: string; role: string }): Promise<void> {
+    const review = user.role === 'ADMIN'
+      ? await this.getReviewById(reviewId)
+      : await this.getOwnReview(reviewId, user.id);
+
+    await this.db.$transaction(async (tx) => {
+      await tx.review.delete({
+        where: { id: reviewId },
+      });
+
+      if (review.status === ReviewStatus.APPROVED) {
+        await this.refreshProductRating(review.productId, tx);
+      }
+    });
+  }
+
+  /**
+   * Get reviews for moderation, oldest first (Admin only)
+   */
+  async getReviewsForModeration(
+    pagination: PaginationInput = {},
+    status?: ReviewStatus
+  ): Promise<PaginatedResponse<any>> {
+    const { page, limit } = PaginationUtils.validateAndNormalizePagination(pagination);
+    const offset = PaginationUtils.calculateOffset(page, limit);
+    const where = status ? { status } : {};
+
+    const [reviews, total] = await Promise.all([
+      this.db.review.findMany({
+        where,
+        include: {
+          user: { select: { ...REVIEW_AUTHOR_SELECT, email: true } },
+          product: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        skip: offset,
+        take: limit,
+      }),
+      this.db.review.count({ where }),
+    ]);
+
+    return PaginationUtils.createPaginatedResponse(reviews, {
+      page,
+      limit,
+      total,
+    });
+  }
+
+  /**
+   * Approve or hide a review (Admin only)
+   */
+  async moderateReview(reviewId: string, data: ModerateReviewInput): Promise<any> {
+    const review = await this.getReviewById(reviewId);
+
+    return this.db.$transaction(async (tx) => {
+      const moderatedReview = await tx.review.update({
+        where: { id: reviewId },
+        data: {
+          status: data.status,
+          moderatedAt: new Date(),
+        },
+      });
+
+      if (review.status !== data.status) {
+        await this.refreshProductRating(review.productId, tx);
+      }
+
+      return moderatedReview;
+    });
+  }
+
+  /**
+   * Recompute a product's average rating and review count from its approved reviews
+   */
+  private async refreshProductRating(productId: string, tx: Prisma.TransactionClient): Promise<void> {
+    const aggregate = await tx.review.aggregate({
+      where: { productId, status: ReviewStatus.APPROVED },
+      _avg: { rating: true },
+      _count: { _all: true },
+    });
+
+    await tx.product.update({
+      where: { id: productId },
+      data: {
+        averageRating: aggregate._avg.rating ?? 0,
+        reviewCount: aggregate._count._all,
+      },
+    });
+  }
+
+  private async getReviewById(reviewId: string): Promise<any> {
+    const review = await this.db.review.findUnique({
+      where: { id: reviewId },
+    });
+
+    if (!review) {
+      throw ApiError.notFound('Review not found');
+    }
+
+    return review;
+  }
+
+  private async getOwnReview(reviewId: string, userId: string): Promise<any> {
+    const review = await this.db.review.findFirst({
+      where: { id: reviewId, userId },
+    });
+
+    if (!review) {
+      throw ApiError.notFound('Review not found');
+    }
+
+    return review;
+  }
+
+  private async ensureProductExists(productId: string): Promise<void> {
+    const product = await this.db.product.findUnique({
+      where: { id: productId },
+      select: { id: true },
+    });
+
+    if (!product) {
+      throw ApiError.notFound('Product not found');
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,222 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { config } from '@/config';
+
+export interface SearchHighlight {
+  name: string;
+  description: string | null;
+}
+
+export interface SearchMatches {
+  ranks: Map<string, number>;
+  truncated: boolean; // More than MAX_CANDIDATES products matched; only the best ranked ones are listed
+}
+
+/**
+ * Weighted document used to build the stored search vector: name (A) ranks above description (B)
+ */
+const SEARCH_DOCUMENT = Prisma.sql`
+  setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(description, '')), 'B')
+`;
+
+/**
+ * PostgreSQL text search configurations by language; other languages are
+ * indexed without stemming
+ */
+const TEXT_SEARCH_CONFIGS: Record<string, string> = {
+  da: 'danish',
+  de: 'german',
+  en: 'english',
+  es: 'spanish',
+  fi: 'finnish',
+  fr: 'french',
+  hu: 'hungarian',
+  it: 'italian',
+  nl: 'dutch',
+  no: 'norwegian',
+  pt: 'portuguese',
+  ro: 'romanian',
+  ru: 'russian',
+  sv: 'swedish',
+  tr: 'turkish',
+};
+
+/**
+ * Text search configuration of a translation row, by its locale's language
+ */
+const TRANSLATION_SEARCH_CONFIG = Prisma.sql`(CASE lower(split_part(locale, '-', 1))
+  ${Prisma.join(Object.entries(TEXT_SEARCH_CONFIGS).map(([language, name]) => Prisma.sql`WHEN ${language} THEN ${name}`), ' ')}
+  ELSE 'simple' END)::regconfig`;
+
+/**
+ * Search document of a translation, weighted like SEARCH_DOCUMENT in its own language
+ */
+const TRANSLATION_SEARCH_DOCUMENT = Prisma.sql`
+  setweight(to_tsvector(${TRANSLATION_SEARCH_CONFIG}, coalesce(name, '')), 'A') ||
+  setweight(to_tsvector(${TRANSLATION_SEARCH_CONFIG}, coalesce(description, '')), 'B')
+`;
+
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>';
+
+export class SearchService {
+  static readonly MAX_CANDIDATES = 1000;
+  static readonly TRIGRAM_THRESHOLD = 0.4;
+
+  private db: PrismaClient;
+
+  constructor() {
+    this.db = prisma;
+  }
+
+  /**
+   * Find products matching a search term and their relevance score.
+   * Matches whole words and word prefixes through full-text search, and
+   * tolerates typos in the product name through trigram similarity.
+   * In other locales, translated products are searched in their translation.
+   * Only the MAX_CANDIDATES best matches are kept, flagged as truncated.
+   */
+  async rankMatches(search: string, locale: string = config.defaultLocale): Promise<SearchMatches> {
+    const tsQuery = SearchService.buildPrefixQuery(search);
+
+    if (!tsQuery) {
+      return { ranks: new Map(), truncated: false };
+    }
+
+    // The word similarity threshold only applies to this transaction
+    const [, rows] = await this.db.$transaction([
+      this.db.$queryRaw`SELECT set_config('pg_trgm.word_similarity_threshold', ${String(SearchService.TRIGRAM_THRESHOLD)}, true)`,
+      this.db.$queryRaw<Array<{ id: string; rank: number }>>`
+        SELECT id,
+          (coalesce(ts_rank("searchVector", to_tsquery(config, ${tsQuery})), 0) * 2
+            + word_similarity(${search}, name))::float8 AS rank
+        FROM (${this.searchDocuments(locale)}) documents
+        WHERE "searchVector" @@ to_tsquery(config, ${tsQuery})
+          OR ${search} <% name
+        ORDER BY rank DESC, id ASC
+        LIMIT ${SearchService.MAX_CANDIDATES + 1}
+      `,
+    ]);
+
+    return {
+      ranks: new Map(rows.slice(0, SearchService.MAX_CANDIDATES).map(row => [row.id, Number(row.rank)])),
+      truncated: rows.length > SearchService.MAX_CANDIDATES,
+    };
+  }
+
+  /**
+   * Get highlighted name and description snippets for the given products,
+   * from their translation in the given locale where there is one
+   */
+  async getHighlights(
+    productIds: string[],
+    search: string,
+    locale: string = config.defaultLocale
+  ): Promise<Map<string, SearchHighlight>> {
+    const tsQuery = SearchService.buildPrefixQuery(search);
+
+    if (!tsQuery || productIds.length === 0) {
+      return new Map();
+    }
+
+    const rows = await this.db.$queryRaw<Array<{ id: string; name: string; description: string | null }>>`
+      SELECT id,
+        ts_headline(config, name, to_tsquery(config, ${tsQuery}),
+          ${`${HEADLINE_OPTIONS}, HighlightAll=true`}) AS name,
+        CASE WHEN description IS NULL THEN NULL
+          ELSE ts_headline(config, description, to_tsquery(config, ${tsQuery}),
+            ${`${HEADLINE_OPTIONS}, MaxWords=35, MinWords=15, MaxFragments=2`})
+        END AS description
+      FROM (${this.searchDocuments(locale)}) documents
+      WHERE id IN (${Prisma.join(productIds)})
+    `;
+
+    return new Map(rows.map(row => [row.id, { name: row.name, description: row.description }]));
+  }
+
+  /**
+   * Recompute the stored search vector of one product
+   */
+  async refreshProduct(productId: string): Promise<void> {
+    await this.db.$executeRaw`
+      UPDATE products SET "searchVector" = ${SEARCH_DOCUMENT} WHERE id = ${productId}
+    `;
+  }
+
+  /**
+   * Recompute the stored search vectors of several products
+   */
+  async refreshProducts(productIds: string[]): Promise<void> {
+    if (productIds.length === 0) {
+      return;
+    }
+
+    await this.db.$executeRaw`
+      UPDATE products SET "searchVector" = ${SEARCH_DOCUMENT} WHERE id IN (${Prisma.join(productIds)})
+    `;
+  }
+
+  /**
+   * Recompute the stored search vectors of a product's translations
+   */
+  async refreshTranslations(productId: string): Promise<void> {
+    await this.db.$executeRaw`
+      UPDATE product_translations SET "searchVector" = ${TRANSLATION_SEARCH_DOCUMENT}
+      WHERE "productId" = ${productId}
+    `;
+  }
+
+  /**
+   * Recompute the stored search vector of every product and translation
+   * (e.g. after bulk imports). Returns the number of products.
+   */
+  async reindexAll(): Promise<number> {
+    const [products] = await this.db.$transaction([
+      this.db.$executeRaw`UPDATE products SET "searchVector" = ${SEARCH_DOCUMENT}`,
+      this.db.$executeRaw`UPDATE product_translations SET "searchVector" = ${TRANSLATION_SEARCH_DOCUMENT}`,
+    ]);
+
+    return products;
+  }
+
+  /**
+   * Text search configuration for a locale's language
+   */
+  static textSearchConfig(locale: string): string {
+    return TEXT_SEARCH_CONFIGS[locale.split('-')[0]!.toLowerCase()] ?? 'simple';
+  }
+
+  /**
+   * The searchable text of every product in a locale: its translation where
+   * there is one, otherwise the product's own (default locale) content
+   */
+  private searchDocuments(locale: string): Prisma.Sql {
+    if (locale === config.defaultLocale) {
+      return Prisma.sql`
+        SELECT id, name, description, "searchVector", 'english'::regconfig AS config
+        FROM products
+      `;
+    }
+
+    return Prisma.sql`
+      SELECT p.id,
+        coalesce(t.name, p.name) AS name,
+        CASE WHEN t.id IS NULL THEN p.description ELSE t.description END AS description,
+        CASE WHEN t.id IS NULL THEN p."searchVector" ELSE t."searchVector" END AS "searchVector",
+        CASE WHEN t.id IS NULL THEN 'english'::regconfig
+          ELSE ${SearchService.textSearchConfig(locale)}::regconfig END AS config
+      FROM products p
+      LEFT JOIN product_translations t ON t."productId" = p.id AND t.locale = ${locale}
+    `;
+  }
+
+  /**
+   * Turn free text into a tsquery where every word is matched as a prefix,
+   * e.g. "wireless head" -> "wireless:* & head:*"
+   */
+  static buildPrefixQuery(search: string): string {
+    const terms = search.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    return terms.map(term => `${term}:*`).join(' & ');
+  }
+}
\ No newline at end of file
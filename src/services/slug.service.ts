@@ -0,0 +1,117 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { ApiError } from '@/utils/response';
+import { SlugUtils } from '@/utils/slug';
+
+export interface SlugResolution {
+  productId: string;
+  redirectTo?: string; // Current slug, when the requested slug is an old one
+}
+
+export class SlugService {
+  private db: PrismaClient;
+
+  constructor() {
+    this.db = prisma;
+  }
+
+  /**
+   * Generate a slug from a product name that no other product uses or used before
+   */
+  async generateUniqueSlug(
+    name: string,
+    db: Prisma.TransactionClient = this.db,
+    excludeProductId?: string
+  ): Promise<string> {
+    const base = SlugUtils.slugify(name) || 'product';
+
+    for (let suffix = 1; ; suffix++) {
+      const candidate = suffix === 1 ? base : SlugUtils.withSuffix(base, suffix);
+
+      if (await this.isSlugAvailable(candidate, db, excludeProductId)) {
+        return candidate;
+      }
+    }
+  }
+
+  /**
+   * Ensure a slug chosen by an admin is not taken by another product
+   */
+  async assertSlugAvailable(slug: string, excludeProductId?: string): Promise<void> {
+    if (!(await this.isSlugAvailable(slug, this.db, excludeProductId))) {
+      throw ApiError.conflict(`Slug "${slug}" is already in use`);
+    }
+  }
+
+  /**
+   * Change a product's slug, keeping the old slug as a redirect
+   */
+  async changeSlug(
+    productId: string,
+    oldSlug: string,
+    newSlug: string,
+    tx: Prisma.TransactionClient
+  ): Promise<void> {
+    if (oldSlug === newSlug) {
+      return;
+    }
+
+    // A product can take back one of its own former slugs
+    await tx.productSlugRedirect.deleteMany({
+      where: { slug: newSlug, productId },
+    });
+
+    await tx.productSlugRedirect.upsert({
+      where: { slug: oldSlug },
+      update: { productId },
+      create: { slug: oldSlug, productId },
+    });
+  }
+
+  /**
+   * Find the product for a slug, following the redirect history of renamed products
+   */
+  async resolveSlug(slug: string): Promise<SlugResolution | null> {
+    const product = await this.db.product.findUnique({
+      where: { slug },
+      select: { id: true },
+    });
+
+    if (product) {
+      return { productId: product.id };
+    }
+
+    const redirect = await this.db.productSlugRedirect.findUnique({
+      where: { slug },
+      include: {
+        product: { select: { id: true, slug: true } },
+      },
+    });
+
+    if (!redirect) {
+      return null;
+    }
+
+    return { productId: redirect.product.id, redirectTo: redirect.product.slug };
+  }
+
+  /**
+   * A slug is available when no product uses it and it doesn't redirect to
+   * another product (old links must keep working)
+   */
+  private async isSlugAvailable(
+    slug: string,
+    db: Prisma.TransactionClient,
+    excludeProductId?: string
+  ): Promise<boolean> {
+    const [product, redirect] = await Promise.all([
+      db.product.findUnique({ where: { slug }, select: { id: true } }),
+      db.productSlugRedirect.findUnique({ where: { slug }, select: { productId: true } }),
+    ]);
+
+    const takenByProduct = product !== null && product.id !== excludeProductId;
+    const takenByRedirect = redirect !== null && redirect.productId !== excludeProductId;
+
+    return !takenByProduct && !takenByRedirect;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,261 @@
+import { PrismaClient } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { config } from '@/config';
+import { ApiError } from '@/utils/response';
+import { LocaleUtils } from '@/utils/locale';
+import { SetCategoryTranslationInput, SetProductTranslationInput } from '@/utils/validation';
+import { SearchService } from './search.service';
+
+interface TranslatedContent {
+  name: string;
+  description: string | null;
+}
+
+export class TranslationService {
+  private db: PrismaClient;
+  private searchService: SearchService;
+
+  constructor() {
+    this.db = prisma;
+    this.searchService = new SearchService();
+  }
+
+  /**
+   * Get the translations of a product (Admin only)
+   */
+  async getProductTranslations(productId: string): Promise<any[]> {
+    const product = await this.db.product.findUnique({
+      where: { id: productId },
+      select: { id: true },
+    });
+
+    if (!product) {
+      throw ApiError.notFound('Product not found');
+    }
+
+    return this.db.productTranslation.findMany({
+      where: { productId },
+      orderBy: { locale: 'asc' },
+    });
+  }
+
+  /**
+   * Add or replace the translation of a product into a locale (Admin only)
+   */
+  async setProductTranslation(productId: string, locale: string, data: SetProductTranslationInput): Promise<any> {
+    this.ensureTranslatable(locale);
+
+    const product = await this.db.product.findUnique({
+      where: { id: productId },
+      select: { id: true },
+    });
+
+    if (!product) {
+      throw ApiError.notFound('Product not found');
+    }
+
+    const content = { name: data.name, description: data.description ?? null };
+
+    const translation = await this.db.productTranslation.upsert({
+      where: { productId_locale: { productId, locale } },
+      create: { productId, locale, ...content },
+      update: content,
+    });
+
+    await this.searchService.refreshTranslations(productId);
+
+    return translation;
+  }
+
+  /**
+   * Remove the translation of a product; the locale falls back to the default content (Admin only)
+   */
+  async deleteProductTranslation(productId: string, locale: string): Promise<void> {
+    const { count } = await this.db.productTranslation.deleteMany({
+      where: { productId, locale },
+    });
+
+    if (count === 0) {
+      throw ApiError.notFound('Translation not found');
+    }
+  }
+
+  /**
+   * Get the translations of a category (Admin only)
+   */
+  async getCategoryTranslations(categoryId: string): Promise<any[]> {
+    const category = await this.db.category.findUnique({
+      where: { id: categoryId },
+      select: { id: true },
+    });
+
+    if (!category) {
+      throw ApiError.notFound('Category not found');
+    }
+
+    return this.db.categoryTranslation.findMany({
+      where: { categoryId },
+      orderBy: { locale: 'asc' },
+    });
+  }
+
+  /**
+   * Add or replace the translation of a category into a locale (Admin only)
+   */
+  async setCategoryTranslation(categoryId: string, locale: string, data: SetCategoryTranslationInput): Promise<any> {
+    this.ensureTranslatable(locale);
+
+    const category = await this.db.category.findUnique({
+      where: { id: categoryId },
+      select: { id: true },
+    });
+
+    if (!category) {
+      throw ApiError.notFound('Category not found');
+    }
+
+    const content = { name: data.name, description: data.description ?? null };
+
+    return this.db.categoryTranslation.upsert({
+      where: { categoryId_locale: { categoryId, locale } },
+      create: { categoryId, locale, ...content },
+      update: content,
+    });
+  }
+
+  /**
+   * Remove the translation of a category (Admin only)
+   */
+  async deleteCategoryTranslation(categoryId: string, locale: string): Promise<void> {
+    const { count } = await this.db.categoryTranslation.deleteMany({
+      where: { categoryId, locale },
+    });
+
+    if (count === 0) {
+      throw ApiError.notFound('Translation not found');
+    }
+  }
+
+  /**
+   * Show products in a locale: translated name and description where a
+   * translation exists, the default content otherwise. Included categories
+   * and bundle components are translated too.
+   */
+  async localizeProducts<T extends { id: string; [key: string]: any }>(products: T[], locale: string): Promise<T[]> {
+    if (locale === config.defaultLocale || products.length === 0) {
+      return products.map(product => ({ ...product, locale }));
+    }
+
+    const componentIds = products.flatMap(product =>
+      Array.isArray(product.bundleComponents)
+        ? product.bundleComponents.map((item: any) => item.component.id as string)
+        : []
+    );
+    const categoryIds = products.flatMap(product =>
+      Array.isArray(product.categories) ? product.categories.map((category: any) => category.id as string) : []
+    );
+
+    const [productTranslations, categoryTranslations] = await Promise.all([
+      this.getTranslations('product', [...products.map(product => product.id), ...componentIds], locale),
+      this.getTranslations('category', categoryIds, locale),
+    ]);
+
+    return products.map(product => ({
+      ...this.applyTranslation(product, productTranslations.get(product.id)),
+      locale,
+      ...(Array.isArray(product.categories) && {
+        categories: product.categories.map((category: any) =>
+          this.applyTranslation(category, categoryTranslations.get(category.id))
+        ),
+      }),
+      ...(Array.isArray(product.bundleComponents) && {
+        bundleComponents: product.bundleComponents.map((item: any) => ({
+          ...item,
+          component: {
+            ...item.component,
+            ...(productTranslations.has(item.component.id) && { name: productTranslations.get(item.component.id)!.name }),
+          },
+        })),
+      }),
+    }));
+  }
+
+  async localizeProduct<T extends { id: string; [key: string]: any }>(product: T, locale: string): Promise<T> {
+    const [localized] = await this.localizeProducts([product], locale);
+    return localized!;
+  }
+
+  /**
+   * Show categories in a locale, including nested parents and children
+   */
+  async localizeCategories<T extends { id: string; [key: string]: any }>(categories: T[], locale: string): Promise<T[]> {
+    if (locale === config.defaultLocale || categories.length === 0) {
+      return categories;
+    }
+
+    const collectIds = (category: any): string[] => [
+      category.id,
+      ...(category.parent ? [category.parent.id] : []),
+      ...(Array.isArray(category.children) ? category.children.flatMap(collectIds) : []),
+    ];
+
+    const translations = await this.getTranslations('category', categories.flatMap(collectIds), locale);
+
+    const translate = (category: any): any => ({
+      ...this.applyTranslation(category, translations.get(category.id)),
+      ...(category.parent && { parent: this.applyTranslation(category.parent, translations.get(category.parent.id)) }),
+      ...(Array.isArray(category.children) && { children: category.children.map(translate) }),
+    });
+
+    return categories.map(translate);
+  }
+
+  /**
+   * Overlay a translation on a product or category; a translation without a
+   * description keeps the default-locale description
+   */
+  private applyTranslation<T extends { [key: string]: any }>(item: T, content?: TranslatedContent): T {
+    if (!content) {
+      return item;
+    }
+
+    return {
+      ...item,
+      name: content.name,
+      description: content.description ?? item.description,
+    };
+  }
+
+  private async getTranslations(
+    type: 'product' | 'category',
+    ids: string[],
+    locale: string
+  ): Promise<Map<string, TranslatedContent>> {
+    if (ids.length === 0) {
+      return new Map();
+    }
+
+    const select = { name: true, description: true };
+    const rows = type === 'product'
+      ? (await this.db.productTranslation.findMany({
+        where: { productId: { in: ids }, locale },
+        select: { ...select, productId: true },
+      })).map(({ productId, ...content }) => ({ id: productId, content }))
+      : (await this.db.categoryTranslation.findMany({
+        where: { categoryId: { in: ids }, locale },
+        select: { ...select, categoryId: true },
+      })).map(({ categoryId, ...content }) => ({ id: categoryId, content }));
+
+    return new Map(rows.map(row => [row.id, row.content]));
+  }
+
+  private ensureTranslatable(locale: string): void {
+    if (locale === config.defaultLocale) {
+      throw ApiError.badRequest(`${locale} is the default locale; edit the product or category itself`);
+    }
+
+    if (!LocaleUtils.isTranslatable(locale)) {
+      throw ApiError.badRequest(`Locale ${locale} is not supported`);
+    }
+  }
+}
\ No newline at end of file
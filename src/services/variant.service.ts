@@ -0,0 +1,405 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { ApiError } from '@/utils/response';
+import { CreateProductOptionInput, GenerateVariantsInput, UpdateVariantInput } from '@/utils/validation';
+import { RestockService } from './restock.service';
+
+export class VariantService {
+  static readonly MAX_VARIANTS_PER_PRODUCT = 100;
+
+  private db: PrismaClient;
+  private restockService: RestockService;
+
+  constructor() {
+    this.db = prisma;
+    this.restockService = new RestockService();
+  }
+
+  /**
+   * Get option types (with values) for a product
+   */
+  async getOptions(productId: string): Promise<any[]> {
+    await this.ensureProductExists(productId);
+
+    return this.db.productOption.findMany({
+      where: { productId },
+      include: {
+        values: {
+          orderBy: { position: 'asc' },
+        },
+      },
+      orderBy: { position: 'asc' },
+    });
+  }
+
+  /**
+   * Add an option type to a product, or append values to an existing one (Admin only)
+   */
+  async addOption(productId: string, data: CreateProductOptionInput): Promise<any> {
+    await this.ensureProductExists(productId);
+    await this.ensureVariantsAllowed(productId);
+
+    const values = Array.from(new Set(data.values.map(value => value.trim())));
+
+    return this.db.$transaction(async (tx) => {
+      let option = await tx.productOption.findUnique({
+        where: {
+          productId_name: { productId, name: data.name },
+        },
+        include: { values: true },
+      });
+
+      if (!option) {
+        const optionCount = await tx.productOption.count({ where: { productId } });
+        option = await tx.productOption.create({
+          data: {
+            productId,
+            name: data.name,
+            position: optionCount,
+          },
+          include: { values: true },
+        });
+      }
+
+      const existingValues = new Set(option.values.map(value => value.value));
+      const newValues = values.filter(value => !existingValues.has(value));
+
+      await tx.productOptionValue.createMany({
+        data: newValues.map((value, index) => ({
+          optionId: option!.id,
+          value,
+          position: option!.values.length + index,
+        })),
+      });
+
+      return tx.productOption.findUnique({
+        where: { id: option.id },
+        include: {
+          values: {
+            orderBy: { position: 'asc' },
+          },
+        },
+      });
+    });
+  }
+
+  /**
+   * Remove an option type from a product (Admin only).
+   * Variants built from its values no longer describe a valid combination and are deactivated.
+   */
+  async deleteOption(productId: string, optionId: string): Promise<void> {
+    const option = await this.db.productOption.findFirst({
+      where: { id: optionId, productId },
+    });
+
+    if (!option) {
+      throw ApiError.notFound('Product option not found');
+    }
+
+    await this.db.$transaction(async (tx) => {
+      await tx.productVariant.updateMany({
+        where: {
+          productId,
+          optionValues: { some: { optionId } },
+        },
+        data: { isActive: false },
+      });
+
+      await tx.productOption.delete({
+        where: { id: optionId },
+      });
+
+      await this.syncProductStock(productId, tx);
+    });
+  }
+
+  /**
+   * Get variants for a product
+   */
+  async getVariants(productId: string, includeInactive = false): Promise<any[]> {
+    await this.ensureProductExists(productId);
+
+    const where: any = { productId };
+
+    if (!includeInactive) {
+      where.isActive = true;
+    }
+
+    return this.db.productVariant.findMany({
+      where,
+      include: {
+        optionValues: {
+          include: {
+            option: {
+              select: { id: true, name: true },
+            },
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Create a variant for every combination of option values that does not have one yet (Admin only)
+   */
+  async generateVariants(productId: string, data: GenerateVariantsInput): Promise<any[]> {
+    const product = await this.ensureProductExists(productId);
+    await this.ensureVariantsAllowed(productId);
+
+    const options = await this.db.productOption.findMany({
+      where: { productId },
+      include: {
+        values: {
+          orderBy: { position: 'asc' },
+        },
+      },
+      orderBy: { position: 'asc' },
+    });
+
+    if (options.length === 0 || options.some(option => option.values.length === 0)) {
+      throw ApiError.badRequest('Product needs at least one option with values before generating variants');
+    }
+
+    // Cartesian product of all option values
+    const combinations = options.reduce<Array<Array<{ id: string; value: string }>>>(
+      (acc, option) => acc.flatMap(combination => option.values.map(value => [...combination, value])),
+      [[]]
+    );
+
+    if (combinations.length > VariantService.MAX_VARIANTS_PER_PRODUCT) {
+      throw ApiError.badRequest(
+        `Too many combinations (${combinations.length}). A product can have at most ${VariantService.MAX_VARIANTS_PER_PRODUCT} variants.`
+      );
+    }
+
+    const existingVariants = await this.db.productVariant.findMany({
+      where: { productId },
+      include: { optionValues: { select: { id: true } } },
+    });
+    const existingKeys = new Set(
+      existingVariants.map(variant => this.combinationKey(variant.optionValues.map(value => value.id)))
+    );
+
+    const missing = combinations.filter(
+      combination => !existingKeys.has(this.combinationKey(combination.map(value => value.id)))
+    );
+
+    await this.db.$transaction(async (tx) => {
+      for (const combination of missing) {
+        const sku = await this.generateUniqueSku(
+          product.name,
+          combination.map(value => value.value),
+          tx
+        );
+
+        await tx.productVariant.create({
+          data: {
+            productId,
+            sku,
+            price: data.price ?? null,
+            stock: data.stock ?? 0,
+            optionValues: {
+              connect: combination.map(value => ({ id: value.id })),
+            },
+          },
+        });
+      }
+
+      await this.syncProductStock(productId, tx);
+    });
+
+    this.restockService.queueNotifications([productId]);
+
+    return this.getVariants(productId, true);
+  }
+
+  /**
+   * Update a variant's SKU, price override, stock or availability (Admin only)
+   */
+  async updateVariant(productId: string, variantId: string, data: UpdateVariantInput): Promise<any> {
+    await this.getVariantForProduct(productId, variantId);
+
+    if (data.sku) {
+      const existing = await this.db.productVariant.findFirst({
+        where: { sku: data.sku, id: { not: variantId } },
+      });
+
+      if (existing) {
+        throw ApiError.conflict(`SKU "${data.sku}" is already in use`);
+      }
+    }
+
+    const variant = await this.db.$transaction(async (tx) => {
+      const updated = await tx.productVariant.update({
+        where: { id: variantId },
+        data,
+        include: { optionValues: true },
+      });
+
+      await this.syncProductStock(productId, tx);
+
+      return updated;
+    });
+
+    // Restocking or reactivating a variant can bring the product back in stock
+    if (data.stock !== undefined || data.isActive) {
+      this.restockService.queueNotifications([productId]);
+    }
+
+    return variant;
+  }
+
+  /**
+   * Deactivate a variant (Admin only). Variants are kept for order history.
+   */
+  async deleteVariant(productId: string, variantId: string): Promise<void> {
+    await this.getVariantForProduct(productId, variantId);
+
+    await this.db.$transaction(async (tx) => {
+      await tx.productVariant.update({
+        where: { id: variantId },
+        data: { isActive: false },
+      });
+
+      // Remove the variant from any carts
+      await tx.cartItem.deleteMany({
+        where: { variantId },
+      });
+
+      await this.syncProductStock(productId, tx);
+    });
+  }
+
+  /**
+   * Get a variant and verify that it belongs to the given product
+   */
+  async getVariantForProduct(productId: string, variantId: string, activeOnly = false): Promise<any> {
+    const where: any = { id: variantId, productId };
+
+    if (activeOnly) {
+      where.isActive = true;
+    }
+
+    const variant = await this.db.productVariant.findFirst({
+      where,
+      include: { optionValues: true },
+    });
+
+    if (!variant) {
+      throw ApiError.notFound('Product variant not found');
+    }
+
+    return variant;
+  }
+
+  /**
+   * Check whether a product is sold through variants
+   */
+  async hasActiveVariants(productId: string): Promise<boolean> {
+    const count = await this.db.productVariant.count({
+      where: { productId, isActive: true },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Keep the product-level stock equal to the sum of its active variants' stock,
+   * so listings, stock filters and low-stock reports keep working for variant products.
+   * Callers notify back-in-stock subscribers once their transaction has committed.
+   */
+  async syncProductStock(productId: string, tx: Prisma.TransactionClient = this.db): Promise<void> {
+    const variantCount = await tx.productVariant.count({ where: { productId } });
+
+    if (variantCount === 0) {
+      return;
+    }
+
+    const result = await tx.productVariant.aggregate({
+      where: { productId, isActive: true },
+      _sum: { stock: true },
+    });
+
+    await tx.product.update({
+      where: { id: productId },
+      data: { stock: result._sum.stock || 0 },
+    });
+  }
+
+  /**
+   * Bundles take stock from their components directly, so neither bundles
+   * nor their components can be sold through variants. Digital products
+   * deliver a single file or key pool, so they can't have variants either.
+   * Backorders are tracked against product stock, so those products can't
+   * be sold through variants.
+   */
+  private async ensureVariantsAllowed(productId: string): Promise<void> {
+    const [bundle, memberships, digital, backorderable] = await Promise.all([
+      this.db.product.count({ where: { id: productId, isBundle: true } }),
+      this.db.bundleComponent.count({ where: { componentId: productId } }),
+      this.db.product.count({ where: { id: productId, type: { not: 'PHYSICAL' } } }),
+      this.db.product.count({ where: { id: productId, stockPolicy: { not: 'STANDARD' } } }),
+    ]);
+
+    if (bundle > 0 || memberships > 0) {
+      throw ApiError.badRequest('Bundles and bundle components cannot have variants');
+    }
+
+    if (digital > 0) {
+      throw ApiError.badRequest('Digital products cannot have variants');
+    }
+
+    if (backorderable > 0) {
+      throw ApiError.badRequest('Backordered and pre-order products cannot have variants');
+    }
+  }
+
+  /**
+   * Ensure the product exists (including inactive, for admin operations)
+   */
+  private async ensureProductExists(productId: string): Promise<any> {
+    const product = await this.db.product.findUnique({
+      where: { id: productId },
+    });
+
+    if (!product) {
+      throw ApiError.notFound('Product not found');
+    }
+
+    return product;
+  }
+
+  /**
+   * Build an order-independent key for a combination of option value IDs
+   */
+  private combinationKey(valueIds: string[]): string {
+    return [...valueIds].sort().join('|');
+  }
+
+  /**
+   * Generate a SKU like "CLASSIC-TEE-M-RED", adding a numeric suffix if it is taken
+   */
+  private async generateUniqueSku(
+    productName: string,
+    values: string[],
+    tx: Prisma.TransactionClient
+  ): Promise<string> {
+    const normalize = (text: string) =>
+      text.toUpperCase().replace(/[^A-Z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+    const base = [normalize(productName).slice(0, 24), ...values.map(normalize)]
+      .filter(Boolean)
+      .join('-');
+
+    let sku = base;
+    let suffix = 1;
+
+    while (await tx.productVariant.findUnique({ where: { sku } })) {
+      suffix++;
+      sku = `${base}-${suffix}`;
+    }
+
+    return sku;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,163 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { ApiError } from '@/utils/response';
+import { PricingUtils } from '@/utils/pricing';
+import { PublicationUtils } from '@/utils/publication';
+
+/**
+ * Who is browsing: a signed-in user, an anonymous session, or both right
+ * after signing in
+ */
+export interface Viewer {
+  userId?: string;
+  sessionId?: string;
+}
+
+export class ViewService {
+  /**
+   * Products kept in the history of each user or session
+   */
+  static readonly MAX_VIEWS_PER_VIEWER = 50;
+
+  private db: PrismaClient;
+
+  constructor() {
+    this.db = prisma;
+  }
+
+  /**
+   * Record a product detail view. Viewing a product again moves it to the
+   * top of the history instead of adding a second entry.
+   */
+  async recordView(productId: string, viewer: Viewer): Promise<void> {
+    const viewedAt = new Date();
+
+    if (viewer.userId) {
+      await this.db.productView.upsert({
+        where: { userId_productId: { userId: viewer.userId, productId } },
+        create: { userId: viewer.userId, productId, viewedAt },
+        update: { viewedAt },
+      });
+    } else if (viewer.sessionId) {
+      await this.db.productView.upsert({
+        where: { sessionId_productId: { sessionId: viewer.sessionId, productId } },
+        create: { sessionId: viewer.sessionId, productId, viewedAt },
+        update: { viewedAt },
+      });
+    } else {
+      return;
+    }
+
+    await this.trimHistory(this.viewerWhere(viewer), this.db);
+  }
+
+  /**
+   * Get recently viewed active products, most recent first. A signed-in user
+   * sending their anonymous session ID takes over that session's history.
+   */
+  async getRecentlyViewed(viewer: Viewer, limit: number): Promise<any[]> {
+    if (!viewer.userId && !viewer.sessionId) {
+      throw ApiError.badRequest('Sign in or send an X-Session-Id header to see recently viewed products');
+    }
+
+    if (viewer.userId && viewer.sessionId) {
+      await this.mergeSessionViews(viewer.userId, viewer.sessionId);
+    }
+
+    const views = await this.db.productView.findMany({
+      where: {
+        ...this.viewerWhere(viewer),
+        product: PublicationUtils.visibleWhere(),
+      },
+      include: { product: true },
+      orderBy: [{ viewedAt: 'desc' }, { id: 'asc' }],
+      take: limit,
+    });
+
+    return views.map(view => ({
+      ...PricingUtils.withEffectivePrice(view.product),
+      viewedAt: view.viewedAt,
+    }));
+  }
+
+  /**
+   * Delete anonymous views older than the retention period; user histories
+   * are only bounded in size
+   */
+  async deleteExpiredAnonymousViews(retentionDays: number): Promise<{ deleted: number }> {
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+    const { count } = await this.db.productView.deleteMany({
+      where: { userId: null, viewedAt: { lt: cutoff } },
+    });
+
+    return { deleted: count };
+  }
+
+  /**
+   * Move an anonymous session's views to a user, keeping the later view
+   * time of products seen both ways
+   */
+  private async mergeSessionViews(userId: string, sessionId: string): Promise<void> {
+    await this.db.$transaction(async (tx) => {
+      const sessionViews = await tx.productView.findMany({
+        where: { sessionId, userId: null },
+      });
+
+      if (sessionViews.length === 0) {
+        return;
+      }
+
+      const userViews = await tx.productView.findMany({
+        where: { userId, productId: { in: sessionViews.map(view => view.productId) } },
+        select: { productId: true, viewedAt: true },
+      });
+      const userViewedAt = new Map(userViews.map(view => [view.productId, view.viewedAt]));
+
+      for (const { productId, viewedAt } of sessionViews) {
+        const existing = userViewedAt.get(productId);
+
+        if (existing && existing >= viewedAt) {
+          continue;
+        }
+
+        await tx.productView.upsert({
+          where: { userId_productId: { userId, productId } },
+          create: { userId, productId, viewedAt },
+          update: { viewedAt },
+        });
+      }
+
+      await tx.productView.deleteMany({
+        where: { sessionId, userId: null },
+      });
+
+      await this.trimHistory({ userId }, tx);
+    });
+  }
+
+  /**
+   * Drop the oldest views beyond the history limit
+   */
+  private async trimHistory(where: Prisma.ProductViewWhereInput, tx: Prisma.TransactionClient): Promise<void> {
+    const stale = await tx.productView.findMany({
+      where,
+      select: { id: true },
+      orderBy: [{ viewedAt: 'desc' }, { id: 'asc' }],
+      skip: ViewService.MAX_VIEWS_PER_VIEWER,
+    });
+
+    if (stale.length > 0) {
+      await tx.productView.deleteMany({
+        where: { id: { in: stale.map(view => view.id) } },
+      });
+    }
+  }
+
+  /**
+   * History a viewer reads and writes: the user's once signed in, otherwise the session's
+   */
+  private viewerWhere(viewer: Viewer): Prisma.ProductViewWhereInput {
+    return viewer.userId ? { userId: viewer.userId } : { sessionId: viewer.sessionId!, userId: null };
+  }
+}
\ No newline at end of file
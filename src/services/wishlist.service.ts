@@ -0,0 +1,317 @@
+import { PrismaClient } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { prisma } from '@/config/database';
+import { ApiError } from '@/utils/response';
+import { PublicationUtils } from '@/utils/publication';
+import { CartService, CartWithItems } from './cart.service';
+import { VariantService } from './variant.service';
+import {
+  CreateWishlistInput,
+  UpdateWishlistInput,
+  AddWishlistItemInput,
+} from '@/utils/validation';
+
+const WISHLIST_ITEM_INCLUDE = {
+  product: {
+    select: {
+      id: true,
+      name: true,
+      price: true,
+      stock: true,
+      isActive: true,
+    },
+  },
+  variant: {
+    select: {
+      id: true,
+      sku: true,
+      price: true,
+      stock: true,
+      isActive: true,
+    },
+  },
+} as const;
+
+export class WishlistService {
+  static readonly MAX_WISHLISTS_PER_USER = 20;
+  static readonly MAX_ITEMS_PER_WISHLIST = 200;
+
+  private db: PrismaClient;
+  private cartService: CartService;
+  private variantService: VariantService;
+
+  constructor() {
+    this.db = prisma;
+    this.cartService = new CartService();
+    this.variantService = new VariantService();
+  }
+
+  /**
+   * Get a customer's wishlists with their item counts
+   */
+  async getWishlists(userId: string): Promise<any[]> {
+    return this.db.wishlist.findMany({
+      where: { userId },
+      include: {
+        _count: {
+          select: { items: true },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Get one of a customer's wishlists with its items
+   */
+  async getWishlist(userId: string, wishlistId: string): Promise<any> {
+    const wishlist = await this.db.wishlist.findFirst({
+      where: { id: wishlistId, userId },
+      include: {
+        items: {
+          include: WISHLIST_ITEM_INCLUDE,
+          orderBy: { createdAt: 'desc' },
+        },
+      },
+    });
+
+    if (!wishlist) {
+      throw ApiError.notFound('Wishlist not found');
+    }
+
+    return wishlist;
+  }
+
+  /**
+   * Get a publicly shared wishlist by its share token
+   */
+  async getSharedWishlist(shareToken: string): Promise<any> {
+    const wishlist = await this.db.wishlist.findUnique({
+      where: { shareToken },
+      select: {
+        id: true,
+        name: true,
+        createdAt: true,
+        updatedAt: true,
+        user: {
+          select: { name: true },
+        },
+        items: {
+          where: { product: PublicationUtils.visibleWhere() },
+          include: WISHLIST_ITEM_INCLUDE,
+          orderBy: { createdAt: 'desc' },
+        },
+      },
+    });
+
+    if (!wishlist) {
+      throw ApiError.notFound('Wishlist not found');
+    }
+
+    return wishlist;
+  }
+
+  /**
+   * Create a named wishlist
+   */
+  async createWishlist(userId: string, data: CreateWishlistInput): Promise<any> {
+    const count = await this.db.wishlist.count({ where: { userId } });
+
+    if (count >= WishlistService.MAX_WISHLISTS_PER_USER) {
+      throw ApiError.badRequest(
+        `You can have at most ${WishlistService.MAX_WISHLISTS_PER_USER} wishlists`
+      );
+    }
+
+    await this.ensureUniqueName(userId, data.name);
+
+    return this.db.wishlist.create({
+      data: {
+        userId,
+        name: data.name,
+      },
+    });
+  }
+
+  /**
+   * Rename a wishlist
+   */
+  async updateWishlist(userId: string, wishlistId: string, data: UpdateWishlistInput): Promise<any> {
+    await this.getOwnWishlist(userId, wishlistId);
+    await this.ensureUniqueName(userId, data.name, wishlistId);
+
+    return this.db.wishlist.update({
+      where: { id: wishlistId },
+      data: { name: data.name },
+    });
+  }
+
+  /**
+   * Delete a wishlist and its items
+   */
+  async deleteWishlist(userId: string, wishlistId: string): Promise<void> {
+    await this.getOwnWishlist(userId, wishlistId);
+
+    await this.db.wishlist.delete({
+      where: { id: wishlistId },
+    });
+  }
+
+  /**
+   * Save a product (or one of its variants) to a wishlist
+   */
+  async addItem(userId: string, wishlistId: string, data: AddWishlistItemInput): Promise<any> {
+    await this.getOwnWishlist(userId, wishlistId);
+
+    const product = await this.db.product.findFirst({
+      where: { id: data.productId, ...PublicationUtils.visibleWhere() },
+      select: { id: true },
+    });
+
+    if (!product) {
+      throw ApiError.notFound('Product not found or not available');
+    }
+
+    if (data.variantId) {
+      await this.variantService.getVariantForProduct(data.productId, data.variantId, true);
+    }
+
+    const existingItem = await this.db.wishlistItem.findFirst({
+      where: {
+        wishlistId,
+        productId: data.productId,
+        variantId: data.variantId ?? null,
+      },
+    });
+
+    if (existingItem) {
+      throw ApiError.conflict('This product is already in the wishlist');
+    }
+
+    const itemCount = await this.db.wishlistItem.count({ where: { wishlistId } });
+
+    if (itemCount >= WishlistService.MAX_ITEMS_PER_WISHLIST) {
+      throw ApiError.badRequest(
+        `A wishlist can hold at most ${WishlistService.MAX_ITEMS_PER_WISHLIST} items`
+      );
+    }
+
+    await this.db.wishlistItem.create({
+      data: {
+        wishlistId,
+        productId: data.productId,
+        variantId: data.variantId ?? null,
+        note: data.note ?? null,
+      },
+    });
+
+    return this.getWishlist(userId, wishlistId);
+  }
+
+  /**
+   * Remove an item from a wishlist
+   */
+  async removeItem(userId: string, wishlistId: string, itemId: string): Promise<any> {
+    await this.getOwnItem(userId, wishlistId, itemId);
+
+    await this.db.wishlistItem.delete({
+      where: { id: itemId },
+    });
+
+    return this.getWishlist(userId, wishlistId);
+  }
+
+  /**
+   * Move a wishlist item to the cart. Stock is validated by the cart; the item
+   * is only removed from the wishlist once it has been added.
+   */
+  async moveItemToCart(
+    userId: string,
+    wishlistId: string,
+    itemId: string,
+    quantity: number = 1
+  ): Promise<CartWithItems> {
+    const item = await this.getOwnItem(userId, wishlistId, itemId);
+
+    const cart = await this.cartService.addToCart(userId, {
+      productId: item.productId,
+      ...(item.variantId && { variantId: item.variantId }),
+      quantity,
+    });
+
+    await this.db.wishlistItem.delete({
+      where: { id: itemId },
+    });
+
+    return cart;
+  }
+
+  /**
+   * Share a wishlist publicly, generating a share token if it has none
+   */
+  async enableSharing(userId: string, wishlistId: string): Promise<any> {
+    const wishlist = await this.getOwnWishlist(userId, wishlistId);
+
+    if (wishlist.shareToken) {
+      return wishlist;
+    }
+
+    return this.db.wishlist.update({
+      where: { id: wishlistId },
+      data: { shareToken: randomBytes(24).toString('base64url') },
+    });
+  }
+
+  /**
+   * Stop sharing a wishlist. Previously shared links stop working.
+   */
+  async disableSharing(userId: string, wishlistId: string): Promise<any> {
+    await this.getOwnWishlist(userId, wishlistId);
+
+    return this.db.wishlist.update({
+      where: { id: wishlistId },
+      data: { shareToken: null },
+    });
+  }
+
+  private async getOwnWishlist(userId: string, wishlistId: string): Promise<any> {
+    const wishlist = await this.db.wishlist.findFirst({
+      where: { id: wishlistId, userId },
+    });
+
+    if (!wishlist) {
+      throw ApiError.notFound('Wishlist not found');
+    }
+
+    return wishlist;
+  }
+
+  private async getOwnItem(userId: string, wishlistId: string, itemId: string): Promise<any> {
+    const item = await this.db.wishlistItem.findFirst({
+      where: {
+        id: itemId,
+        wishlist: { id: wishlistId, userId },
+      },
+    });
+
+    if (!item) {
+      throw ApiError.notFound('Wishlist item not found');
+    }
+
+    return item;
+  }
+
+  private async ensureUniqueName(userId: string, name: string, excludeId?: string): Promise<void> {
+    const existing = await this.db.wishlist.findFirst({
+      where: {
+        userId,
+        name: { equals: name, mode: 'insensitive' },
+        ...(excludeId && { id: { not: excludeId } }),
+      },
+    });
+
+    if (existing) {
+      throw ApiError.conflict(`You already have a wishlist named "${name}"`);
+    }
+  }
+}
\ No newline at end of file
@@ -9,6 +9,7 @@ export interface ApiResponse<T = any> {
 export interface PaginationQuery {
   page?: number;
   limit?: number;
+  cursor?: string;
 }
 
 export interface PaginatedResponse<T> {
@@ -23,6 +24,17 @@ export interface PaginatedResponse<T> {
   };
 }
 
+export interface CursorPaginatedResponse<T> {
+  data: T[];
+  pagination: {
+    limit: number;
+    nextCursor: string | null;
+    prevCursor: string | null;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
 import { Request } from 'express';
 
 export interface AuthenticatedRequest extends Request {
@@ -36,6 +48,7 @@ export interface AuthenticatedRequest extends Request {
 
 export interface CartItemRequest {
   productId: string;
+  variantId?: string;
   quantity: number;
 }
 
@@ -0,0 +1,38 @@
+import { Request } from 'express';
+import { config } from '@/config';
+
+export class CurrencyUtils {
+  /**
+   * Decimal places used for amounts in a currency (e.g. 2 for USD, 0 for JPY)
+   */
+  static fractionDigits(currency: string): number {
+    return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  }
+
+  /**
+   * Round an amount to the precision of its currency
+   */
+  static round(amount: number, currency: string): number {
+    const factor = 10 ** this.fractionDigits(currency);
+    return Math.round(amount * factor) / factor;
+  }
+
+  /**
+   * Format an amount for display, e.g. "$12.50" or "€12.50"
+   */
+  static format(amount: number, currency: string = config.baseCurrency): string {
+    return new Intl.NumberFormat('en', { style: 'currency', currency }).format(amount);
+  }
+
+  /**
+   * The currency requested through the `currency` query parameter or the
+   * X-Currency header, if any
+   */
+  static fromRequest(req: Request): string | undefined {
+    const requested = req.query.currency ?? req.get('X-Currency');
+
+    return typeof requested === 'string' && requested.trim() !== ''
+      ? requested.trim().toUpperCase()
+      : undefined;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { Prisma, StockPolicy } from '@prisma/client';
+
+export class InventoryUtils {
+  /**
+   * Prisma condition matching products that can be bought now: downloads
+   * never run out, everything else needs stock (license keys included).
+   * Products whose stock is entirely reserved can be left out.
+   */
+  static inStockWhere(fullyReservedIds: string[] = []): Prisma.ProductWhereInput {
+    return {
+      OR: [
+        { stock: { gt: 0 } },
+        { type: 'DOWNLOAD' },
+      ],
+      ...(fullyReservedIds.length > 0 && { id: { notIn: fullyReservedIds } }),
+    };
+  }
+
+  /**
+   * Units of a product that can be ordered now: the stock on hand not held
+   * for other carts, plus whatever backorders or pre-orders are still
+   * allowed beyond it
+   */
+  static orderableStock(
+    product: { stock: number; stockPolicy: StockPolicy; backorderLimit: number | null },
+    backordered: number,
+    reserved: number = 0
+  ): number {
+    const onHand = Math.max(product.stock - reserved, 0);
+
+    if (product.stockPolicy === 'STANDARD') {
+      return onHand;
+    }
+
+    if (product.backorderLimit === null) {
+      return Number.POSITIVE_INFINITY;
+    }
+
+    return onHand + Math.max(product.backorderLimit - backordered, 0);
+  }
+
+  /**
+   * Prisma condition matching products that are sold out, optionally
+   * including those whose stock is entirely reserved
+   */
+  static outOfStockWhere(fullyReservedIds: string[] = []): Prisma.ProductWhereInput {
+    const soldOut: Prisma.ProductWhereInput = {
+      stock: { lte: 0 },
+      type: { not: 'DOWNLOAD' },
+    };
+
+    return fullyReservedIds.length > 0
+      ? { OR: [soldOut, { id: { in: fullyReservedIds } }] }
+      : soldOut;
+  }
+}
\ No newline at end of file
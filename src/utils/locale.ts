@@ -0,0 +1,88 @@
+import { Request } from 'express';
+import { config } from '@/config';
+
+export class LocaleUtils {
+  /**
+   * Locales content can be served in; the default locale is always supported
+   */
+  static supportedLocales(): string[] {
+    return Array.from(new Set([config.defaultLocale, ...config.supportedLocales]));
+  }
+
+  /**
+   * Whether a locale is other than the default one and can have translations
+   */
+  static isTranslatable(locale: string): boolean {
+    return locale !== config.defaultLocale && this.supportedLocales().includes(locale);
+  }
+
+  /**
+   * Pick the locale to serve: the explicitly requested locale if supported,
+   * otherwise the best match from an Accept-Language header, otherwise the
+   * default locale
+   */
+  static negotiate(requested?: string, acceptLanguage?: string): string {
+    const candidates = [
+      ...(requested ? [requested] : []),
+      ...this.parseAcceptLanguage(acceptLanguage),
+    ];
+
+    for (const candidate of candidates) {
+      const match = this.match(candidate);
+
+      if (match) {
+        return match;
+      }
+    }
+
+    return config.defaultLocale;
+  }
+
+  /**
+   * Negotiate the locale of a request from the `locale` query parameter and
+   * the Accept-Language header
+   */
+  static fromRequest(req: Request): string {
+    const { locale } = req.query;
+
+    return this.negotiate(typeof locale === 'string' ? locale : undefined, req.get('Accept-Language'));
+  }
+
+  /**
+   * Find the supported locale for a language tag: an exact match first,
+   * then the same language ("de-AT" -> "de", "pt" -> "pt-BR")
+   */
+  private static match(tag: string): string | undefined {
+    const supported = this.supportedLocales();
+    const normalized = tag.trim().toLowerCase();
+    const language = normalized.split('-')[0];
+
+    return supported.find(locale => locale.toLowerCase() === normalized)
+      ?? supported.find(locale => locale.toLowerCase() === language)
+      ?? supported.find(locale => locale.toLowerCase().split('-')[0] === language);
+  }
+
+  /**
+   * Language tags of an Accept-Language header, most preferred first,
+   * e.g. "fr-CH, fr;q=0.9, *;q=0.5" -> ["fr-CH", "fr"]
+   */
+  private static parseAcceptLanguage(header?: string): string[] {
+    if (!header) {
+      return [];
+    }
+
+    return header
+      .split(',')
+      .map((part, index) => {
+        const [tag = '', ...params] = part.trim().split(';');
+        const quality = params
+          .map(param => param.trim().match(/^q=([\d.]+)$/))
+          .find(Boolean);
+
+        return { tag: tag.trim(), quality: quality ? Number(quality[1]) : 1, index };
+      })
+      .filter(entry => entry.tag !== '' && entry.tag !== '*' && entry.quality > 0)
+      .sort((a, b) => b.quality - a.quality || a.index - b.index)
+      .map(entry => entry.tag);
+  }
+}
\ No newline at end of file
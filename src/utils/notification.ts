@@ -0,0 +1,56 @@
+import { config } from '@/config';
+
+export interface Notification {
+  type: string;
+  recipient: {
+    id: string;
+    email: string;
+    name: string;
+  };
+  subject: string;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Delivers notifications to users, e.g. by email or push. Implementations
+ * throw when a notification could not be delivered.
+ */
+export interface NotificationChannel {
+  send(notification: Notification): Promise<void>;
+}
+
+/**
+ * Writes notifications to the console; useful in development
+ */
+export class ConsoleNotificationChannel implements NotificationChannel {
+  async send(notification: Notification): Promise<void> {
+    console.log(`📣 [${notification.type}] to ${notification.recipient.email}: ${notification.subject}`);
+  }
+}
+
+let notificationChannel: NotificationChannel | undefined;
+
+/**
+ * Get the notification channel for the configured driver
+ */
+export const getNotificationChannel = (): NotificationChannel => {
+  if (!notificationChannel) {
+    switch (config.notificationDriver) {
+      case 'console':
+        notificationChannel = new ConsoleNotificationChannel();
+        break;
+      default:
+        throw new Error(`Unsupported notification driver: ${config.notificationDriver}`);
+    }
+  }
+
+  return notificationChannel;
+};
+
+/**
+ * Replace the notification channel (e.g. with an email provider)
+ */
+export const setNotificationChannel = (channel: NotificationChannel): void => {
+  notificationChannel = channel;
+};
\ No newline at end of file
@@ -1,4 +1,6 @@
-import { PaginatedResponse, PaginationQuery } from '@/types';
+import { CursorPaginatedResponse, PaginatedResponse, PaginationQuery } from '@/types';
+import { ApiError } from '@/utils/response';
+import { SortingUtils, SortDirection } from '@/utils/sorting';
 
 export interface PaginationOptions {
   page: number;
@@ -6,6 +8,17 @@ export interface PaginationOptions {
   total: number;
 }
 
+export interface CursorPageRequest {
+  orderBy: Array<Record<string, SortDirection>>;
+  after: Record<string, unknown> | null;
+  take: number;
+}
+
+interface CursorPayload {
+  after: Record<string, unknown>;
+  direction: 'next' | 'prev';
+}
+
 export class PaginationUtils {
   static readonly DEFAULT_PAGE = 1;
   static readonly DEFAULT_LIMIT = 10;
@@ -77,4 +90,88 @@ export class PaginationUtils {
       previousPage: currentPage > 1 ? currentPage - 1 : null,
     };
   }
+
+  /**
+   * Fetch one page in keyset order. The fetcher returns up to `take` rows that
+   * come after `after` in `orderBy` order (from the start when `after` is null).
+   * Cursors are opaque to clients and encode the sort values of the first or
+   * last row of a page, so inserts between page loads don't shift pages.
+   */
+  static async paginateByCursor<T extends Record<string, any>>(
+    fetchRows: (request: CursorPageRequest) => Promise<T[]>,
+    options: {
+      orderBy: Array<Record<string, SortDirection>>;
+      limit: number;
+      cursor?: string;
+    }
+  ): Promise<CursorPaginatedResponse<T>> {
+    const { orderBy, cursor } = options;
+    const limit = Math.min(Math.max(options.limit || this.DEFAULT_LIMIT, 1), this.MAX_LIMIT);
+    const fields = orderBy.map(entry => Object.keys(entry)[0]!);
+
+    const position = cursor ? this.decodeCursor(cursor, fields) : null;
+    const backwards = position?.direction === 'prev';
+
+    // Fetch one extra row to know whether there is another page
+    const rows = await fetchRows({
+      orderBy: backwards ? SortingUtils.reverseOrderBy(orderBy) : orderBy,
+      after: position?.after ?? null,
+      take: limit + 1,
+    });
+
+    const hasMore = rows.length > limit;
+    const data = rows.slice(0, limit);
+    if (backwards) {
+      data.reverse();
+    }
+
+    const hasNext = backwards ? position !== null : hasMore;
+    const hasPrev = backwards ? hasMore : position !== null;
+    const first = data[0];
+    const last = data[data.length - 1];
+
+    return {
+      data,
+      pagination: {
+        limit,
+        nextCursor: hasNext && last ? this.encodeCursor(last, fields, 'next') : null,
+        prevCursor: hasPrev && first ? this.encodeCursor(first, fields, 'prev') : null,
+        hasNext,
+        hasPrev,
+      },
+    };
+  }
+
+  private static encodeCursor(
+    row: Record<string, any>,
+    fields: string[],
+    direction: CursorPayload['direction']
+  ): string {
+    const after = Object.fromEntries(fields.map(field => [field, row[field]]));
+    const payload: CursorPayload = { after, direction };
+
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+  }
+
+  private static decodeCursor(cursor: string, fields: string[]): CursorPayload {
+    let payload: CursorPayload;
+
+    try {
+      payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      throw ApiError.badRequest('Invalid pagination cursor');
+    }
+
+    const cursorFields = payload?.after && typeof payload.after === 'object'
+      ? Object.keys(payload.after)
+      : [];
+    const matchesSort = cursorFields.length === fields.length
+      && fields.every(field => cursorFields.includes(field));
+
+    if (!matchesSort || !['next', 'prev'].includes(payload.direction)) {
+      throw ApiError.badRequest('Pagination cursor does not match the requested sort');
+    }
+
+    return payload;
+  }
 }
\ No newline at end of file
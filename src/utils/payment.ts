@@ -1,5 +1,6 @@
 import { config } from '@/config';
 import { PaymentResult } from '@/types';
+import { CurrencyUtils } from '@/utils/currency';
 
 export class PaymentService {
   /**
@@ -43,7 +44,7 @@ export class PaymentService {
   /**
    * Formats payment amount for display
    */
-  static formatAmount(amount: number): string {
-    return `$${amount.toFixed(2)}`;
+  static formatAmount(amount: number, currency: string = config.baseCurrency): string {
+    return CurrencyUtils.format(amount, currency);
   }
 }
\ No newline at end of file
@@ -0,0 +1,114 @@
+import { Prisma } from '@prisma/client';
+
+export interface PriceableProduct {
+  price: unknown;
+  salePrice?: unknown;
+  saleStartsAt?: Date | null;
+  saleEndsAt?: Date | null;
+}
+
+export interface PriceableVariant {
+  price?: unknown;
+}
+
+export class PricingUtils {
+  /**
+   * Whether a product's sale price applies at the given time
+   */
+  static isSaleActive(product: PriceableProduct, now: Date = new Date()): boolean {
+    if (product.salePrice === null || product.salePrice === undefined) {
+      return false;
+    }
+
+    const started = !product.saleStartsAt || product.saleStartsAt <= now;
+    const ended = !!product.saleEndsAt && product.saleEndsAt <= now;
+
+    return started && !ended;
+  }
+
+  /**
+   * Resolves the price a product sells for, which is the sale price while a sale is running
+   */
+  static getEffectivePrice(product: PriceableProduct, now: Date = new Date()): number {
+    return this.isSaleActive(product, now) ? Number(product.salePrice) : Number(product.price);
+  }
+
+  /**
+   * Resolves the unit price for a product, honouring a variant price override.
+   * While the product's sale runs, a variant with its own price costs the
+   * lower of that price and the sale price.
+   */
+  static getUnitPrice(
+    product: PriceableProduct,
+    variant?: PriceableVariant | null,
+    now: Date = new Date()
+  ): number {
+    if (variant && variant.price !== null && variant.price !== undefined) {
+      return this.isSaleActive(product, now)
+        ? Math.min(Number(variant.price), Number(product.salePrice))
+        : Number(variant.price);
+    }
+
+    return this.getEffectivePrice(product, now);
+  }
+
+  /**
+   * Calculates the total for a list of cart or order lines
+   */
+  static calculateLineTotal(
+    items: Array<{ quantity: number; product: PriceableProduct; variant?: PriceableVariant | null }>,
+    now: Date = new Date()
+  ): number {
+    return items.reduce(
+      (total, item) => total + (this.getUnitPrice(item.product, item.variant, now) * item.quantity),
+      0
+    );
+  }
+
+  /**
+   * Add the effective price to a product (and its variants, when included)
+   * for API responses; the regular price doubles as the compare-at price
+   * while `onSale` is true
+   */
+  static withEffectivePrice<T extends PriceableProduct>(
+    product: T,
+    now: Date = new Date()
+  ): T & { effectivePrice: number; onSale: boolean } {
+    const { variants } = product as { variants?: unknown };
+
+    return {
+      ...product,
+      effectivePrice: this.getEffectivePrice(product, now),
+      onSale: this.isSaleActive(product, now),
+      ...(Array.isArray(variants) && {
+        variants: variants.map((variant: PriceableVariant) => ({
+          ...variant,
+          effectivePrice: this.getUnitPrice(product, variant, now),
+        })),
+      }),
+    };
+  }
+
+  /**
+   * Prisma condition matching products whose effective price is within a range
+   */
+  static effectivePriceWhere(
+    range: { gte?: number; lt?: number; lte?: number },
+    now: Date = new Date()
+  ): Prisma.ProductWhereInput {
+    const saleActive: Prisma.ProductWhereInput = {
+      AND: [
+        { salePrice: { not: null } },
+        { OR: [{ saleStartsAt: null }, { saleStartsAt: { lte: now } }] },
+        { OR: [{ saleEndsAt: null }, { saleEndsAt: { gt: now } }] },
+      ],
+    };
+
+    return {
+      OR: [
+        { AND: [saleActive, { salePrice: range }] },
+        { AND: [{ NOT: saleActive }, { price: range }] },
+      ],
+    };
+  }
+}
\ No newline at end of file
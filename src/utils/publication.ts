@@ -0,0 +1,48 @@
+import { Prisma, PublicationStatus } from '@prisma/client';
+
+export class PublicationUtils {
+  /**
+   * Prisma condition matching products shown in the storefront: active,
+   * published (or scheduled with the publish time reached) and not past
+   * their unpublish time. The scheduler catches the stored status up later,
+   * so visibility doesn't depend on when it last ran.
+   */
+  static visibleWhere(now: Date = new Date()): Prisma.ProductWhereInput {
+    return {
+      isActive: true,
+      AND: [
+        {
+          OR: [
+            { status: 'PUBLISHED' },
+            { status: 'SCHEDULED', publishAt: { lte: now } },
+          ],
+        },
+        {
+          OR: [
+            { unpublishAt: null },
+            { unpublishAt: { gt: now } },
+          ],
+        },
+      ],
+    };
+  }
+
+  /**
+   * In-memory counterpart of visibleWhere() for products already loaded
+   */
+  static isVisible(
+    product: { isActive: boolean; status: PublicationStatus; publishAt: Date | null; unpublishAt: Date | null },
+    now: Date = new Date()
+  ): boolean {
+    if (!product.isActive) {
+      return false;
+    }
+
+    if (product.unpublishAt && product.unpublishAt <= now) {
+      return false;
+    }
+
+    return product.status === 'PUBLISHED'
+      || (product.status === 'SCHEDULED' && product.publishAt !== null && product.publishAt <= now);
+  }
+}
\ No newline at end of file
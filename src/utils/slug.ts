@@ -0,0 +1,26 @@
+export class SlugUtils {
+  static readonly MAX_LENGTH = 120;
+
+  /**
+   * Turn text into a URL slug, e.g. "Café Crème 250g" -> "cafe-creme-250g"
+   */
+  static slugify(text: string): string {
+    return text
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '') // Strip accents
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, this.MAX_LENGTH)
+      .replace(/-+$/, '');
+  }
+
+  /**
+   * Append a numeric suffix, keeping the result within the maximum length
+   */
+  static withSuffix(slug: string, suffix: number): string {
+    const ending = `-${suffix}`;
+
+    return slug.slice(0, this.MAX_LENGTH - ending.length).replace(/-+$/, '') + ending;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,132 @@
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortKey {
+  field: string;
+  direction: SortDirection;
+}
+
+export class SortingUtils {
+  static readonly MAX_SORT_KEYS = 3;
+
+  /**
+   * Parse a comma-separated sort parameter, e.g. "-price,name".
+   * A leading "-" sorts that key in descending order.
+   */
+  static parseSort(sort?: string): SortKey[] {
+    if (!sort) {
+      return [];
+    }
+
+    return sort
+      .split(',')
+      .map(key => key.trim())
+      .filter(key => key.length > 0)
+      .map(key => key.startsWith('-')
+        ? { field: key.slice(1), direction: 'desc' as const }
+        : { field: key, direction: 'asc' as const });
+  }
+
+  /**
+   * Check that a sort parameter only uses allowed fields, each at most once
+   */
+  static isValidSort(sort: string, allowedFields: readonly string[]): boolean {
+    const keys = this.parseSort(sort);
+    const fields = keys.map(key => key.field);
+
+    return keys.length > 0
+      && keys.length <= this.MAX_SORT_KEYS
+      && fields.every(field => allowedFields.includes(field))
+      && new Set(fields).size === fields.length;
+  }
+
+  /**
+   * Build a Prisma orderBy list from sort keys. Public sort fields are mapped
+   * to columns, and the primary key is appended as a final tiebreaker so that
+   * rows with equal values keep a stable order across pages.
+   */
+  static buildOrderBy(
+    keys: SortKey[],
+    columns: Record<string, string>,
+    defaultSort: SortKey[]
+  ): Array<Record<string, SortDirection>> {
+    const effectiveKeys = keys.length > 0 ? keys : defaultSort;
+
+    const orderBy = effectiveKeys.map(key => ({
+      [columns[key.field] ?? key.field]: key.direction,
+    }));
+
+    if (!orderBy.some(entry => 'id' in entry)) {
+      orderBy.push({ id: 'asc' });
+    }
+
+    return orderBy;
+  }
+
+  /**
+   * Flip every direction of an orderBy list, for walking pages backwards
+   */
+  static reverseOrderBy(orderBy: Array<Record<string, SortDirection>>): Array<Record<string, SortDirection>> {
+    return orderBy.map(entry => {
+      const [field, direction] = Object.entries(entry)[0]!;
+      return { [field]: direction === 'asc' ? 'desc' : 'asc' };
+    });
+  }
+
+  /**
+   * Build a Prisma where clause selecting the rows that come after the given
+   * row in orderBy order (keyset pagination). Enum columns sort in their
+   * declared order but can't be compared with gt/lt, so their values are
+   * passed in that order and matched with `in`.
+   */
+  static buildKeysetWhere<TWhere extends object>(
+    orderBy: Array<Record<string, SortDirection>>,
+    after: Record<string, unknown>,
+    enumValues: Record<string, readonly string[]> = {}
+  ): TWhere {
+    const entries = orderBy.map(entry => Object.entries(entry)[0]!);
+
+    const comesAfter = (field: string, direction: SortDirection): Record<string, unknown> => {
+      const values = enumValues[field];
+
+      if (!values) {
+        return { [field]: { [direction === 'asc' ? 'gt' : 'lt']: after[field] } };
+      }
+
+      const position = values.indexOf(String(after[field]));
+      const following = position === -1
+        ? []
+        : direction === 'asc' ? values.slice(position + 1) : values.slice(0, position);
+
+      return { [field]: { in: following } };
+    };
+
+    return {
+      OR: entries.map(([field, direction], index) => ({
+        AND: [
+          ...entries.slice(0, index).map(([previous]) => ({ [previous]: after[previous] })),
+          comesAfter(field, direction),
+        ],
+      })),
+    } as TWhere;
+  }
+
+  /**
+   * Compare two rows in orderBy order, for lists that are sorted in memory
+   */
+  static compareRows(
+    a: Record<string, any>,
+    b: Record<string, any>,
+    orderBy: Array<Record<string, SortDirection>>
+  ): number {
+    for (const entry of orderBy) {
+      const [field, direction] = Object.entries(entry)[0]!;
+
+      if (a[field] !== b[field]) {
+        const result = a[field] < b[field] ? -1 : 1;
+        return direction === 'asc' ? result : -result;
+      }
+    }
+
+    return 0;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,117 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from '@/config';
+
+/**
+ * Key-based object storage, modelled on S3 so that an S3-compatible
+ * adapter can be dropped in without touching the services
+ */
+export interface StorageAdapter {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+  getUrl(key: string): string;
+}
+
+/**
+ * Stores objects on the local filesystem under the configured upload directory
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  private rootDir: string;
+  private baseUrl: string;
+
+  constructor(rootDir: string = config.uploadDir, baseUrl: string = config.mediaBaseUrl) {
+    this.rootDir = path.resolve(rootDir);
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolvePath(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolvePath(key));
+    } catch (error: any) {
+      // Already gone is fine
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  getUrl(key: string): string {
+    return `${this.baseUrl}/${key}`;
+  }
+
+  /**
+   * Resolve a key to a path, refusing keys that escape the upload directory
+   */
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return filePath;
+  }
+}
+
+let storageAdapter: StorageAdapter | undefined;
+let privateStorageAdapter: StorageAdapter | undefined;
+
+/**
+ * Get the storage adapter for the configured driver
+ */
+export const getStorageAdapter = (): StorageAdapter => {
+  if (!storageAdapter) {
+    switch (config.storageDriver) {
+      case 'local':
+        storageAdapter = new LocalStorageAdapter();
+        break;
+      default:
+        throw new Error(`Unsupported storage driver: ${config.storageDriver}`);
+    }
+  }
+
+  return storageAdapter;
+};
+
+/**
+ * Replace the storage adapter (e.g. with an S3-compatible implementation)
+ */
+export const setStorageAdapter = (adapter: StorageAdapter): void => {
+  storageAdapter = adapter;
+};
+
+/**
+ * Get the storage adapter for files that must not be publicly reachable
+ * (digital products); they are only handed out through signed download links
+ */
+export const getPrivateStorageAdapter = (): StorageAdapter => {
+  if (!privateStorageAdapter) {
+    switch (config.storageDriver) {
+      case 'local':
+        privateStorageAdapter = new LocalStorageAdapter(config.privateUploadDir, '');
+        break;
+      default:
+        throw new Error(`Unsupported storage driver: ${config.storageDriver}`);
+    }
+  }
+
+  return privateStorageAdapter;
+};
+
+/**
+ * Replace the private storage adapter (e.g. with a private S3-compatible bucket)
+ */
+export const setPrivateStorageAdapter = (adapter: StorageAdapter): void => {
+  privateStorageAdapter = adapter;
+};
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { SortingUtils } from '@/utils/sorting';
 
 // User Validation Schemas
 export const registerSchema = z.object({
@@ -22,26 +23,340 @@ export const refreshTokenSchema = z.object({
 });
 
 // Product Validation Schemas
+export const productSkuSchema = z.string()
+  .trim()
+  .min(1, 'SKU is required')
+  .max(64, 'SKU must be less than 64 characters')
+  .regex(/^[A-Za-z0-9._-]+$/, 'SKU may only contain letters, digits, dots, dashes and underscores');
+
+export const productSlugValueSchema = z.string()
+  .max(120, 'Slug must be less than 120 characters')
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug may only contain lowercase letters, digits and single dashes');
+
+export const PRODUCT_TYPES = ['PHYSICAL', 'DOWNLOAD', 'LICENSE_KEY'] as const;
+export const STOCK_POLICIES = ['STANDARD', 'BACKORDER', 'PREORDER'] as const;
+export const PUBLICATION_STATUSES = ['DRAFT', 'SCHEDULED', 'PUBLISHED', 'ARCHIVED'] as const;
+
+const publicationDateSchema = z.string()
+  .datetime({ offset: true, message: 'Publication times must be ISO 8601 timestamps' })
+  .transform((value: string) => new Date(value));
+
+const saleDateSchema = z.string()
+  .datetime({ offset: true, message: 'Sale dates must be ISO 8601 timestamps' })
+  .transform((value: string) => new Date(value));
+
 export const createProductSchema = z.object({
+  sku: productSkuSchema.optional(),
+  slug: productSlugValueSchema.optional(),
   name: z.string().min(1, 'Product name is required').max(200, 'Product name must be less than 200 characters'),
   description: z.string().max(1000, 'Description must be less than 1000 characters').optional(),
   price: z.number()
     .positive('Price must be positive')
     .max(999999.99, 'Price must be less than 1,000,000'),
+  salePrice: z.number()
+    .positive('Sale price must be positive')
+    .max(999999.99, 'Sale price must be less than 1,000,000')
+    .nullable()
+    .optional(),
+  saleStartsAt: saleDateSchema.nullable().optional(),
+  saleEndsAt: saleDateSchema.nullable().optional(),
   stock: z.number()
     .int('Stock must be an integer')
     .min(0, 'Stock cannot be negative'),
+  type: z.enum(PRODUCT_TYPES).optional(),
+  stockPolicy: z.enum(STOCK_POLICIES).optional(),
+  backorderLimit: z.number()
+    .int('Backorder limit must be an integer')
+    .min(1, 'Backorder limit must be at least 1')
+    .nullable()
+    .optional(),
+  preorderShipDate: z.string()
+    .datetime({ offset: true, message: 'Pre-order ship date must be an ISO 8601 timestamp' })
+    .transform((value: string) => new Date(value))
+    .nullable()
+    .optional(),
+  status: z.enum(PUBLICATION_STATUSES).optional(),
+  publishAt: publicationDateSchema.nullable().optional(),
+  unpublishAt: publicationDateSchema.nullable().optional(),
+  categoryIds: z.array(z.string().cuid('Invalid category ID'))
+    .max(20, 'A product can belong to at most 20 categories')
+    .optional(),
 });
 
 export const updateProductSchema = createProductSchema.partial();
 
+// Catalog import rows must carry the external SKU used to match existing products.
+// Sales, digital delivery, stock policies and publishing are set up through the API, not through imports.
+export const importProductRowSchema = createProductSchema.omit({
+  salePrice: true,
+  saleStartsAt: true,
+  saleEndsAt: true,
+  type: true,
+  stockPolicy: true,
+  backorderLimit: true,
+  preorderShipDate: true,
+  status: true,
+  publishAt: true,
+  unpublishAt: true,
+}).extend({
+  sku: productSkuSchema,
+});
+
+export const importProductsQuerySchema = z.object({
+  format: z.enum(['csv', 'ndjson']).optional(),
+  dryRun: z.string().transform((val: string) => val === 'true').optional(),
+});
+
+export const exportProductsQuerySchema = z.object({
+  format: z.enum(['csv', 'ndjson']).optional(),
+});
+
+export const productSlugSchema = z.object({
+  slug: productSlugValueSchema,
+});
+
 export const productIdSchema = z.object({
   id: z.string().cuid('Invalid product ID'),
 });
 
+// Product Bundle Validation Schemas
+export const setBundleComponentsSchema = z.object({
+  components: z.array(z.object({
+    productId: z.string().cuid('Invalid product ID'),
+    quantity: z.number()
+      .int('Quantity must be an integer')
+      .min(1, 'Quantity must be at least 1')
+      .max(100, 'Quantity cannot exceed 100'),
+  }))
+    .min(1, 'A bundle needs at least one component')
+    .max(20, 'A bundle can have at most 20 components')
+    .refine(
+      components => new Set(components.map(component => component.productId)).size === components.length,
+      'Each product can only be listed once per bundle'
+    ),
+  discount: z.number()
+    .min(0, 'Discount cannot be negative')
+    .max(999999.99, 'Discount must be less than 1,000,000')
+    .nullable()
+    .optional(),
+});
+
+// Digital Product Validation Schemas
+export const addLicenseKeysSchema = z.object({
+  keys: z.array(
+    z.string().trim().min(1, 'License key is required').max(200, 'License key must be less than 200 characters')
+  )
+    .min(1, 'At least one license key is required')
+    .max(1000, 'At most 1000 license keys can be added at once'),
+});
+
+export const downloadLinkIdSchema = z.object({
+  id: z.string().cuid('Invalid download link ID'),
+});
+
+export const downloadSignatureSchema = z.object({
+  expires: z.string().regex(/^\d+$/, 'Invalid link expiry'),
+  signature: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid link signature'),
+});
+
+// Product Variant Validation Schemas
+export const createProductOptionSchema = z.object({
+  name: z.string().min(1, 'Option name is required').max(50, 'Option name must be less than 50 characters'),
+  values: z.array(
+    z.string().min(1, 'Option value is required').max(50, 'Option value must be less than 50 characters')
+  )
+    .min(1, 'At least one option value is required')
+    .max(50, 'An option can have at most 50 values'),
+});
+
+export const generateVariantsSchema = z.object({
+  price: z.number()
+    .positive('Price must be positive')
+    .max(999999.99, 'Price must be less than 1,000,000')
+    .optional(),
+  stock: z.number()
+    .int('Stock must be an integer')
+    .min(0, 'Stock cannot be negative')
+    .optional(),
+});
+
+export const updateVariantSchema = z.object({
+  sku: z.string()
+    .min(1, 'SKU is required')
+    .max(64, 'SKU must be less than 64 characters')
+    .regex(/^[A-Za-z0-9-_]+$/, 'SKU may only contain letters, digits, dashes and underscores')
+    .optional(),
+  price: z.number()
+    .positive('Price must be positive')
+    .max(999999.99, 'Price must be less than 1,000,000')
+    .nullable()
+    .optional(),
+  stock: z.number()
+    .int('Stock must be an integer')
+    .min(0, 'Stock cannot be negative')
+    .optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const productOptionIdSchema = z.object({
+  id: z.string().cuid('Invalid product ID'),
+  optionId: z.string().cuid('Invalid option ID'),
+});
+
+export const productVariantIdSchema = z.object({
+  id: z.string().cuid('Invalid product ID'),
+  variantId: z.string().cuid('Invalid variant ID'),
+});
+
+// Product Media Validation Schemas
+const altTextSchema = z.string().max(255, 'Alt text must be less than 255 characters');
+
+export const uploadProductMediaSchema = z.object({
+  altText: z.union([altTextSchema, z.array(altTextSchema)]).optional(),
+});
+
+export const updateProductMediaSchema = z.object({
+  altText: altTextSchema.nullable(),
+});
+
+export const reorderProductMediaSchema = z.object({
+  mediaIds: z.array(z.string().cuid('Invalid media ID')).min(1, 'At least one media ID is required'),
+});
+
+export const productMediaIdSchema = z.object({
+  id: z.string().cuid('Invalid product ID'),
+  mediaId: z.string().cuid('Invalid media ID'),
+});
+
+// Category Validation Schemas
+export const createCategorySchema = z.object({
+  name: z.string().min(1, 'Category name is required').max(100, 'Category name must be less than 100 characters'),
+  description: z.string().max(500, 'Description must be less than 500 characters').optional(),
+  parentId: z.string().cuid('Invalid parent category ID').nullable().optional(),
+});
+
+export const updateCategorySchema = createCategorySchema.partial();
+
+export const categoryIdSchema = z.object({
+  id: z.string().cuid('Invalid category ID'),
+});
+
+// Attribute Validation Schemas
+export const ATTRIBUTE_TYPES = ['TEXT', 'NUMBER', 'ENUM', 'BOOLEAN'] as const;
+export const MAX_ATTRIBUTE_FILTERS = 10;
+
+const attributeCodeSchema = z.string()
+  .max(50, 'Attribute code must be less than 50 characters')
+  .regex(/^[a-z][a-z0-9_]*$/, 'Attribute code must start with a letter and contain only lowercase letters, digits and underscores');
+
+const attributeOptionsSchema = z.array(
+  z.string().trim().min(1, 'Attribute option cannot be empty').max(100, 'Attribute option must be less than 100 characters')
+)
+  .max(200, 'An attribute can have at most 200 options')
+  .refine(options => new Set(options).size === options.length, 'Attribute options must be unique');
+
+export const createAttributeSchema = z.object({
+  code: attributeCodeSchema,
+  name: z.string().min(1, 'Attribute name is required').max(100, 'Attribute name must be less than 100 characters'),
+  type: z.enum(ATTRIBUTE_TYPES),
+  unit: z.string().max(20, 'Unit must be less than 20 characters').optional(),
+  options: attributeOptionsSchema.optional(),
+  isFilterable: z.boolean().optional(),
+}).refine(data => data.type === 'ENUM' ? (data.options?.length ?? 0) > 0 : data.options === undefined, {
+  message: 'Enum attributes need at least one option; other types take no options',
+  path: ['options'],
+});
+
+// The code and type of an attribute are fixed once it exists
+export const updateAttributeSchema = z.object({
+  name: z.string().min(1, 'Attribute name is required').max(100, 'Attribute name must be less than 100 characters').optional(),
+  unit: z.string().max(20, 'Unit must be less than 20 characters').nullable().optional(),
+  options: attributeOptionsSchema.optional(),
+  isFilterable: z.boolean().optional(),
+});
+
+export const attributeIdSchema = z.object({
+  id: z.string().cuid('Invalid attribute ID'),
+});
+
+// Values are keyed by attribute code; null removes a value from the product
+export const setProductAttributesSchema = z.object({
+  values: z.record(
+    attributeCodeSchema,
+    z.union([z.string().trim().min(1).max(500), z.number().finite(), z.boolean(), z.null()])
+  ).refine(values => Object.keys(values).length > 0, 'At least one attribute value is required'),
+});
+
+// Review Validation Schemas
+export const createReviewSchema = z.object({
+  rating: z.number()
+    .int('Rating must be a whole number')
+    .min(1, 'Rating must be at least 1')
+    .max(5, 'Rating must be at most 5'),
+  title: z.string().max(120, 'Review title must be less than 120 characters').optional(),
+  body: z.string().max(5000, 'Review text must be less than 5000 characters').optional(),
+});
+
+export const updateReviewSchema = createReviewSchema.partial();
+
+export const moderateReviewSchema = z.object({
+  status: z.enum(['APPROVED', 'HIDDEN'], {
+    required_error: 'Review status is required',
+    invalid_type_error: 'Invalid review status',
+  }),
+});
+
+export const reviewIdSchema = z.object({
+  id: z.string().cuid('Invalid review ID'),
+});
+
+export const reviewFilterSchema = z.object({
+  status: z.enum(['PENDING', 'APPROVED', 'HIDDEN']).optional(),
+});
+
+// Question Validation Schemas
+export const createQuestionSchema = z.object({
+  body: z.string()
+    .trim()
+    .min(10, 'Question must be at least 10 characters')
+    .max(1000, 'Question must be less than 1000 characters'),
+});
+
+export const createAnswerSchema = z.object({
+  body: z.string()
+    .trim()
+    .min(1, 'Answer is required')
+    .max(5000, 'Answer must be less than 5000 characters'),
+});
+
+export const moderateQuestionSchema = z.object({
+  status: z.enum(['PUBLISHED', 'HIDDEN'], {
+    required_error: 'Question status is required',
+    invalid_type_error: 'Invalid question status',
+  }),
+});
+
+export const questionIdSchema = z.object({
+  id: z.string().cuid('Invalid question ID'),
+});
+
+export const answerIdSchema = z.object({
+  id: z.string().cuid('Invalid answer ID'),
+});
+
+export const questionFilterSchema = z.object({
+  status: z.enum(['PENDING', 'PUBLISHED', 'HIDDEN']).optional(),
+});
+
+export const productDetailQuerySchema = z.object({
+  questionsPage: z.string().regex(/^\d+$/, 'Questions page must be a positive integer').transform(Number).refine((val: number) => val > 0, 'Questions page must be greater than 0').optional(),
+  questionsLimit: z.string().regex(/^\d+$/, 'Questions limit must be a positive integer').transform(Number).refine((val: number) => val > 0 && val <= 50, 'Questions limit must be between 1 and 50').optional(),
+});
+
 // Cart Validation Schemas
 export const addToCartSchema = z.object({
   productId: z.string().cuid('Invalid product ID'),
+  variantId: z.string().cuid('Invalid variant ID').optional(),
   quantity: z.number()
     .int('Quantity must be an integer')
     .min(1, 'Quantity must be at least 1')
@@ -50,12 +365,41 @@ export const addToCartSchema = z.object({
 
 export const removeFromCartSchema = z.object({
   productId: z.string().cuid('Invalid product ID'),
+  variantId: z.string().cuid('Invalid variant ID').optional(),
   quantity: z.number()
     .int('Quantity must be an integer')
     .min(1, 'Quantity must be at least 1')
     .optional(),
 });
 
+// Wishlist Validation Schemas
+export const createWishlistSchema = z.object({
+  name: z.string().trim().min(1, 'Wishlist name is required').max(100, 'Wishlist name must be less than 100 characters'),
+});
+
+export const updateWishlistSchema = createWishlistSchema;
+
+export const wishlistIdSchema = z.object({
+  id: z.string().cuid('Invalid wishlist ID'),
+});
+
+export const wishlistItemIdSchema = z.object({
+  id: z.string().cuid('Invalid wishlist ID'),
+  itemId: z.string().cuid('Invalid wishlist item ID'),
+});
+
+export const wishlistShareTokenSchema = z.object({
+  token: z.string().regex(/^[A-Za-z0-9_-]{32}$/, 'Invalid share token'),
+});
+
+export const addWishlistItemSchema = z.object({
+  productId: z.string().cuid('Invalid product ID'),
+  variantId: z.string().cuid('Invalid variant ID').optional(),
+  note: z.string().max(500, 'Note must be less than 500 characters').optional(),
+});
+
+export const moveWishlistItemToCartSchema = addToCartSchema.pick({ quantity: true }).partial();
+
 // Order Validation Schemas
 export const createOrderSchema = z.object({
   paymentMethod: z.string().min(1, 'Payment method is required').optional(),
@@ -76,14 +420,159 @@ export const orderIdSchema = z.object({
 export const paginationSchema = z.object({
   page: z.string().regex(/^\d+$/, 'Page must be a positive integer').transform(Number).refine((val: number) => val > 0, 'Page must be greater than 0').optional(),
   limit: z.string().regex(/^\d+$/, 'Limit must be a positive integer').transform(Number).refine((val: number) => val > 0 && val <= 100, 'Limit must be between 1 and 100').optional(),
+  cursor: z.string().max(1000, 'Cursor must be less than 1000 characters').optional(),
 });
 
+// Translation Validation Schemas
+export const localeSchema = z.string()
+  .trim()
+  .regex(/^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/, 'Locale must be a language tag such as "de" or "pt-BR"');
+
+export const localeQuerySchema = z.object({
+  locale: localeSchema.optional(),
+});
+
+export const productLocaleParamSchema = z.object({
+  id: z.string().cuid('Invalid product ID'),
+  locale: localeSchema,
+});
+
+export const categoryLocaleParamSchema = z.object({
+  id: z.string().cuid('Invalid category ID'),
+  locale: localeSchema,
+});
+
+export const setProductTranslationSchema = createProductSchema.pick({
+  name: true,
+  description: true,
+});
+
+export const setCategoryTranslationSchema = createCategorySchema.pick({
+  name: true,
+  description: true,
+});
+
+// Currency Validation Schemas
+export const currencyCodeSchema = z.string()
+  .trim()
+  .transform((value: string) => value.toUpperCase())
+  .refine((value: string) => /^[A-Z]{3}$/.test(value), 'Currency must be a 3-letter ISO 4217 code');
+
+export const currencyQuerySchema = z.object({
+  currency: currencyCodeSchema.optional(),
+});
+
+export const currencyParamSchema = z.object({
+  code: currencyCodeSchema,
+});
+
+export const setExchangeRateSchema = z.object({
+  rate: z.number()
+    .positive('Rate must be positive')
+    .max(1000000, 'Rate must be at most 1,000,000'),
+});
+
+export const productCurrencyParamSchema = z.object({
+  id: z.string().cuid('Invalid product ID'),
+  currency: currencyCodeSchema,
+});
+
+export const setProductPriceSchema = z.object({
+  price: z.number()
+    .positive('Price must be positive')
+    .max(999999999.99, 'Price is too large'),
+  salePrice: z.number()
+    .positive('Sale price must be positive')
+    .max(999999999.99, 'Sale price is too large')
+    .nullable()
+    .optional(),
+});
+
+// Recommendation Schemas
+export const relatedProductsQuerySchema = z.object({
+  limit: z.string()
+    .regex(/^\d+$/, 'Limit must be a positive integer')
+    .transform(Number)
+    .refine((val: number) => val > 0 && val <= 20, 'Limit must be between 1 and 20')
+    .optional(),
+});
+
+export const recommendationsQuerySchema = z.object({
+  limit: z.string()
+    .regex(/^\d+$/, 'Limit must be a positive integer')
+    .transform(Number)
+    .refine((val: number) => val > 0 && val <= 50, 'Limit must be between 1 and 50')
+    .optional(),
+});
+
+// Recently Viewed Schemas
+export const viewerSessionIdSchema = z.string()
+  .regex(/^[A-Za-z0-9_-]{16,128}$/, 'Session ID must be 16-128 letters, digits, dashes or underscores');
+
+export const recentlyViewedQuerySchema = z.object({
+  limit: z.string()
+    .regex(/^\d+$/, 'Limit must be a positive integer')
+    .transform(Number)
+    .refine((val: number) => val > 0 && val <= 50, 'Limit must be between 1 and 50')
+    .optional(),
+});
+
+// Sorting Schemas
+export const PRODUCT_SORT_FIELDS = ['price', 'name', 'stock', 'createdAt', 'popularity', 'rating'] as const;
+export const ORDER_SORT_FIELDS = ['createdAt', 'totalAmount', 'status'] as const;
+
+const sortSchema = (fields: readonly string[]) => z.string().refine(
+  (val: string) => SortingUtils.isValidSort(val, fields),
+  `Sort must list up to ${SortingUtils.MAX_SORT_KEYS} distinct fields from: ${fields.join(', ')} (prefix with "-" for descending)`
+);
+
 // Search and Filter Schemas
+const attributeFilterTermSchema = z.string().min(1, 'Attribute filter value cannot be empty').max(100, 'Attribute filter value must be less than 100 characters');
+const attributeFilterBoundSchema = z.string().regex(/^-?\d*\.?\d+$/, 'Attribute range bounds must be valid numbers').transform(Number);
+
+/**
+ * Attribute filters as parsed from the query string:
+ *   attr[brand]=acme                 -> { brand: { in: ['acme'] } }
+ *   attr[color]=red&attr[color]=blue -> { color: { in: ['red', 'blue'] } }
+ *   attr[weight][lte]=2              -> { weight: { lte: 2 } }
+ */
+const attributeFiltersSchema = z.record(
+  attributeCodeSchema,
+  z.union([
+    attributeFilterTermSchema.transform(value => ({ in: [value] })),
+    z.array(attributeFilterTermSchema).max(20, 'At most 20 values per attribute filter').transform(values => ({ in: values })),
+    z.object({
+      eq: attributeFilterTermSchema.optional(),
+      gt: attributeFilterBoundSchema.optional(),
+      gte: attributeFilterBoundSchema.optional(),
+      lt: attributeFilterBoundSchema.optional(),
+      lte: attributeFilterBoundSchema.optional(),
+    })
+      .strict()
+      .refine(filter => Object.keys(filter).length > 0, 'Attribute filter needs a value or an operator (eq, gt, gte, lt, lte)')
+      .transform(({ eq, ...range }) => ({ ...(eq !== undefined && { in: [eq] }), ...range })),
+  ])
+).refine(
+  filters => Object.keys(filters).length <= MAX_ATTRIBUTE_FILTERS,
+  `At most ${MAX_ATTRIBUTE_FILTERS} attribute filters are allowed`
+);
+
 export const productFilterSchema = z.object({
   search: z.string().max(200, 'Search term must be less than 200 characters').optional(),
   minPrice: z.string().regex(/^\d*\.?\d+$/, 'Min price must be a valid number').transform(Number).optional(),
   maxPrice: z.string().regex(/^\d*\.?\d+$/, 'Max price must be a valid number').transform(Number).optional(),
   inStock: z.string().transform((val: string) => val === 'true').optional(),
+  categoryId: z.string().cuid('Invalid category ID').optional(),
+  facets: z.string().transform((val: string) => val === 'true').optional(),
+  sort: sortSchema(PRODUCT_SORT_FIELDS).optional(),
+  attr: attributeFiltersSchema.optional(),
+  locale: localeSchema.optional(),
+  status: z.enum(PUBLICATION_STATUSES).optional(),
+});
+
+export const orderFilterSchema = z.object({
+  status: z.enum(['PENDING', 'SHIPPED', 'DELIVERED', 'CANCELLED']).optional(),
+  sort: sortSchema(ORDER_SORT_FIELDS).optional(),
 });
 
 // User ID Validation
@@ -101,9 +590,35 @@ export type LoginInput = z.infer<typeof loginSchema>;
 export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
 export type CreateProductInput = z.infer<typeof createProductSchema>;
 export type UpdateProductInput = z.infer<typeof updateProductSchema>;
+export type ImportProductRowInput = z.infer<typeof importProductRowSchema>;
+export type SetBundleComponentsInput = z.infer<typeof setBundleComponentsSchema>;
+export type AddLicenseKeysInput = z.infer<typeof addLicenseKeysSchema>;
+export type SetProductPriceInput = z.infer<typeof setProductPriceSchema>;
+export type SetProductTranslationInput = z.infer<typeof setProductTranslationSchema>;
+export type CreateProductOptionInput = z.infer<typeof createProductOptionSchema>;
+export type GenerateVariantsInput = z.infer<typeof generateVariantsSchema>;
+export type UpdateVariantInput = z.infer<typeof updateVariantSchema>;
+export type UpdateProductMediaInput = z.infer<typeof updateProductMediaSchema>;
+export type CreateCategoryInput = z.infer<typeof createCategorySchema>;
+export type UpdateCategoryInput = z.infer<typeof updateCategorySchema>;
+export type SetCategoryTranslationInput = z.infer<typeof setCategoryTranslationSchema>;
+export type CreateAttributeInput = z.infer<typeof createAttributeSchema>;
+export type UpdateAttributeInput = z.infer<typeof updateAttributeSchema>;
+export type SetProductAttributesInput = z.infer<typeof setProductAttributesSchema>;
 export type AddToCartInput = z.infer<typeof addToCartSchema>;
 export type RemoveFromCartInput = z.infer<typeof removeFromCartSchema>;
 export type CreateOrderInput = z.infer<typeof createOrderSchema>;
 export type UpdateOrderStatusInput = z.infer<typeof updateOrderStatusSchema>;
 export type PaginationInput = z.infer<typeof paginationSchema>;
-export type ProductFilterInput = z.infer<typeof productFilterSchema>;
\ No newline at end of file
+export type ProductFilterInput = z.infer<typeof productFilterSchema>;
+export type AttributeFilterInput = NonNullable<ProductFilterInput['attr']>;
+export type CreateWishlistInput = z.infer<typeof createWishlistSchema>;
+export type UpdateWishlistInput = z.infer<typeof updateWishlistSchema>;
+export type AddWishlistItemInput = z.infer<typeof addWishlistItemSchema>;
+export type CreateReviewInput = z.infer<typeof createReviewSchema>;
+export type UpdateReviewInput = z.infer<typeof updateReviewSchema>;
+export type ModerateReviewInput = z.infer<typeof moderateReviewSchema>;
+export type CreateQuestionInput = z.infer<typeof createQuestionSchema>;
+export type CreateAnswerInput = z.infer<typeof createAnswerSchema>;
+export type ModerateQuestionInput = z.infer<typeof moderateQuestionSchema>;
+export type OrderFilterInput = z.infer<typeof orderFilterSchema>;
\ No newline at end of file